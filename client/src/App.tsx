@@ -2,6 +2,7 @@ import { Route, Switch, useLocation } from 'wouter';
 import React, { useEffect, useState } from 'react';
 import WorkflowStatus from './pages/WorkflowStatus';
 import DraftApproval from './pages/DraftApproval';
+import OutlineApproval from './pages/OutlineApproval';
 import NewArticle from './pages/NewArticle';
 import GlobalWebSocketListener from './components/GlobalWebSocketListener';
 
@@ -27,102 +28,39 @@ function Home() {
   const [result, setResult] = useState('');
   const [, setLocation] = useLocation();
 
-  // Fetch available models based on selected provider
+  // Fetch the provider's models from the model catalog
   useEffect(() => {
     const fetchModels = async () => {
       try {
         setIsModelsLoading(true);
-        
-        if (selectedProvider === 'ollama') {
-          // Fetch models from local Ollama (for hosted models, use OpenRouter provider)
-          const response = await fetch('/api/workflow/models');
-          
-          if (!response.ok) {
-            throw new Error('Failed to fetch models from local Ollama (use OpenRouter provider for hosted models)');
-          }
-          
-          const data = await response.json();
-          if (data.success && data.data?.models) {
-            setAvailableModels(data.data.models.map((model: string) => ({ name: model, model })));
-            // Set default model if it exists in the list
-            if (data.data.models.includes('phi4-mini-reasoning')) {
-              setSelectedModel('phi4-mini-reasoning');
-            } else if (data.data.models.length > 0) {
-              setSelectedModel(data.data.models[0]);
-            }
-          }
-        } else if (selectedProvider === 'openrouter') {
-          // For OpenRouter, we'll set a default list and let the backend fetch the actual models
-          // when the user provides an API key
-          setAvailableModels([]);
-          setSelectedModel("");
-        }
-      } catch (error) {
-        console.error('Failed to fetch models:', error);
-        // Fallback to default model list for local Ollama (for hosted models, use OpenRouter provider)
-        if (selectedProvider === 'ollama') {
-          setAvailableModels([
-            { name: 'phi4-mini-reasoning', model: 'phi4-mini-reasoning' },
-            { name: 'gemma3:270m', model: 'gemma3:270m' },
-            { name: 'llama2', model: 'llama2' },
-            { name: 'mistral', model: 'mistral' }
-          ]);
-          setSelectedModel('phi4-mini-reasoning');
-        } else {
-          setAvailableModels([]);
-          setSelectedModel("");
-        }
-      } finally {
-        setIsModelsLoading(false);
-        setIsLoadingModels(false);
-      }
-    };
-
-    fetchModels();
-  }, [selectedProvider]);
-
-  // Fetch OpenRouter models when API key is provided
-  useEffect(() => {
-    const fetchOpenRouterModels = async () => {
-      if (selectedProvider !== 'openrouter' || !apiKey.trim()) {
-        return;
-      }
-
-      try {
-        setIsModelsLoading(true);
-        const response = await fetch('/api/workflow/openrouter-models', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ apiKey: apiKey.trim() }),
-        });
 
+        const response = await fetch(`/api/models?provider=${encodeURIComponent(selectedProvider)}`);
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error?.message || 'Failed to fetch OpenRouter models');
+          throw new Error(errorData.error?.message || 'Failed to fetch models');
         }
 
         const data = await response.json();
-        if (data.success && data.data?.models) {
-          setAvailableModels(data.data.models.map((model: string) => ({ name: model, model })));
-          if (data.data.models.length > 0) {
-            setSelectedModel(data.data.models[0]);
-          }
-        }
+        const models: Model[] = (data.data?.models || []).map((m: { id: string; name: string }) => ({
+          name: m.name,
+          model: m.id,
+        }));
+        setAvailableModels(models);
+        // Set default model if it exists in the list
+        setSelectedModel(models.find(m => m.model === 'phi4-mini-reasoning')?.model || models[0]?.model || "");
       } catch (error) {
-        console.error('Failed to fetch OpenRouter models:', error);
-        setResult(`Error: ${error instanceof Error ? error.message : 'Failed to fetch OpenRouter models'}`);
+        console.error('Failed to fetch models:', error);
+        setResult(`Error: ${error instanceof Error ? error.message : 'Failed to fetch models'}`);
         setAvailableModels([]);
         setSelectedModel("");
       } finally {
         setIsModelsLoading(false);
+        setIsLoadingModels(false);
       }
     };
 
-    const timeoutId = setTimeout(fetchOpenRouterModels, 500); // Debounce API calls
-    return () => clearTimeout(timeoutId);
-  }, [selectedProvider, apiKey]);
+    fetchModels();
+  }, [selectedProvider]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -282,10 +220,6 @@ function Home() {
                 <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-500"></div>
                 <span className="text-sm text-gray-600">Loading models...</span>
               </div>
-            ) : availableModels.length === 0 && selectedProvider === 'openrouter' && !apiKey.trim() ? (
-              <div className="mt-1 p-2 text-sm text-gray-500 border border-gray-300 rounded-md">
-                Enter your OpenRouter API key to see available models
-              </div>
             ) : availableModels.length === 0 ? (
               <div className="mt-1 p-2 text-sm text-gray-500 border border-gray-300 rounded-md">
                 No models available
@@ -296,7 +230,7 @@ function Home() {
                 value={selectedModel}
                 onChange={(e) => setSelectedModel(e.target.value)}
                 className="mt-1 block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
-                disabled={isSubmitting || (selectedProvider === 'openrouter' && !apiKey.trim())}
+                disabled={isSubmitting}
               >
                 {availableModels.map((model) => (
                   <option key={model.model} value={model.model}>
@@ -356,6 +290,7 @@ function Router() {
       <Route path="/new-article" component={NewArticle} />
       <Route path="/" component={Home} />
       <Route path="/workflow/:executionId" component={WorkflowStatus} />
+      <Route path="/outline-approval/:executionId" component={OutlineApproval} />
       <Route path="/draft-approval/:executionId" component={DraftApproval} />
       <Route>404, Not Found! {location}</Route>
     </Switch>
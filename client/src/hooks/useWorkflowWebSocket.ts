@@ -1,8 +1,35 @@
 import { useState, useEffect, useCallback } from 'react';
 import { webSocketService } from '../lib/websocket';
 
+export type ApprovalDecision = 'approve' | 'reject' | 'revise';
+
+export interface EditableOutline {
+  title: string;
+  introduction: string[];
+  sections: Array<{ heading: string; keyPoints: string[] }>;
+  conclusion: string[];
+}
+
+/**
+ * Editor changes submitted alongside an approval decision
+ */
+export interface ApprovalEdits {
+  concepts?: string[];
+  outline?: EditableOutline;
+}
+
+/**
+ * Text an agent is generating, as streamed over the WebSocket
+ */
+export interface LiveOutput {
+  slot: 'outline' | 'draft';
+  text: string;
+  streaming: boolean;
+}
+
 export function useWorkflowWebSocket(executionId: string) {
   const [execution, setExecution] = useState<any>(null);
+  const [liveOutput, setLiveOutput] = useState<LiveOutput | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -82,6 +109,16 @@ export function useWorkflowWebSocket(executionId: string) {
           ...data.state,
           updatedAt: new Date().toISOString(),
         }));
+      } else if (data.type === 'llmStream' && data.executionId === executionId) {
+        setLiveOutput(prev => {
+          if (data.event === 'start' || !prev || prev.slot !== data.slot) {
+            return { slot: data.slot, text: '', streaming: true };
+          }
+          if (data.event === 'token') {
+            return { ...prev, text: prev.text + (data.text || '') };
+          }
+          return { ...prev, streaming: false };
+        });
       }
     });
 
@@ -99,7 +136,12 @@ export function useWorkflowWebSocket(executionId: string) {
   }, [executionId, fetchInitialState, getWebSocketUrl]);
 
   // Handle resume workflow
-  const handleResumeWorkflow = async (gate: 'concepts' | 'draft', approved: boolean, comments?: string) => {
+  const handleResumeWorkflow = async (
+    gate: 'concepts' | 'outline' | 'draft',
+    decision: ApprovalDecision,
+    comments?: string,
+    edits: ApprovalEdits = {}
+  ) => {
     if (!executionId) return false;
 
     try {
@@ -110,9 +152,11 @@ export function useWorkflowWebSocket(executionId: string) {
         },
         credentials: 'include',
         body: JSON.stringify({
-          action: approved ? 'approve' : 'reject',
+          action: decision,
           gate,
           comments,
+          concepts: edits.concepts,
+          outline: edits.outline,
         }),
       });
 
@@ -135,6 +179,7 @@ export function useWorkflowWebSocket(executionId: string) {
 
   return {
     execution,
+    liveOutput,
     isLoading,
     error,
     resumeWorkflow: handleResumeWorkflow,
@@ -16,14 +16,14 @@ import {
   MessageSquare
 } from "lucide-react";
 import { Alert, AlertDescription } from "../components/ui/alert";
-import { useWorkflowWebSocket } from "../hooks/useWorkflowWebSocket";
+import { useWorkflowWebSocket, ApprovalDecision } from "../hooks/useWorkflowWebSocket";
 
 export default function DraftApproval() {
   const [location, setLocation] = useLocation();
   const { executionId } = useParams<{ executionId: string }>();
   
   // State for approval UI
-  const [approvalDecision, setApprovalDecision] = useState<"approve" | "reject">("approve");
+  const [approvalDecision, setApprovalDecision] = useState<ApprovalDecision>("approve");
   const [comments, setComments] = useState("");
   const [showComments, setShowComments] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -41,13 +41,20 @@ export default function DraftApproval() {
   const handleApprovalSubmit = async () => {
     if (!executionId) return;
     
+    // Requesting changes needs notes for the draft generator to act on
+    if (approvalDecision === 'revise' && !comments.trim()) {
+      setShowComments(true);
+      setSubmitError('Please describe the changes you would like before requesting them.');
+      return;
+    }
+    
     setIsSubmitting(true);
     setSubmitError(null);
     
     const success = await resumeWorkflow(
       'draft',
-      approvalDecision === 'approve',
-      showComments ? comments : undefined
+      approvalDecision,
+      showComments || approvalDecision === 'revise' ? comments : undefined
     );
     
     if (success) {
@@ -117,6 +124,9 @@ export default function DraftApproval() {
     }
 
     const draftData = suspension.data?.draft;
+    const review = suspension.data?.review;
+    const distinctivenessScore: number | undefined = suspension.data?.distinctivenessScore;
+    const similarityDetails = suspension.data?.similarityDetails;
     
     if (!draftData) {
       return (
@@ -190,6 +200,70 @@ export default function DraftApproval() {
               </div>
             </div>
 
+            {/* Originality Check */}
+            {typeof distinctivenessScore === "number" && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">Originality Check</h4>
+                  <span
+                    className={`text-sm font-medium ${
+                      distinctivenessScore >= 0.7 ? "text-green-600" : "text-orange-600"
+                    }`}
+                  >
+                    Distinctiveness: {Math.round(distinctivenessScore * 100)}%
+                  </span>
+                </div>
+                {similarityDetails && (
+                  <p className="text-sm text-gray-600">
+                    Title similarity: {Math.round(similarityDetails.titleSimilarity * 100)}% ·
+                    Content similarity: {Math.round(similarityDetails.contentSimilarity * 100)}% ·
+                    Shared phrases: {Math.round(similarityDetails.shingleOverlap * 100)}%
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Reviewer Critique */}
+            {review && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">Reviewer Critique</h4>
+                  <span
+                    className={`text-sm font-medium ${
+                      review.score >= 80 ? "text-green-600" : "text-orange-600"
+                    }`}
+                  >
+                    Quality Score: {review.score}/100
+                  </span>
+                </div>
+                {review.comments && (
+                  <p className="text-sm text-gray-700">{review.comments}</p>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="bg-green-50 p-3 rounded-lg">
+                    <p className="text-sm font-medium mb-1">Strengths</p>
+                    <ul className="list-disc list-inside space-y-1">
+                      {review.strengths?.map((strength: string, index: number) => (
+                        <li key={index} className="text-sm">
+                          {strength}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="bg-orange-50 p-3 rounded-lg">
+                    <p className="text-sm font-medium mb-1">Suggested Improvements</p>
+                    <ul className="list-disc list-inside space-y-1">
+                      {review.improvements?.map((improvement: string, index: number) => (
+                        <li key={index} className="text-sm">
+                          {improvement}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Approval Decision */}
             <div className="space-y-4">
               <div className="font-medium">Decision:</div>
@@ -222,6 +296,23 @@ export default function DraftApproval() {
                     Reject
                   </label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    id="revise"
+                    name="decision"
+                    value="revise"
+                    checked={approvalDecision === "revise"}
+                    onChange={() => {
+                      setApprovalDecision("revise");
+                      setShowComments(true);
+                    }}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="revise" className="cursor-pointer">
+                    Request changes
+                  </label>
+                </div>
               </div>
             </div>
 
@@ -234,13 +325,15 @@ export default function DraftApproval() {
                   className="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900"
                   onClick={() => setShowComments(!showComments)}
                 >
-                  Add comments
+                  {approvalDecision === "revise" ? "Describe the changes you want" : "Add comments"}
                 </button>
               </div>
               {showComments && (
                 <Textarea
                   id="comments"
-                  placeholder="Enter your comments here..."
+                  placeholder={approvalDecision === "revise"
+                    ? "Describe what should change in the draft..."
+                    : "Enter your comments here..."}
                   value={comments}
                   onChange={e => setComments(e.target.value)}
                   rows={4}
@@ -263,7 +356,7 @@ export default function DraftApproval() {
                 ) : (
                   <>
                     <CheckCircle2 className="h-4 w-4" />
-                    <span>Submit Decision</span>
+                    <span>{approvalDecision === "revise" ? "Request Changes" : "Submit Decision"}</span>
                   </>
                 )}
               </Button>
@@ -3,21 +3,120 @@ import { useLocation } from "wouter";
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
+import { Checkbox } from '../components/ui/checkbox';
+import { Textarea } from '../components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Alert, AlertDescription } from '../components/ui/alert';
-import { Loader2, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Loader2, AlertCircle, CheckCircle2, FileText } from "lucide-react";
+
+/**
+ * A model as listed by GET /api/models
+ */
+interface CatalogModel {
+  id: string;
+  provider: string;
+  name: string;
+  contextLength?: number;
+  pricing?: { prompt: number; completion: number };
+  capabilities: string[];
+  installed: boolean;
+}
+
+/**
+ * How the inspiration is provided; all but `url` are sent as inspirationSources
+ */
+type InputMode = 'url' | 'text' | 'file' | 'feed';
+
+/**
+ * A parsed upload as returned by POST /api/workflow/uploads
+ */
+interface UploadSummary {
+  uploadId: string;
+  fileName: string;
+  fileType: string;
+  title: string;
+  headings: string[];
+  wordCount: number;
+}
+
+/**
+ * An entry as listed by GET /api/workflow/feeds
+ */
+interface FeedEntry {
+  url: string;
+  title?: string;
+  publishedAt?: string;
+  hasContent: boolean;
+}
+
+const UPLOAD_ACCEPT = '.pdf,.docx,.md,.markdown';
+
+/**
+ * File contents as base64, without the data URL prefix
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error || new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+const CAPABILITY_LABELS: Record<string, string> = {
+  'structured-output': 'Structured output',
+  tools: 'Tool calling',
+  vision: 'Vision',
+  reasoning: 'Reasoning',
+};
+
+/**
+ * Option label with the context length, price per million tokens and install state
+ */
+function describeModel(model: CatalogModel): string {
+  const details: string[] = [];
+  if (model.contextLength) {
+    details.push(`${Math.round(model.contextLength / 1000)}k ctx`);
+  }
+  if (model.pricing) {
+    details.push(model.pricing.prompt === 0 && model.pricing.completion === 0
+      ? 'free'
+      : `$${(model.pricing.prompt * 1_000_000).toFixed(2)}/$${(model.pricing.completion * 1_000_000).toFixed(2)} per M`);
+  }
+  if (!model.installed) {
+    details.push('not installed');
+  }
+  return details.length > 0 ? `${model.name} (${details.join(', ')})` : model.name;
+}
 
 export default function NewArticle() {
+  const [inputMode, setInputMode] = useState<InputMode>('url');
   const [url, setUrl] = useState("");
   const [urlError, setUrlError] = useState("");
+  const [inspirationText, setInspirationText] = useState("");
+  const [textTitle, setTextTitle] = useState("");
+  const [upload, setUpload] = useState<UploadSummary | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [feedUrl, setFeedUrl] = useState("");
+  const [feedEntries, setFeedEntries] = useState<FeedEntry[]>([]);
+  const [selectedEntryUrl, setSelectedEntryUrl] = useState("");
+  const [isFeedLoading, setIsFeedLoading] = useState(false);
+  const [sourceError, setSourceError] = useState("");
   const [providers] = useState([
     { id: 'ollama', name: 'Ollama (Local)' },
-    { id: 'openrouter', name: 'OpenRouter' }
+    { id: 'openrouter', name: 'OpenRouter' },
+    { id: 'openai-compatible', name: 'OpenAI-compatible (vLLM, LM Studio, llama.cpp)' }
   ]);
   const [selectedProvider, setSelectedProvider] = useState('ollama');
   const [apiKey, setApiKey] = useState("");
-  const [models, setModels] = useState<string[]>([]);
+  const [models, setModels] = useState<CatalogModel[]>([]);
+  const [modelSearch, setModelSearch] = useState("");
+  const [capabilityFilter, setCapabilityFilter] = useState("");
+  const [installedOnly, setInstalledOnly] = useState(false);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
   const [selectedModel, setSelectedModel] = useState("phi4-mini-reasoning");
+  const [outlineApproval, setOutlineApproval] = useState(false);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isModelsLoading, setIsModelsLoading] = useState(true);
@@ -26,86 +125,49 @@ export default function NewArticle() {
   const [showSuccess, setShowSuccess] = useState(false);
   const [location, setLocation] = useLocation();
 
-  // Fetch available models based on selected provider
+  // Fetch the provider's models from the model catalog, debounced while the search is typed
   useEffect(() => {
     const fetchModels = async () => {
       try {
         setIsModelsLoading(true);
-        
-        if (selectedProvider === 'ollama') {
-          // Fetch models from local Ollama (for hosted models, use the OpenRouter provider)
-          const response = await fetch('/api/workflow/models');
-          
-          if (!response.ok) {
-            throw new Error('Failed to fetch models from local Ollama (try the OpenRouter provider for hosted models)');
-          }
-          
-          const data = await response.json();
-          if (data.success && data.data?.models) {
-            setModels(data.data.models);
-            // Set default model if it exists in the list
-            if (data.data.models.includes('phi4-mini-reasoning')) {
-              setSelectedModel('phi4-mini-reasoning');
-            } else if (data.data.models.length > 0) {
-              setSelectedModel(data.data.models[0]);
-            }
-          }
-        } else if (selectedProvider === 'openrouter') {
-          // For OpenRouter, we'll set a default list and let the backend fetch the actual models
-          // when the user provides an API key
-          setModels([]);
-          setSelectedModel("");
+        setCatalogError(null);
+
+        const params = new URLSearchParams({ provider: selectedProvider });
+        if (modelSearch.trim()) {
+          params.set('search', modelSearch.trim());
         }
-      } catch (error) {
-        console.error('Failed to fetch models:', error);
-        // Fallback to default model list for local Ollama
-        if (selectedProvider === 'ollama') {
-          setModels(['phi4-mini-reasoning', 'gemma3:270m', 'llama2', 'mistral']);
-          setSelectedModel('phi4-mini-reasoning');
-        } else {
-          setModels([]);
-          setSelectedModel("");
+        if (capabilityFilter) {
+          params.set('capability', capabilityFilter);
+        }
+        if (installedOnly) {
+          params.set('installed', 'true');
         }
-      } finally {
-        setIsModelsLoading(false);
-      }
-    };
-
-    fetchModels();
-  }, [selectedProvider]);
-
-  // Fetch OpenRouter models when API key is provided
-  useEffect(() => {
-    const fetchOpenRouterModels = async () => {
-      if (selectedProvider !== 'openrouter' || !apiKey.trim()) {
-        return;
-      }
-
-      try {
-        setIsModelsLoading(true);
-        const response = await fetch('/api/workflow/openrouter-models', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ apiKey: apiKey.trim() }),
-        });
 
+        const response = await fetch(`/api/models?${params.toString()}`);
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error?.message || 'Failed to fetch OpenRouter models');
+          throw new Error(errorData.error?.message || 'Failed to fetch models');
         }
 
         const data = await response.json();
-        if (data.success && data.data?.models) {
-          setModels(data.data.models);
-          if (data.data.models.length > 0) {
-            setSelectedModel(data.data.models[0]);
-          }
+        const catalogModels: CatalogModel[] = data.data?.models || [];
+        const status = data.data?.providers?.[0];
+        if (status && !status.configured) {
+          setCatalogError('This provider is not configured on the server');
+        } else if (status?.error) {
+          setCatalogError(`Could not load models: ${status.error}`);
         }
+
+        setModels(catalogModels);
+        // Keep the current selection when it is still listed, otherwise prefer the default model
+        setSelectedModel(current =>
+          catalogModels.some(m => m.id === current)
+            ? current
+            : catalogModels.find(m => m.id === 'phi4-mini-reasoning')?.id || catalogModels[0]?.id || ""
+        );
       } catch (error) {
-        console.error('Failed to fetch OpenRouter models:', error);
-        setSubmitError(error instanceof Error ? error : new Error('Failed to fetch OpenRouter models'));
+        console.error('Failed to fetch models:', error);
+        setCatalogError(error instanceof Error ? error.message : 'Failed to fetch models');
         setModels([]);
         setSelectedModel("");
       } finally {
@@ -113,11 +175,74 @@ export default function NewArticle() {
       }
     };
 
-    const timeoutId = setTimeout(fetchOpenRouterModels, 500); // Debounce API calls
+    const timeoutId = setTimeout(fetchModels, 300); // Debounce API calls
     return () => clearTimeout(timeoutId);
-  }, [selectedProvider, apiKey]);
+  }, [selectedProvider, modelSearch, capabilityFilter, installedOnly]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setIsUploading(true);
+    setSourceError("");
+    setUpload(null);
+
+    try {
+      const response = await fetch('/api/workflow/uploads', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          fileName: file.name,
+          contentType: file.type || undefined,
+          data: await readFileAsBase64(file),
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to upload file');
+      }
+      setUpload(data.data);
+    } catch (error) {
+      console.error('Failed to upload file:', error);
+      setSourceError(error instanceof Error ? error.message : 'Failed to upload file');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const loadFeed = async () => {
+    setIsFeedLoading(true);
+    setSourceError("");
+    setFeedEntries([]);
+    setSelectedEntryUrl("");
+
+    try {
+      const response = await fetch(`/api/workflow/feeds?${new URLSearchParams({ url: feedUrl.trim() }).toString()}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to load feed');
+      }
+
+      const entries: FeedEntry[] = data.data?.entries || [];
+      setFeedEntries(entries);
+      setSelectedEntryUrl(entries[0]?.url || "");
+      if (entries.length === 0) {
+        setSourceError('The feed has no entries');
+      }
+    } catch (error) {
+      console.error('Failed to load feed:', error);
+      setSourceError(error instanceof Error ? error.message : 'Failed to load feed');
+    } finally {
+      setIsFeedLoading(false);
+    }
+  };
 
-  const executeWorkflow = async (url: string) => {
+  const executeWorkflow = async (inspiration: Record<string, unknown>) => {
     setIsSubmitting(true);
     setSubmitError(null);
     
@@ -128,11 +253,12 @@ export default function NewArticle() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          inspirationUrl: url,
+          ...inspiration,
           editorId: 'web-interface',
           model: selectedModel,
           provider: selectedProvider,
           apiKey: selectedProvider === 'openrouter' ? apiKey : undefined,
+          outlineApproval,
         }),
       });
 
@@ -184,10 +310,41 @@ export default function NewArticle() {
     }
   };
 
+  /**
+   * Request fields for the selected input mode, or undefined (with an error shown) when incomplete
+   */
+  const buildInspiration = (): Record<string, unknown> | undefined => {
+    switch (inputMode) {
+      case 'url':
+        return validateUrl(url) ? { inspirationUrl: url } : undefined;
+      case 'text':
+        if (!inspirationText.trim()) {
+          setSourceError('Paste the text to use as inspiration');
+          return undefined;
+        }
+        return {
+          inspirationSources: [{ type: 'text', text: inspirationText, title: textTitle.trim() || undefined }],
+        };
+      case 'file':
+        if (!upload) {
+          setSourceError('Upload a PDF, DOCX or Markdown file');
+          return undefined;
+        }
+        return { inspirationSources: [{ type: 'file', uploadId: upload.uploadId }] };
+      case 'feed':
+        if (!selectedEntryUrl) {
+          setSourceError('Load the feed and pick an entry');
+          return undefined;
+        }
+        return { inspirationSources: [{ type: 'feed', feedUrl: feedUrl.trim(), entryUrl: selectedEntryUrl }] };
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!validateUrl(url)) {
+    const inspiration = buildInspiration();
+    if (!inspiration) {
       return;
     }
 
@@ -197,7 +354,7 @@ export default function NewArticle() {
       return;
     }
 
-    executeWorkflow(url);
+    executeWorkflow(inspiration);
   };
 
   const handleUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -216,29 +373,142 @@ export default function NewArticle() {
         <CardHeader>
           <CardTitle className="text-2xl">Create New Article</CardTitle>
           <CardDescription>
-            Enter an inspiration URL to start the content generation pipeline
+            Enter an inspiration URL, paste text, upload a document or pick a feed entry to start the content generation pipeline
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="url">Inspiration URL</Label>
-              <Input
-                id="url"
-                type="text"
-                placeholder="https://example.com/article"
-                value={url}
-                onChange={handleUrlChange}
-                disabled={isSubmitting}
-                className={urlError ? "border-red-500" : ""}
-              />
-              {urlError && (
+            <Tabs
+              value={inputMode}
+              onValueChange={(value) => {
+                setInputMode(value as InputMode);
+                setSourceError("");
+              }}
+            >
+              <TabsList>
+                <TabsTrigger value="url" disabled={isSubmitting}>URL</TabsTrigger>
+                <TabsTrigger value="text" disabled={isSubmitting}>Text</TabsTrigger>
+                <TabsTrigger value="file" disabled={isSubmitting}>File</TabsTrigger>
+                <TabsTrigger value="feed" disabled={isSubmitting}>Feed</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="url">
+                <div className="space-y-2">
+                  <Label htmlFor="url">Inspiration URL</Label>
+                  <Input
+                    id="url"
+                    type="text"
+                    placeholder="https://example.com/article"
+                    value={url}
+                    onChange={handleUrlChange}
+                    disabled={isSubmitting}
+                    className={urlError ? "border-red-500" : ""}
+                  />
+                  {urlError && (
+                    <p className="text-sm text-red-500 flex items-center gap-1">
+                      <AlertCircle className="h-4 w-4" />
+                      {urlError}
+                    </p>
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="text" className="space-y-2">
+                <Label htmlFor="textTitle">Title (optional)</Label>
+                <Input
+                  id="textTitle"
+                  type="text"
+                  placeholder="Defaults to the first short line"
+                  value={textTitle}
+                  onChange={(e) => setTextTitle(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <Label htmlFor="inspirationText">Inspiration text</Label>
+                <Textarea
+                  id="inspirationText"
+                  placeholder="Paste a brief, notes or an article. Separate paragraphs with blank lines; short lines become headings."
+                  value={inspirationText}
+                  onChange={(e) => {
+                    setInspirationText(e.target.value);
+                    setSourceError("");
+                  }}
+                  disabled={isSubmitting}
+                  className="min-h-40"
+                />
+              </TabsContent>
+
+              <TabsContent value="file" className="space-y-2">
+                <Label htmlFor="inspirationUpload">PDF, DOCX or Markdown file</Label>
+                <Input
+                  id="inspirationUpload"
+                  type="file"
+                  accept={UPLOAD_ACCEPT}
+                  onChange={handleFileChange}
+                  disabled={isSubmitting || isUploading}
+                />
+                {isUploading && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Reading file...</span>
+                  </div>
+                )}
+                {upload && (
+                  <div className="text-sm text-gray-600 p-2 border border-gray-300 rounded-md">
+                    <p className="flex items-center gap-1 font-medium">
+                      <FileText className="h-4 w-4" />
+                      {upload.title}
+                    </p>
+                    <p className="text-xs mt-1">
+                      {upload.fileName} · {upload.wordCount} words · {upload.headings.length} headings
+                    </p>
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="feed" className="space-y-2">
+                <Label htmlFor="feedUrl">RSS, Atom, JSON Feed or sitemap URL</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="feedUrl"
+                    type="text"
+                    placeholder="https://example.com/feed.xml"
+                    value={feedUrl}
+                    onChange={(e) => setFeedUrl(e.target.value)}
+                    disabled={isSubmitting || isFeedLoading}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={loadFeed}
+                    disabled={isSubmitting || isFeedLoading || !feedUrl.trim()}
+                  >
+                    {isFeedLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load"}
+                  </Button>
+                </div>
+                {feedEntries.length > 0 && (
+                  <select
+                    id="feedEntry"
+                    value={selectedEntryUrl}
+                    onChange={(e) => setSelectedEntryUrl(e.target.value)}
+                    disabled={isSubmitting}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {feedEntries.map((entry) => (
+                      <option key={entry.url} value={entry.url}>
+                        {entry.title || entry.url}{entry.publishedAt ? ` (${entry.publishedAt})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </TabsContent>
+
+              {sourceError && (
                 <p className="text-sm text-red-500 flex items-center gap-1">
                   <AlertCircle className="h-4 w-4" />
-                  {urlError}
+                  {sourceError}
                 </p>
               )}
-            </div>
+            </Tabs>
 
             <div className="space-y-2">
               <Label htmlFor="provider">Provider</Label>
@@ -276,36 +546,87 @@ export default function NewArticle() {
 
             <div className="space-y-2">
               <Label htmlFor="model">LLM Model</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="modelSearch"
+                  type="text"
+                  placeholder="Search models"
+                  value={modelSearch}
+                  onChange={(e) => setModelSearch(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <select
+                  id="capability"
+                  value={capabilityFilter}
+                  onChange={(e) => setCapabilityFilter(e.target.value)}
+                  disabled={isSubmitting}
+                  className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Any capability</option>
+                  {Object.entries(CAPABILITY_LABELS).map(([capability, label]) => (
+                    <option key={capability} value={capability}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {selectedProvider === 'ollama' && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="installedOnly"
+                    checked={installedOnly}
+                    onCheckedChange={(checked) => setInstalledOnly(checked === true)}
+                    disabled={isSubmitting}
+                  />
+                  <Label htmlFor="installedOnly" className="text-sm font-normal">Installed models only</Label>
+                </div>
+              )}
               {isModelsLoading ? (
                 <div className="flex items-center gap-2">
                   <Loader2 className="h-4 w-4 animate-spin" />
                   <span>Loading models...</span>
                 </div>
-              ) : models.length === 0 && selectedProvider === 'openrouter' && !apiKey.trim() ? (
-                <div className="text-gray-500 p-2 border border-gray-300 rounded-md">
-                  Enter your OpenRouter API key to see available models
-                </div>
               ) : models.length === 0 ? (
                 <div className="text-gray-500 p-2 border border-gray-300 rounded-md">
-                  No models available
+                  {catalogError || 'No models match the filters'}
                 </div>
               ) : (
-                <select
-                  id="model"
-                  value={selectedModel}
-                  onChange={(e) => setSelectedModel(e.target.value)}
-                  disabled={isSubmitting || (selectedProvider === 'openrouter' && !apiKey.trim())}
-                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                >
-                  {models.map((model) => (
-                    <option key={model} value={model}>
-                      {model}
-                    </option>
-                  ))}
-                </select>
+                <>
+                  <select
+                    id="model"
+                    value={selectedModel}
+                    onChange={(e) => setSelectedModel(e.target.value)}
+                    disabled={isSubmitting}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {models.map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {describeModel(model)}
+                      </option>
+                    ))}
+                  </select>
+                  {catalogError && (
+                    <p className="text-sm text-amber-600">{catalogError}</p>
+                  )}
+                </>
               )}
             </div>
 
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="outlineApproval"
+                checked={outlineApproval}
+                onCheckedChange={(checked) => setOutlineApproval(checked === true)}
+                disabled={isSubmitting}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="outlineApproval">Review outline before drafting</Label>
+                <p className="text-sm text-gray-500">
+                  Pause after the outline is generated so you can edit it before the draft is written.
+                </p>
+              </div>
+            </div>
+
             {submitError && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
@@ -328,7 +649,13 @@ export default function NewArticle() {
             <Button
               type="submit"
               className="w-full"
-              disabled={isSubmitting || isModelsLoading || (selectedProvider === 'openrouter' && (!apiKey.trim() || !selectedModel))}
+              disabled={
+                isSubmitting ||
+                isUploading ||
+                isModelsLoading ||
+                !selectedModel ||
+                (selectedProvider === 'openrouter' && !apiKey.trim())
+              }
             >
               {isSubmitting ? (
                 <>
@@ -0,0 +1,527 @@
+import { useState, useEffect } from "react";
+import { useLocation, useParams } from "wouter";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent
+} from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
+import {
+  Loader2,
+  CheckCircle2,
+  X,
+  MessageSquare,
+  ArrowUp,
+  ArrowDown,
+  Plus,
+  Trash2,
+  XCircle
+} from "lucide-react";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import { useWorkflowWebSocket, ApprovalDecision, EditableOutline } from "../hooks/useWorkflowWebSocket";
+
+/**
+ * Move an item one position up or down, returning a new array
+ */
+function moveItem<T>(items: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+interface PointListEditorProps {
+  points: string[];
+  onChange: (points: string[]) => void;
+  addLabel: string;
+  disabled?: boolean;
+}
+
+/**
+ * Editable list of outline points with rename, reorder, add and delete
+ */
+function PointListEditor({ points, onChange, addLabel, disabled }: PointListEditorProps) {
+  return (
+    <div className="space-y-2">
+      {points.map((point, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <Input
+            value={point}
+            onChange={(e) => onChange(points.map((p, i) => (i === index ? e.target.value : p)))}
+            className="flex-1 text-sm"
+            disabled={disabled}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(moveItem(points, index, -1))}
+            disabled={disabled || index === 0}
+            aria-label="Move point up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(moveItem(points, index, 1))}
+            disabled={disabled || index === points.length - 1}
+            aria-label="Move point down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(points.filter((_, i) => i !== index))}
+            className="text-red-500 hover:text-red-700"
+            disabled={disabled}
+            aria-label="Remove point"
+          >
+            <XCircle className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...points, ''])}
+        className="text-sm"
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        {addLabel}
+      </Button>
+    </div>
+  );
+}
+
+export default function OutlineApproval() {
+  const [, setLocation] = useLocation();
+  const { executionId } = useParams<{ executionId: string }>();
+
+  // State for approval UI
+  const [approvalDecision, setApprovalDecision] = useState<ApprovalDecision>("approve");
+  const [comments, setComments] = useState("");
+  const [showComments, setShowComments] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // State for the editable outline
+  const [outline, setOutline] = useState<EditableOutline | null>(null);
+
+  // Use WebSocket hook for real-time updates
+  const {
+    execution,
+    isLoading,
+    error,
+    resumeWorkflow,
+  } = useWorkflowWebSocket(executionId || '');
+
+  // Reset the editable outline whenever a new outline arrives at the gate
+  const suspendedOutline: EditableOutline | undefined = execution?.suspension?.data?.outline;
+  useEffect(() => {
+    if (suspendedOutline) {
+      setOutline(JSON.parse(JSON.stringify(suspendedOutline)));
+    }
+  }, [JSON.stringify(suspendedOutline)]);
+
+  // Section editing
+  const updateSection = (index: number, changes: Partial<EditableOutline['sections'][number]>) => {
+    if (!outline) return;
+    setOutline({
+      ...outline,
+      sections: outline.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)),
+    });
+  };
+
+  const addSection = () => {
+    if (!outline) return;
+    setOutline({ ...outline, sections: [...outline.sections, { heading: '', keyPoints: [''] }] });
+  };
+
+  const removeSection = (index: number) => {
+    if (!outline) return;
+    setOutline({ ...outline, sections: outline.sections.filter((_, i) => i !== index) });
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    if (!outline) return;
+    setOutline({ ...outline, sections: moveItem(outline.sections, index, direction) });
+  };
+
+  // Handle approval submission with loading state
+  const handleApprovalSubmit = async () => {
+    if (!executionId || !outline) return;
+
+    // Requesting changes needs comments for the outline generator to act on
+    if (approvalDecision === 'revise' && !comments.trim()) {
+      setShowComments(true);
+      setSubmitError('Please describe the changes you would like before requesting them.');
+      return;
+    }
+
+    const outlineEdited = JSON.stringify(outline) !== JSON.stringify(suspendedOutline);
+    if (outlineEdited && approvalDecision !== 'reject') {
+      const hasSections = outline.sections.some(section => section.heading.trim() && section.keyPoints.some(point => point.trim()));
+      if (!outline.title.trim() || !hasSections) {
+        setSubmitError('The outline needs a title and at least one section with a heading and a key point.');
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    const success = await resumeWorkflow(
+      'outline',
+      approvalDecision,
+      showComments || approvalDecision === 'revise' ? comments : undefined,
+      { outline: outlineEdited && approvalDecision !== 'reject' ? outline : undefined }
+    );
+
+    if (success) {
+      // Reset form state on success
+      setApprovalDecision('approve');
+      setComments('');
+      setShowComments(false);
+
+      // Redirect back to workflow status page to show the result
+      setLocation(`/workflow/${executionId}`);
+    }
+
+    setIsSubmitting(false);
+  };
+
+  // Handle back to workflow status
+  const handleBackToWorkflow = () => {
+    if (executionId) {
+      setLocation(`/workflow/${executionId}`);
+    } else {
+      setLocation("/new-article");
+    }
+  };
+
+  // Determine current status and render appropriate UI
+  const renderStatusContent = () => {
+    if (isLoading) {
+      return (
+        <div className="text-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading outline for approval...</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>
+            Failed to load outline for approval: {error}
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (!execution) {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>
+            Workflow execution not found
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    const { status, suspension } = execution;
+
+    // Check if we're at the right suspension point
+    if (status !== "suspended" || !suspension || suspension.stepId !== "gate-outline-approval") {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>
+            Workflow is not suspended at outline approval gate
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (!outline) {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>
+            No outline data found for approval
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Status Header */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Outline Approval</CardTitle>
+            <CardDescription>Execution ID: {executionId}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">Current Status:</p>
+                <div className="flex items-center gap-2 text-orange-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Suspended - Awaiting Outline Approval</span>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-gray-600">Source URL:</p>
+                <p className="text-sm">
+                  {execution.input?.inspirationUrl || "Unknown URL"}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Outline Editor */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Generated Outline</CardTitle>
+            <CardDescription>
+              Reorder, add, delete or rename sections and key points, then approve to generate the draft.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="outline-title">Title</Label>
+              <Input
+                id="outline-title"
+                value={outline.title}
+                onChange={(e) => setOutline({ ...outline, title: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-semibold">Introduction</h4>
+              <PointListEditor
+                points={outline.introduction}
+                onChange={(introduction) => setOutline({ ...outline, introduction })}
+                addLabel="Add Point"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <h4 className="font-semibold">Sections</h4>
+              {outline.sections.map((section, index) => (
+                <div key={index} className="bg-gray-50 p-4 rounded-lg space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-500">{index + 1}.</span>
+                    <Input
+                      value={section.heading}
+                      onChange={(e) => updateSection(index, { heading: e.target.value })}
+                      placeholder="Section heading"
+                      className="flex-1 font-medium"
+                      disabled={isSubmitting}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={isSubmitting || index === 0}
+                      aria-label="Move section up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={isSubmitting || index === outline.sections.length - 1}
+                      aria-label="Move section down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSection(index)}
+                      className="text-red-500 hover:text-red-700"
+                      disabled={isSubmitting}
+                      aria-label="Delete section"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="pl-6">
+                    <PointListEditor
+                      points={section.keyPoints}
+                      onChange={(keyPoints) => updateSection(index, { keyPoints })}
+                      addLabel="Add Key Point"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addSection}
+                className="text-sm"
+                disabled={isSubmitting}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Section
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-semibold">Conclusion</h4>
+              <PointListEditor
+                points={outline.conclusion}
+                onChange={(conclusion) => setOutline({ ...outline, conclusion })}
+                addLabel="Add Point"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {/* Approval Decision */}
+            <div className="space-y-4">
+              <div className="font-medium">Decision:</div>
+              <div className="flex space-x-8">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    id="approve"
+                    name="decision"
+                    value="approve"
+                    checked={approvalDecision === "approve"}
+                    onChange={() => setApprovalDecision("approve")}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="approve" className="cursor-pointer">
+                    Approve
+                  </label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    id="reject"
+                    name="decision"
+                    value="reject"
+                    checked={approvalDecision === "reject"}
+                    onChange={() => setApprovalDecision("reject")}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="reject" className="cursor-pointer">
+                    Reject
+                  </label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    id="revise"
+                    name="decision"
+                    value="revise"
+                    checked={approvalDecision === "revise"}
+                    onChange={() => {
+                      setApprovalDecision("revise");
+                      setShowComments(true);
+                    }}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="revise" className="cursor-pointer">
+                    Request changes
+                  </label>
+                </div>
+              </div>
+            </div>
+
+            {/* Comments Section */}
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <MessageSquare className="h-4 w-4" />
+                <button
+                  type="button"
+                  className="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900"
+                  onClick={() => setShowComments(!showComments)}
+                >
+                  {approvalDecision === "revise" ? "Describe the changes you want" : "Add comments"}
+                </button>
+              </div>
+              {showComments && (
+                <Textarea
+                  id="comments"
+                  placeholder={approvalDecision === "revise"
+                    ? "Describe what should change in the outline..."
+                    : "Enter your comments here..."}
+                  value={comments}
+                  onChange={e => setComments(e.target.value)}
+                  rows={4}
+                />
+              )}
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex space-x-4">
+              <Button
+                onClick={handleApprovalSubmit}
+                disabled={isSubmitting}
+                className="flex items-center space-x-2"
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Processing...</span>
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle2 className="h-4 w-4" />
+                    <span>{approvalDecision === "revise" ? "Request Changes" : "Submit Decision"}</span>
+                  </>
+                )}
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={handleBackToWorkflow}
+                disabled={isSubmitting}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            </div>
+
+            {/* Show any submission errors */}
+            {submitError && (
+              <Alert variant="destructive">
+                <AlertDescription>{submitError}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {renderStatusContent()}
+      </div>
+    </div>
+  );
+}
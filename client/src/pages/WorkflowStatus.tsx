@@ -24,7 +24,7 @@ import {
   MessageSquare
 } from "lucide-react";
 import { Alert, AlertDescription } from "../components/ui/alert";
-import { useWorkflowWebSocket } from "../hooks/useWorkflowWebSocket";
+import { useWorkflowWebSocket, ApprovalDecision } from "../hooks/useWorkflowWebSocket";
 import { RadioGroup, RadioGroupItem } from "../components/ui/radio-group";
 
 export default function WorkflowStatus() {
@@ -34,7 +34,7 @@ export default function WorkflowStatus() {
   const { executionId } = useParams<{ executionId: string }>();
   
   // State for approval UI
-  const [approvalDecision, setApprovalDecision] = useState<"approve" | "reject">("approve");
+  const [approvalDecision, setApprovalDecision] = useState<ApprovalDecision>("approve");
   const [comments, setComments] = useState("");
   const [showComments, setShowComments] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -47,6 +47,7 @@ export default function WorkflowStatus() {
   // Use WebSocket hook for real-time updates
   const {
     execution,
+    liveOutput,
     isLoading,
     error,
     resumeWorkflow,
@@ -64,6 +65,17 @@ export default function WorkflowStatus() {
     }
   }, [execution?.suspension?.data?.concepts]);
   
+  // Redirect to OutlineApproval page when at outline approval gate
+  useEffect(() => {
+    if (execution?.status === "suspended" && 
+        execution?.suspension?.stepId === "gate-outline-approval" && 
+        execution?.suspension?.data?.outline) {
+      if (!location.startsWith(`/outline-approval/${executionId}`)) {
+        setLocation(`/outline-approval/${executionId}`);
+      }
+    }
+  }, [execution, executionId, setLocation, location]);
+  
   // Redirect to DraftApproval page when at draft approval gate
   useEffect(() => {
     if (execution?.status === "suspended" && 
@@ -96,13 +108,32 @@ export default function WorkflowStatus() {
   const handleApprovalSubmit = async (gate: 'concepts' | 'draft') => {
     if (!executionId) return;
     
+    // Requesting changes needs comments for the agent to act on
+    if (approvalDecision === 'revise' && !comments.trim()) {
+      setShowComments(true);
+      setSubmitError('Please describe the changes you would like before requesting them.');
+      return;
+    }
+    
+    // Only send the concept list when the editor actually changed it
+    const originalConcepts: string[] = execution?.suspension?.data?.concepts || [];
+    const conceptsEdited = gate === 'concepts' &&
+      (editableConcepts.length !== originalConcepts.length ||
+        editableConcepts.some((concept, index) => concept !== originalConcepts[index]));
+    
+    if (conceptsEdited && approvalDecision !== 'reject' && !editableConcepts.some(concept => concept.trim())) {
+      setSubmitError('Please keep at least one concept.');
+      return;
+    }
+    
     setIsSubmitting(true);
     setSubmitError(null);
     
     const success = await resumeWorkflow(
       gate,
-      approvalDecision === 'approve',
-      showComments ? comments : undefined
+      approvalDecision,
+      showComments || approvalDecision === 'revise' ? comments : undefined,
+      { concepts: conceptsEdited && approvalDecision !== 'reject' ? editableConcepts : undefined }
     );
     
     if (success) {
@@ -110,6 +141,7 @@ export default function WorkflowStatus() {
       setApprovalDecision('approve');
       setComments('');
       setShowComments(false);
+      setIsEditingConcepts(false);
     }
     
     setIsSubmitting(false);
@@ -172,7 +204,7 @@ export default function WorkflowStatus() {
       );
     }
 
-    const { status, suspension } = execution;
+    const { status, suspension, metrics } = execution;
 
     // Status display
     const renderStatus = () => {
@@ -217,6 +249,50 @@ export default function WorkflowStatus() {
       }
     };
 
+    // Token usage and cost accumulated across all LLM calls so far
+    const renderUsage = () => {
+      const tokenUsage: Record<string, number> = metrics?.tokenUsage || {};
+      const promptTokens = metrics?.promptTokens || 0;
+      const completionTokens = metrics?.completionTokens || 0;
+      if (promptTokens + completionTokens === 0 && !metrics?.totalCost) {
+        return null;
+      }
+
+      const agentLabels: Record<string, string> = {
+        summarizer: "Summarizer",
+        outline: "Outline",
+        draft: "Draft",
+        reviewer: "Reviewer",
+      };
+
+      return (
+        <div className="mt-4 pt-4 border-t grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-gray-600">Total Cost:</p>
+            <p className="font-medium">${(metrics?.totalCost || 0).toFixed(4)}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-gray-600">Tokens:</p>
+            <p className="font-medium">
+              {(promptTokens + completionTokens).toLocaleString()}
+              <span className="text-gray-500 font-normal">
+                {" "}({promptTokens.toLocaleString()} prompt / {completionTokens.toLocaleString()} completion)
+              </span>
+            </p>
+          </div>
+          <div className="col-span-2 flex flex-wrap gap-x-6 gap-y-1 text-gray-600">
+            {Object.entries(agentLabels)
+              .filter(([slot]) => tokenUsage[slot])
+              .map(([slot, label]) => (
+                <span key={slot}>
+                  {label}: <span className="text-gray-900">{tokenUsage[slot].toLocaleString()}</span>
+                </span>
+              ))}
+          </div>
+        </div>
+      );
+    };
+
     return (
       <div className="space-y-6">
         {/* Status Header */}
@@ -238,9 +314,30 @@ export default function WorkflowStatus() {
                 </p>
               </div>
             </div>
+            {renderUsage()}
           </CardContent>
         </Card>
 
+        {/* Live Output - also while pending, since pipelines without a concept gate stream before their first gate */}
+        {(status === "running" || liveOutput?.streaming) && liveOutput && liveOutput.text && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                {liveOutput.streaming && <Loader2 className="h-4 w-4 animate-spin" />}
+                {liveOutput.slot === "outline" ? "Generating Outline" : "Generating Draft"}
+              </CardTitle>
+              <CardDescription>
+                Live output from the model. The result is validated before it is shown for review.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <pre className="bg-gray-50 p-4 rounded-lg max-h-96 overflow-y-auto whitespace-pre-wrap text-xs">
+                {liveOutput.text}
+              </pre>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Suspended State - Approval UI */}
         {status === "suspended" && suspension && (
           <Card>
@@ -315,9 +412,9 @@ export default function WorkflowStatus() {
                             + Add Concept
                           </Button>
                         </div>
-                      ) : Array.isArray(suspension.data.concepts) && suspension.data.concepts.length > 0 ? (
+                      ) : editableConcepts.length > 0 ? (
                         <ul className="list-disc list-inside space-y-1">
-                          {suspension.data.concepts.map(
+                          {editableConcepts.map(
                             (concept: string, index: number) => (
                               <li key={index} className="text-sm">
                                 {concept}
@@ -381,6 +478,23 @@ export default function WorkflowStatus() {
                       Reject
                     </label>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="radio"
+                      id="revise"
+                      name="decision"
+                      value="revise"
+                      checked={approvalDecision === "revise"}
+                      onChange={() => {
+                        setApprovalDecision("revise");
+                        setShowComments(true);
+                      }}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+                    />
+                    <label htmlFor="revise" className="cursor-pointer">
+                      Request changes
+                    </label>
+                  </div>
                 </div>
               </div>
 
@@ -393,13 +507,15 @@ export default function WorkflowStatus() {
                     className="cursor-pointer text-sm font-medium text-gray-700 hover:text-gray-900"
                     onClick={() => setShowComments(!showComments)}
                   >
-                    Add comments
+                    {approvalDecision === "revise" ? "Describe the changes you want" : "Add comments"}
                   </button>
                 </div>
                 {showComments && (
                   <Textarea
                     id="comments"
-                    placeholder="Enter your comments here..."
+                    placeholder={approvalDecision === "revise"
+                      ? "Describe what should change..."
+                      : "Enter your comments here..."}
                     value={comments}
                     onChange={e => setComments(e.target.value)}
                     rows={4}
@@ -425,7 +541,7 @@ export default function WorkflowStatus() {
                   ) : (
                     <>
                       <CheckCircle2 className="h-4 w-4" />
-                      <span>Submit Approval</span>
+                      <span>{approvalDecision === "revise" ? "Request Changes" : "Submit Approval"}</span>
                     </>
                   )}
                 </Button>
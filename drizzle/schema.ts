@@ -1,4 +1,5 @@
 import { index, int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { sqliteTable, text as sqliteText, integer as sqliteInteger, index as sqliteIndex, uniqueIndex as sqliteUniqueIndex, primaryKey as sqlitePrimaryKey } from "drizzle-orm/sqlite-core";
 
 /**
  * Core user table backing auth flow.
@@ -97,4 +98,213 @@ export const pipelineExecutions = mysqlTable(
 );
 
 export type PipelineExecution = typeof pipelineExecutions.$inferSelect;
-export type InsertPipelineExecution = typeof pipelineExecutions.$inferInsert;
\ No newline at end of file
+export type InsertPipelineExecution = typeof pipelineExecutions.$inferInsert;
+
+/**
+ * SQLite mirror of the pipeline executions table.
+ * Used by the local better-sqlite3 database so suspended workflows survive a server restart.
+ * JSON columns hold the same payloads as the MySQL table; timestamps are ISO strings.
+ */
+export const sqlitePipelineExecutions = sqliteTable(
+  "pipelineExecutions",
+  {
+    /**
+     * Unique execution identifier (nanoid). Primary key for lookups.
+     */
+    executionId: sqliteText("executionId").primaryKey(),
+
+    /**
+     * Current workflow status (see `pipelineExecutions.status`, plus `pending`).
+     */
+    status: sqliteText("status", {
+      enum: ["pending", "running", "suspended", "completed", "rejected", "failed"],
+    })
+      .notNull()
+      .default("pending"),
+
+    /**
+     * Input data for the pipeline (JSON).
+     * Shape: PipelineInput in server/pipelineState.ts (inspiration sources, model selection, pipeline, ...).
+     * API keys are never stored here; credentialRef points into the credentials table.
+     */
+    input: sqliteText("input").notNull(),
+
+    /**
+     * Workflow execution context (JSON).
+     */
+    context: sqliteText("context"),
+
+    /**
+     * Suspension metadata (JSON) when workflow is paused at human gates.
+     */
+    suspension: sqliteText("suspension"),
+
+    /**
+     * Metrics and audit information (JSON).
+     */
+    metrics: sqliteText("metrics"),
+
+    createdAt: sqliteText("createdAt").notNull(),
+    updatedAt: sqliteText("updatedAt").notNull(),
+  },
+  (table) => ({
+    statusIdx: sqliteIndex("pipelineExecutions_status_idx").on(table.status),
+  })
+);
+
+export type SqlitePipelineExecution = typeof sqlitePipelineExecutions.$inferSelect;
+export type InsertSqlitePipelineExecution = typeof sqlitePipelineExecutions.$inferInsert;
+
+/**
+ * Provider API keys stored per user, encrypted at rest (see server/credentialVault.ts).
+ * Executions reference a row by credentialId instead of carrying the key.
+ */
+export const sqliteCredentials = sqliteTable(
+  "credentials",
+  {
+    /**
+     * Credential reference (nanoid) stored on executions as `credentialRef`.
+     */
+    credentialId: sqliteText("credentialId").primaryKey(),
+
+    /**
+     * Owner: the signed-in user's openId, or `anonymous:<id>` for a key sent with a single anonymous start.
+     */
+    editorId: sqliteText("editorId").notNull(),
+
+    /**
+     * LLM provider the key belongs to (e.g. `openrouter`).
+     */
+    provider: sqliteText("provider").notNull(),
+
+    /**
+     * AES-256-GCM payload: `v1:<iv>:<authTag>:<ciphertext>`, base64 parts.
+     */
+    encryptedKey: sqliteText("encryptedKey").notNull(),
+
+    /**
+     * Last four characters of the key, shown in masked form to the editor.
+     */
+    keyHint: sqliteText("keyHint").notNull(),
+
+    createdAt: sqliteText("createdAt").notNull(),
+    updatedAt: sqliteText("updatedAt").notNull(),
+  },
+  (table) => ({
+    editorProviderIdx: sqliteUniqueIndex("credentials_editor_provider_idx").on(table.editorId, table.provider),
+  })
+);
+
+export type SqliteCredential = typeof sqliteCredentials.$inferSelect;
+export type InsertSqliteCredential = typeof sqliteCredentials.$inferInsert;
+
+/**
+ * Cached LLM responses (see server/llmResponseCache.ts), keyed by a hash of the request.
+ * Entries expire after LLM_CACHE_TTL_MS; the least recently used are evicted past LLM_CACHE_MAX_ENTRIES.
+ */
+export const sqliteLlmResponseCache = sqliteTable(
+  "llmResponseCache",
+  {
+    /**
+     * SHA-256 of provider, model, temperature, response format and messages.
+     */
+    cacheKey: sqliteText("cacheKey").primaryKey(),
+
+    provider: sqliteText("provider").notNull(),
+    model: sqliteText("model").notNull(),
+
+    /**
+     * Response text as returned by the provider.
+     */
+    content: sqliteText("content").notNull(),
+
+    /**
+     * Token usage of the original call (JSON), kept for reference; hits are not billed.
+     */
+    usage: sqliteText("usage"),
+
+    hits: sqliteInteger("hits").notNull().default(0),
+
+    createdAt: sqliteText("createdAt").notNull(),
+    lastUsedAt: sqliteText("lastUsedAt").notNull(),
+  },
+  (table) => ({
+    modelIdx: sqliteIndex("llmResponseCache_model_idx").on(table.provider, table.model),
+    lastUsedIdx: sqliteIndex("llmResponseCache_lastUsed_idx").on(table.lastUsedAt),
+  })
+);
+
+export type SqliteLlmResponseCacheEntry = typeof sqliteLlmResponseCache.$inferSelect;
+export type InsertSqliteLlmResponseCacheEntry = typeof sqliteLlmResponseCache.$inferInsert;
+
+/**
+ * Versioned prompt templates (see server/promptTemplateStore.ts).
+ * Every edit adds a version; exactly one version per template is active and used by the agents.
+ */
+export const sqlitePromptTemplates = sqliteTable(
+  "promptTemplates",
+  {
+    /**
+     * Template the agents look up (e.g. `outline-generation`).
+     */
+    templateId: sqliteText("templateId").notNull(),
+
+    version: sqliteInteger("version").notNull(),
+
+    description: sqliteText("description").notNull(),
+
+    /**
+     * System and user message templates with `{{variable}}` placeholders.
+     */
+    system: sqliteText("system").notNull(),
+    user: sqliteText("user").notNull(),
+
+    active: sqliteInteger("active", { mode: "boolean" }).notNull().default(false),
+
+    createdAt: sqliteText("createdAt").notNull(),
+  },
+  (table) => ({
+    pk: sqlitePrimaryKey({ columns: [table.templateId, table.version] }),
+  })
+);
+
+export type SqlitePromptTemplate = typeof sqlitePromptTemplates.$inferSelect;
+export type InsertSqlitePromptTemplate = typeof sqlitePromptTemplates.$inferInsert;
+
+/**
+ * Files uploaded as inspiration (see server/inspirationUploads.ts).
+ * Files are parsed on upload and only the extracted metadata is kept, not the file itself.
+ */
+export const sqliteInspirationUploads = sqliteTable(
+  "inspirationUploads",
+  {
+    uploadId: sqliteText("uploadId").primaryKey(),
+
+    /**
+     * OpenID of the signed-in user who uploaded the file; only they can read it or start from it.
+     */
+    editorId: sqliteText("editorId").notNull(),
+
+    fileName: sqliteText("fileName").notNull(),
+
+    /**
+     * `pdf`, `docx` or `markdown`.
+     */
+    fileType: sqliteText("fileType").notNull(),
+
+    /**
+     * Size of the uploaded file in bytes.
+     */
+    size: sqliteInteger("size").notNull(),
+
+    /**
+     * Extracted title, headings, content and publishing details (JSON, same shape as for a page).
+     */
+    metadata: sqliteText("metadata").notNull(),
+
+    createdAt: sqliteText("createdAt").notNull(),
+  }
+);
+
+export type SqliteInspirationUpload = typeof sqliteInspirationUploads.$inferSelect;
+export type InsertSqliteInspirationUpload = typeof sqliteInspirationUploads.$inferInsert;
@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for the SQLite-backed pipeline execution store.
+ * Verifies that suspended executions survive a cleared read cache,
+ * which is what a server restart looks like to pipelineState.
+ *
+ * Usage: SQLITE_DB_PATH=/tmp/pipeline-test.db npx tsx scripts/test-durable-pipeline-store.mjs
+ */
+
+import {
+  pipelineState,
+  createPipelineExecution,
+  getPipelineExecution,
+  saveSuspensionState,
+  clearSuspensionState,
+  addAuditLogEntry,
+} from "../server/pipelineState.ts";
+
+async function testDurablePipelineStore() {
+  console.log("🧪 Testing Durable Pipeline Store\n");
+
+  try {
+    // Step 1: Create and suspend an execution
+    console.log("1️⃣  Creating and suspending execution...");
+    const execution = await createPipelineExecution({
+      inspirationUrl: "https://example.com/article",
+      editorId: "editor-123",
+      model: "llama2",
+      provider: "ollama",
+    });
+    await saveSuspensionState(
+      execution.executionId,
+      "Waiting for concept approval",
+      "gate-concept-approval",
+      { gate: "concepts", concepts: ["AI", "Machine Learning"] }
+    );
+    console.log(`✅ Suspended execution: ${execution.executionId}\n`);
+
+    // Step 2: Simulate a restart by clearing the read cache
+    console.log("2️⃣  Clearing read cache (simulated restart)...");
+    pipelineState.store.clear();
+
+    const reloaded = await getPipelineExecution(execution.executionId);
+    if (!reloaded || reloaded.status !== "suspended") {
+      throw new Error("Suspended execution was not reloaded from SQLite");
+    }
+    if (reloaded.suspension?.stepId !== "gate-concept-approval") {
+      throw new Error("Suspension data was not reloaded from SQLite");
+    }
+    if (reloaded.model !== "llama2" || reloaded.editorId !== "editor-123") {
+      throw new Error("Execution input was not reloaded from SQLite");
+    }
+    console.log(`✅ Reloaded status: ${reloaded.status}`);
+    console.log(`   Concepts: ${reloaded.suspension.data.concepts.join(", ")}\n`);
+
+    // Step 3: Resume after the restart and check the audit log persisted
+    console.log("3️⃣  Resuming after restart...");
+    await clearSuspensionState(execution.executionId, { approved: true });
+    await addAuditLogEntry(execution.executionId, "CONCEPT_APPROVAL_DECISION", "gate-concept-approval", {
+      approved: true,
+    });
+    pipelineState.store.clear();
+
+    const resumed = await getPipelineExecution(execution.executionId);
+    const events = resumed.metrics.auditLog.map(entry => entry.event);
+    if (resumed.status !== "running" || resumed.suspension) {
+      throw new Error("Resumed state was not persisted");
+    }
+    if (!events.includes("WORKFLOW_SUSPENDED") || !events.includes("WORKFLOW_RESUMED")) {
+      throw new Error("Audit log entries were not persisted");
+    }
+    console.log(`✅ Resumed status: ${resumed.status}`);
+    console.log(`   Audit events: ${events.join(", ")}\n`);
+
+    console.log("🎉 All durable store tests passed!");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testDurablePipelineStore();
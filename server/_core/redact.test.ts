@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { REDACTED, redactSecrets, redactString } from "./redact";
+
+const OPENROUTER_KEY = "sk-or-v1-0123456789abcdef0123456789abcdef";
+const OPENAI_KEY = "sk-proj-ABCDEFGHIJKLMNOPQRSTUV";
+
+describe("redactString", () => {
+  it("replaces provider keys and bearer tokens inside free text", () => {
+    expect(redactString(`OpenRouter rejected ${OPENROUTER_KEY}`)).toBe(`OpenRouter rejected ${REDACTED}`);
+    expect(redactString(`key=${OPENAI_KEY}`)).toBe(`key=${REDACTED}`);
+    expect(redactString("Authorization: Bearer abc.def.ghi-123")).toBe(`Authorization: ${REDACTED}`);
+  });
+
+  it("leaves ordinary text alone", () => {
+    expect(redactString("sk-short and a skeleton key")).toBe("sk-short and a skeleton key");
+  });
+});
+
+describe("redactSecrets", () => {
+  it("redacts secret fields at any depth without changing the input", () => {
+    const body = {
+      inspirationUrl: "https://example.com",
+      apiKey: OPENROUTER_KEY,
+      headers: { Authorization: "Bearer token-value", "x-request-id": "42" },
+      fallbacks: [{ provider: "openrouter", api_key: "anything" }],
+      password: "",
+    };
+
+    expect(redactSecrets(body)).toEqual({
+      inspirationUrl: "https://example.com",
+      apiKey: REDACTED,
+      headers: { Authorization: REDACTED, "x-request-id": "42" },
+      fallbacks: [{ provider: "openrouter", api_key: REDACTED }],
+      password: "",
+    });
+    expect(body.apiKey).toBe(OPENROUTER_KEY);
+  });
+
+  it("redacts key material in error messages and nested log strings", () => {
+    const error = new Error(`Request failed for key ${OPENROUTER_KEY}`);
+    const redacted = redactSecrets({ error, stack: `at call (${OPENAI_KEY})`, when: new Date(0) });
+
+    expect(redacted.error).toEqual({ name: "Error", message: `Request failed for key ${REDACTED}` });
+    expect(redacted.stack).toBe(`at call (${REDACTED})`);
+    expect(redacted.when).toEqual(new Date(0));
+    expect(JSON.stringify(redacted)).not.toMatch(/sk-(or|proj)-/);
+  });
+
+  it("drops circular references", () => {
+    const node: Record<string, unknown> = { name: "root" };
+    node.self = node;
+    expect(redactSecrets(node)).toEqual({ name: "root", self: undefined });
+  });
+});
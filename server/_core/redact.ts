@@ -0,0 +1,63 @@
+/**
+ * Secret redaction for API responses, WebSocket broadcasts and log lines
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// Object keys whose values are always secrets
+const SECRET_KEY_PATTERN = /^(api[-_]?key|secret|password|authorization|access[-_]?token|refresh[-_]?token)$/i;
+
+// Secret-looking substrings inside free text (provider keys and bearer tokens)
+const SECRET_VALUE_PATTERNS = [
+  /sk-or-[A-Za-z0-9_-]{8,}/g,
+  /sk-[A-Za-z0-9_-]{16,}/g,
+  /Bearer\s+[A-Za-z0-9._~+/=-]{8,}/g,
+];
+
+/**
+ * Replace secret-looking substrings in a string
+ */
+export function redactString(value: string): string {
+  return SECRET_VALUE_PATTERNS.reduce((text, pattern) => text.replace(pattern, REDACTED), value);
+}
+
+/**
+ * Deep-copy a value with secret fields and secret-looking strings redacted
+ */
+export function redactSecrets<T>(value: T): T {
+  return redactValue(value, new WeakSet()) as T;
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+
+  // Drop circular references; shared (non-circular) references are copied each time
+  if (seen.has(value)) {
+    return undefined;
+  }
+  seen.add(value);
+
+  let result: unknown;
+  if (Array.isArray(value)) {
+    result = value.map(item => redactValue(item, seen));
+  } else {
+    const copy: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      copy[key] = SECRET_KEY_PATTERN.test(key) && entry ? REDACTED : redactValue(entry, seen);
+    });
+    result = copy;
+  }
+
+  seen.delete(value);
+  return result;
+}
@@ -7,13 +7,13 @@ import { fileURLToPath } from 'url';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Use a local SQLite database file
-const dbPath = path.join(process.cwd(), 'data', 'dev.db');
+// Use a local SQLite database file (override with SQLITE_DB_PATH, e.g. ':memory:' for scripts)
+const dbPath = process.env.SQLITE_DB_PATH || path.join(process.cwd(), 'data', 'dev.db');
 
 // Create data directory if it doesn't exist
 import fs from 'fs';
-const dataDir = path.join(process.cwd(), 'data');
-if (!fs.existsSync(dataDir)) {
+const dataDir = path.dirname(dbPath);
+if (dbPath !== ':memory:' && !fs.existsSync(dataDir)) {
   fs.mkdirSync(dataDir, { recursive: true });
 }
 
@@ -36,8 +36,71 @@ function runMigrations() {
 // Enable WAL mode for better concurrency
 sqlite.pragma('journal_mode = WAL');
 
+/**
+ * Create the tables used by the SQLite-backed stores if they don't exist yet.
+ * The drizzle migrations folder targets MySQL, so the local tables are bootstrapped here.
+ */
+function ensureSqliteTables() {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS pipelineExecutions (
+      executionId TEXT PRIMARY KEY NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      input TEXT NOT NULL,
+      context TEXT,
+      suspension TEXT,
+      metrics TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS pipelineExecutions_status_idx ON pipelineExecutions (status);
+    CREATE TABLE IF NOT EXISTS credentials (
+      credentialId TEXT PRIMARY KEY NOT NULL,
+      editorId TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      encryptedKey TEXT NOT NULL,
+      keyHint TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS credentials_editor_provider_idx ON credentials (editorId, provider);
+    CREATE TABLE IF NOT EXISTS llmResponseCache (
+      cacheKey TEXT PRIMARY KEY NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      content TEXT NOT NULL,
+      usage TEXT,
+      hits INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      lastUsedAt TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS llmResponseCache_model_idx ON llmResponseCache (provider, model);
+    CREATE INDEX IF NOT EXISTS llmResponseCache_lastUsed_idx ON llmResponseCache (lastUsedAt);
+    CREATE TABLE IF NOT EXISTS promptTemplates (
+      templateId TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      description TEXT NOT NULL,
+      system TEXT NOT NULL,
+      user TEXT NOT NULL,
+      active INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      PRIMARY KEY (templateId, version)
+    );
+    CREATE TABLE IF NOT EXISTS inspirationUploads (
+      uploadId TEXT PRIMARY KEY NOT NULL,
+      editorId TEXT NOT NULL,
+      fileName TEXT NOT NULL,
+      fileType TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      metadata TEXT NOT NULL,
+      createdAt TEXT NOT NULL
+    );
+  `);
+}
+
+ensureSqliteTables();
+
 // Export the database instance and migration function
-export { db, sqlite, runMigrations };
+export { db, sqlite, runMigrations, ensureSqliteTables };
 
 export async function getDb() {
   return db;
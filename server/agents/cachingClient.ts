@@ -0,0 +1,110 @@
+import { ChatOptions, LLMClient, LLMMessage, LLMResponse } from './llmClient';
+import {
+  computeCacheKey,
+  getCachedResponse,
+  storeCachedResponse,
+  DEFAULT_RESPONSE_CACHE_OPTIONS,
+  ResponseCacheOptions,
+} from '../llmResponseCache';
+
+/**
+ * Serves repeated requests from the response cache instead of calling the provider
+ * Hits carry no usage (nothing was billed) and are flagged `cached`; cache failures fall
+ * through to the provider so a broken cache never fails a step.
+ */
+export class CachingLLMClient implements LLMClient {
+  constructor(
+    private client: LLMClient,
+    private options: ResponseCacheOptions = DEFAULT_RESPONSE_CACHE_OPTIONS
+  ) {}
+
+  get provider(): string | undefined {
+    return this.client.provider;
+  }
+
+  get model(): string | undefined {
+    return this.client.model;
+  }
+
+  get temperature(): number | undefined {
+    return this.client.temperature;
+  }
+
+  checkHealth(): Promise<boolean> {
+    return this.client.checkHealth();
+  }
+
+  async chat(messages: LLMMessage[], options?: ChatOptions): Promise<LLMResponse> {
+    const cacheKey = this.keyFor(messages, options);
+    const cached = this.lookup(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.client.chat(messages, options);
+    this.store(cacheKey, response);
+    return response;
+  }
+
+  /**
+   * A hit is delivered as a single token
+   */
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void,
+    options?: ChatOptions
+  ): Promise<LLMResponse> {
+    const cacheKey = this.keyFor(messages, options);
+    const cached = this.lookup(cacheKey);
+    if (cached) {
+      onToken(cached.content);
+      return cached;
+    }
+
+    const response = this.client.chatStream
+      ? await this.client.chatStream(messages, onToken, options)
+      : await this.client.chat(messages, options);
+    if (!this.client.chatStream) {
+      onToken(response.content);
+    }
+    this.store(cacheKey, response);
+    return response;
+  }
+
+  private keyFor(messages: LLMMessage[], options?: ChatOptions): string {
+    return computeCacheKey({
+      provider: this.client.provider || 'unknown',
+      model: this.client.model || 'unknown',
+      temperature: this.client.temperature,
+      messages,
+      responseFormat: options?.responseFormat,
+    });
+  }
+
+  private lookup(cacheKey: string): LLMResponse | undefined {
+    try {
+      const cached = getCachedResponse(cacheKey, this.options);
+      return cached
+        ? { content: cached.content, provider: this.client.provider, model: this.client.model, cached: true }
+        : undefined;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[ResponseCache] Lookup failed, calling the provider: ${errorMessage}`);
+      return undefined;
+    }
+  }
+
+  private store(cacheKey: string, response: LLMResponse): void {
+    try {
+      storeCachedResponse(
+        cacheKey,
+        { provider: this.client.provider || 'unknown', model: this.client.model || 'unknown' },
+        { content: response.content, usage: response.usage },
+        this.options
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[ResponseCache] Failed to store response: ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { Readable } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { readChatCompletionStream } from './chatCompletionStream';
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+describe('readChatCompletionStream', () => {
+  it('collects the deltas and the usage from the last chunk', async () => {
+    const tokens: string[] = [];
+    const stream = Readable.from([
+      ': OPENROUTER PROCESSING\n\n',
+      delta('{"title":'),
+      // A chunk split across reads
+      delta(' "Starter"}').slice(0, 20),
+      delta(' "Starter"}').slice(20),
+      `data: ${JSON.stringify({ choices: [{ delta: {} }], usage: { prompt_tokens: 12, completion_tokens: 5 } })}\n\n`,
+      'data: [DONE]\n\n',
+    ]);
+
+    const response = await readChatCompletionStream(stream, token => tokens.push(token));
+
+    expect(tokens).toEqual(['{"title":', ' "Starter"}']);
+    expect(response).toEqual({ content: '{"title": "Starter"}', usage: { promptTokens: 12, completionTokens: 5 } });
+  });
+
+  it('rejects on an error chunk', async () => {
+    const stream = Readable.from([delta('{"title":'), `data: ${JSON.stringify({ error: { message: 'Provider overloaded' } })}\n\n`]);
+
+    await expect(readChatCompletionStream(stream, () => {})).rejects.toThrow('Provider overloaded');
+  });
+});
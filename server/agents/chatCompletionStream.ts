@@ -0,0 +1,41 @@
+import type { Readable } from 'stream';
+import { LLMResponse, LLMUsage } from './llmClient';
+import { readStreamLines } from './streamLines';
+
+/**
+ * Read an OpenAI-style chat completion stream (server-sent events)
+ * Each content delta is passed to onToken; usage is taken from the chunk that carries it, usually the last one.
+ */
+export async function readChatCompletionStream(
+  stream: Readable,
+  onToken: (token: string) => void
+): Promise<LLMResponse> {
+  let content = '';
+  let usage: LLMUsage | undefined;
+
+  await readStreamLines(stream, line => {
+    // Skip SSE comments (keep-alives) and the end marker
+    if (!line.startsWith('data:')) {
+      return;
+    }
+    const data = line.slice('data:'.length).trim();
+    if (data === '[DONE]') {
+      return;
+    }
+
+    const chunk = JSON.parse(data);
+    if (chunk.error) {
+      throw new Error(chunk.error.message || 'Stream error');
+    }
+    const token: string | undefined = chunk.choices?.[0]?.delta?.content;
+    if (token) {
+      content += token;
+      onToken(token);
+    }
+    if (chunk.usage) {
+      usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+    }
+  });
+
+  return { content, usage };
+}
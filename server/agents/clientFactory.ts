@@ -0,0 +1,180 @@
+import { LLMClient, LLMProvider } from './llmClient';
+import { createOllamaClient } from './ollamaClient';
+import { createOpenRouterClient } from './openRouterClient';
+import { createOpenAICompatibleClient, isOpenAICompatibleConfigured } from './openAICompatibleClient';
+import { createMockLLMClient, isMockProviderEnabled } from './mockClient';
+import { createFallbackClient } from './fallbackClient';
+import { CachingLLMClient } from './cachingClient';
+import { isResponseCacheEnabledByDefault } from '../llmResponseCache';
+import type { StepModelConfig, StepModels } from '../pipelineState';
+import { resolveCredential } from '../credentialVault';
+
+export type { LLMProvider } from './llmClient';
+
+/**
+ * Model used when neither the request nor the execution names one
+ */
+export const DEFAULT_MODEL = 'phi4-mini-reasoning';
+
+/**
+ * Provider and model an execution was started with
+ * fallbacks are tried in order, behind every client, when the primary provider fails;
+ * cacheResponses serves repeated requests from the response cache (default: LLM_CACHE_ENABLED)
+ */
+export interface ProviderSettings {
+  provider?: LLMProvider;
+  model?: string;
+  fallbacks?: StepModelConfig[];
+  cacheResponses?: boolean;
+}
+
+/**
+ * Clients for a workflow: the execution default plus a factory for steps and slots with their own model
+ */
+export interface WorkflowClients {
+  llmClient: LLMClient;
+  clientFactory: (model: string, provider?: LLMProvider) => LLMClient;
+}
+
+/**
+ * Where to look for a provider API key
+ * apiKey is a key supplied with the current request; credentialRef points into the credential vault
+ */
+export interface CredentialOptions {
+  apiKey?: string;
+  credentialRef?: string;
+}
+
+/**
+ * Resolve the API key for a provider
+ * Order: explicit key from the request, the execution's vault credential, OPENROUTER_API_KEY
+ */
+export function resolveApiKey(provider: LLMProvider, options: CredentialOptions = {}): string | undefined {
+  if (provider !== 'openrouter') {
+    return undefined;
+  }
+
+  return options.apiKey ||
+    (options.credentialRef ? resolveCredential(options.credentialRef) : undefined) ||
+    process.env.OPENROUTER_API_KEY ||
+    undefined;
+}
+
+/**
+ * Create a client for a provider and model
+ */
+export function createProviderClient(provider: LLMProvider, model: string, apiKey?: string): LLMClient {
+  if (provider === 'openrouter') {
+    if (!apiKey) {
+      throw new Error(`No OpenRouter API key available for model ${model}`);
+    }
+    return createOpenRouterClient(apiKey, model);
+  }
+
+  if (provider === 'openai-compatible') {
+    return createOpenAICompatibleClient(model);
+  }
+
+  if (provider === 'mock') {
+    return createMockLLMClient(model);
+  }
+
+  return createOllamaClient(model);
+}
+
+/**
+ * Build the workflow clients for an execution's provider and model
+ * Slots may use a different provider; each provider resolves its own credentials.
+ * With fallbacks configured, every client is a fallback chain: its own model first, then the fallbacks.
+ * With response caching on, every model in the chain is wrapped in the response cache.
+ */
+export function createWorkflowClients(
+  settings: ProviderSettings,
+  options: CredentialOptions = {}
+): WorkflowClients {
+  const defaultProvider = settings.provider || 'ollama';
+  const cacheResponses = settings.cacheResponses ?? isResponseCacheEnabledByDefault();
+  const providerClient = (model: string, provider: LLMProvider) => {
+    const client = createProviderClient(provider, model, resolveApiKey(provider, options));
+    // Each model in a chain has its own cache entries, keyed by the model that served them
+    return cacheResponses ? new CachingLLMClient(client) : client;
+  };
+
+  const clientFor = (model: string, provider: LLMProvider = defaultProvider) => {
+    const chain = [{ model, provider }, ...(settings.fallbacks || [])]
+      .map(entry => ({ model: entry.model, provider: entry.provider || defaultProvider }))
+      .filter((entry, index, entries) =>
+        entries.findIndex(other => other.model === entry.model && other.provider === entry.provider) === index
+      );
+    return createFallbackClient(chain.map(entry => providerClient(entry.model, entry.provider)));
+  };
+
+  return {
+    llmClient: clientFor(settings.model || DEFAULT_MODEL),
+    clientFactory: clientFor,
+  };
+}
+
+/**
+ * The provider each model slot of an execution uses
+ * ('default' for the execution model, 'fallbacks[i]' for fallbacks)
+ */
+function listSlotProviders(settings: ProviderSettings, stepModels: StepModels = {}): Array<[string, LLMProvider]> {
+  const defaultProvider = settings.provider || 'ollama';
+  const providers: Array<[string, LLMProvider]> = [['default', defaultProvider]];
+  Object.entries(stepModels).forEach(([slot, slotModel]) => {
+    if (slotModel) {
+      providers.push([slot, slotModel.provider || defaultProvider]);
+    }
+  });
+  (settings.fallbacks || []).forEach((fallback, index) => {
+    providers.push([`fallbacks[${index}]`, fallback.provider || defaultProvider]);
+  });
+  return providers;
+}
+
+/**
+ * List the model slots whose provider has no resolvable API key
+ */
+export function findMissingCredentials(
+  settings: ProviderSettings,
+  stepModels: StepModels = {},
+  options: CredentialOptions = {}
+): string[] {
+  return listSlotProviders(settings, stepModels)
+    .filter(([, provider]) => provider === 'openrouter' && !resolveApiKey(provider, options))
+    .map(([slot]) => slot);
+}
+
+/**
+ * Whether this server can build clients for a provider
+ * The OpenAI-compatible provider needs OPENAI_COMPATIBLE_BASE_URL; the mock provider needs MOCK_LLM_ENABLED
+ */
+export function isProviderConfigured(provider: LLMProvider): boolean {
+  if (provider === 'openai-compatible') {
+    return isOpenAICompatibleConfigured();
+  }
+  if (provider === 'mock') {
+    return isMockProviderEnabled();
+  }
+  return true;
+}
+
+/**
+ * List the model slots whose provider is not configured on this server
+ */
+export function findUnconfiguredProviders(settings: ProviderSettings, stepModels: StepModels = {}): string[] {
+  return listSlotProviders(settings, stepModels)
+    .filter(([, provider]) => !isProviderConfigured(provider))
+    .map(([slot, provider]) => `${slot} (${provider})`);
+}
+
+/**
+ * Describe a client for the audit log, e.g. "openrouter:openai/gpt-4o"
+ */
+export function describeClient(client: LLMClient): string | undefined {
+  if (!client.model) {
+    return undefined;
+  }
+  return client.provider ? `${client.provider}:${client.model}` : client.model;
+}
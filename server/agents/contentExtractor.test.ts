@@ -0,0 +1,139 @@
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { extractHeadings, extractPageContent } from './contentExtractor';
+
+const paragraph = (topic: string) =>
+  `<p>${topic} depends on flour, water and time, and a steady routine keeps the starter active, bubbly and predictable through the week.</p>`;
+
+describe('extractPageContent', () => {
+  it('takes a single article as the main content and drops the boilerplate around it', () => {
+    const $ = cheerio.load(`
+      <html><body>
+        <header><a href="/">Bakery Blog</a></header>
+        <nav><a href="/recipes">Recipes</a><a href="/about">About</a></nav>
+        <article>
+          <header><h1>Keeping a Starter Alive</h1></header>
+          ${paragraph('Feeding')}
+          ${paragraph('Hydration')}
+          <div class="share-buttons">Share on social media</div>
+          <ul><li>Flour</li><li>Water <ul><li>Filtered</li></ul></li></ul>
+        </article>
+        <aside>${paragraph('Our newsletter')}</aside>
+        <div id="comments">${paragraph('A reader comment on')}</div>
+        <footer>Copyright</footer>
+      </body></html>
+    `);
+
+    const content = extractPageContent($);
+
+    expect(content.text.split('\n\n')[0]).toBe('Keeping a Starter Alive');
+    expect(content.text).toContain('Feeding depends on flour');
+    expect(content.text).toContain('Hydration depends on flour');
+    ['Recipes', 'Share on social media', 'newsletter', 'reader comment', 'Copyright', 'Bakery Blog']
+      .forEach(boilerplate => expect(content.text).not.toContain(boilerplate));
+    expect(content.lists).toEqual([['Flour', 'Water'], ['Filtered']]);
+  });
+
+  it('scores paragraph blocks when the page has no article or main element', () => {
+    const $ = cheerio.load(`
+      <html><body>
+        <div class="links">
+          <p><a href="/a">A long list of links that only points elsewhere, page one</a></p>
+          <p><a href="/b">A long list of links that only points elsewhere, page two</a></p>
+        </div>
+        <div class="post">
+          ${paragraph('Feeding')}
+          ${paragraph('Hydration')}
+          ${paragraph('Temperature')}
+        </div>
+      </body></html>
+    `);
+
+    const content = extractPageContent($);
+
+    expect(content.text).toContain('Temperature depends on flour');
+    expect(content.text).not.toContain('list of links');
+    expect(content.wordCount).toBe(3 * 21);
+  });
+
+  it('reads tables, images and links relative to the page URL', () => {
+    const $ = cheerio.load(`
+      <html><body><main>
+        ${paragraph('Feeding')}
+        ${paragraph('Hydration')}
+        <table><caption>Feeding ratios</caption>
+          <thead><tr><th>Day</th><th>Ratio</th></tr></thead>
+          <tbody><tr><td>1</td><td>1:1:1</td></tr><tr><td>2</td><td>1:2:2</td></tr></tbody>
+        </table>
+        <img src="/img/jar.jpg" alt="Starter jar"><img src="data:image/png;base64,AAAA"><img data-src="crumb.jpg">
+        <a href="/recipes">Recipes</a><a href="https://example.org/flour">Flour</a>
+        <a href="#top">Top</a><a href="mailto:baker@example.com">Mail</a>
+      </main></body></html>
+    `);
+
+    const content = extractPageContent($, 'https://bakery.example.com/blog/starter');
+
+    expect(content.tables).toEqual([{ caption: 'Feeding ratios', headers: ['Day', 'Ratio'], rowCount: 2 }]);
+    expect(content.images).toEqual([
+      { src: 'https://bakery.example.com/img/jar.jpg', alt: 'Starter jar' },
+      { src: 'https://bakery.example.com/blog/crumb.jpg', alt: '' },
+    ]);
+    expect(content.links).toEqual({ internal: 1, external: 1 });
+  });
+
+  it('reads publishing metadata from meta tags and JSON-LD', () => {
+    const $ = cheerio.load(`
+      <html><head>
+        <link rel="canonical" href="/blog/starter">
+        <meta property="og:type" content="article">
+        <script type="application/ld+json">{ not json</script>
+        <script type="application/ld+json">${JSON.stringify({
+          '@graph': [
+            { '@type': 'WebSite', name: 'Bakery Blog' },
+            {
+              '@type': ['BlogPosting'],
+              headline: 'Keeping a Starter Alive',
+              author: [{ '@type': 'Person', name: 'Ada Baker' }, 'Sam Crumb'],
+              datePublished: '2024-03-01',
+              keywords: 'sourdough, starter',
+            },
+          ],
+        })}</script>
+      </head><body><article>${paragraph('Feeding')}${paragraph('Hydration')}</article></body></html>
+    `);
+
+    const content = extractPageContent($, 'https://bakery.example.com/blog/starter?ref=feed');
+
+    expect(content.article).toMatchObject({
+      type: 'BlogPosting',
+      headline: 'Keeping a Starter Alive',
+      author: 'Ada Baker, Sam Crumb',
+      keywords: ['sourdough', 'starter'],
+    });
+    expect(content.author).toBe('Ada Baker, Sam Crumb');
+    expect(content.publishedAt).toBe('2024-03-01');
+    expect(content.canonicalUrl).toBe('https://bakery.example.com/blog/starter');
+    expect(content.openGraph).toEqual({ type: 'article' });
+  });
+
+  it('caps the stored text but counts every word', () => {
+    const $ = cheerio.load(`<html><body><article><p>${'word '.repeat(5000)}</p></article></body></html>`);
+
+    const content = extractPageContent($);
+
+    expect(content.text.length).toBe(20000);
+    expect(content.wordCount).toBe(5000);
+  });
+});
+
+describe('extractHeadings', () => {
+  it('groups distinct h1-h3 headings by level in document order', () => {
+    const $ = cheerio.load(`
+      <h1>Starter</h1><h2>Feeding</h2><h3>Ratios</h3><h2> Hydration </h2><h2>Feeding</h2><h4>Notes</h4>
+      <div id="sidebar"><h2>Popular posts</h2></div>
+    `);
+
+    expect(extractHeadings($)).toEqual({ h1: ['Starter'], h2: ['Feeding', 'Hydration', 'Popular posts'], h3: ['Ratios'] });
+    expect(extractHeadings($, $('#sidebar'))).toEqual({ h1: [], h2: ['Popular posts'], h3: [] });
+  });
+});
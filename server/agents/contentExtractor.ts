@@ -0,0 +1,366 @@
+import type { CheerioAPI, Cheerio } from 'cheerio';
+
+/**
+ * Readability-style extraction of an inspiration page's main content and publishing metadata
+ * Pure HTML parsing: boilerplate (navigation, footers, sidebars, comments) is removed, the
+ * remaining block with the most paragraph text is taken as the article body.
+ */
+
+export interface HeadingsByLevel {
+  h1: string[];
+  h2: string[];
+  h3: string[];
+}
+
+export interface ContentTable {
+  caption?: string;
+  headers: string[];
+  rowCount: number;
+}
+
+export interface ContentImage {
+  src: string;
+  alt: string;
+}
+
+/**
+ * schema.org Article data from the page's JSON-LD
+ */
+export interface ArticleJsonLd {
+  type: string; // Article, BlogPosting, NewsArticle, ...
+  headline?: string;
+  description?: string;
+  author?: string;
+  datePublished?: string;
+  dateModified?: string;
+  keywords?: string[];
+  section?: string;
+}
+
+export interface PageContent {
+  text: string; // Main content text, paragraphs separated by blank lines (capped at MAX_CONTENT_CHARS)
+  wordCount: number; // Of the full main content, before the cap
+  lists: string[][]; // Items of each list in the main content
+  tables: ContentTable[];
+  images: ContentImage[]; // Main content images; alt is empty when the image has none
+  links: { internal: number; external: number };
+  author?: string;
+  publishedAt?: string;
+  canonicalUrl?: string;
+  openGraph: Record<string, string>; // og:* properties without the prefix, e.g. { type: 'article' }
+  article?: ArticleJsonLd;
+}
+
+// Keep the stored context small; the summarizer and similarity checks only need a representative body
+const MAX_CONTENT_CHARS = 20000;
+const MAX_LISTS = 20;
+const MAX_LIST_ITEMS = 20;
+const MAX_TABLES = 10;
+const MAX_IMAGES = 30;
+
+const BOILERPLATE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'form',
+  'nav', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]',
+].join(', ');
+
+const BOILERPLATE_PATTERN = /(^|[\s_-])(comments?|sidebar|footer|nav|navbar|menu|share|sharing|social|promo|advert|ads?|related|recommended|cookie|banner|newsletter|subscribe|breadcrumbs?|popup|modal)($|[\s_-])/i;
+
+const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle', 'TechArticle', 'Report', 'ScholarlyArticle'];
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Headings h1-h3 in document order, grouped by level
+ */
+export function extractHeadings($: CheerioAPI, root?: Cheerio<any>): HeadingsByLevel {
+  const headings: HeadingsByLevel = { h1: [], h2: [], h3: [] };
+  const elements = root ? root.find('h1, h2, h3') : $('h1, h2, h3');
+  elements.each((_index: number, element: any) => {
+    const text = cleanText($(element).text());
+    const level = element.tagName?.toLowerCase() as keyof HeadingsByLevel;
+    if (text && headings[level] && headings[level].indexOf(text) === -1) {
+      headings[level].push(text);
+    }
+  });
+  return headings;
+}
+
+/**
+ * Remove scripts, navigation and other boilerplate in place
+ */
+function stripBoilerplate($: CheerioAPI): void {
+  $(BOILERPLATE_SELECTOR).remove();
+  // An article's own header carries its title and byline; only site headers are boilerplate
+  $('header').filter((_index: number, header: any) => $(header).parents('article, main').length === 0).remove();
+  $('[class], [id]').each((_index: number, element: any) => {
+    const $element = $(element);
+    const marker = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`;
+    // Never drop the document structure itself, only blocks inside it
+    if (!$element.is('html, body, main, article') && BOILERPLATE_PATTERN.test(marker)) {
+      $element.remove();
+    }
+  });
+}
+
+/**
+ * Share of a block's text that is link text
+ */
+function linkDensity($: CheerioAPI, block: Cheerio<any>): number {
+  const textLength = cleanText(block.text()).length;
+  if (textLength === 0) {
+    return 1;
+  }
+  let linkLength = 0;
+  block.find('a').each((_index: number, link: any) => {
+    linkLength += cleanText($(link).text()).length;
+  });
+  return linkLength / textLength;
+}
+
+/**
+ * Pick the main content block
+ * A single <article> or <main> wins outright; otherwise each paragraph scores its parent
+ * (and half for the grandparent) by text length, discounted by link density.
+ */
+function findMainContent($: CheerioAPI): Cheerio<any> {
+  const semantic = $('article').length === 1 ? $('article') : $('main, [role="main"]').first();
+  if (semantic.length > 0 && countWords(semantic.text()) >= 50) {
+    return semantic.first();
+  }
+
+  const scores = new Map<any, number>();
+  $('p, pre, blockquote, td').each((_index: number, element: any) => {
+    const text = cleanText($(element).text());
+    if (text.length < 25) {
+      return;
+    }
+    const score = 1 + Math.min(3, Math.floor(text.length / 100)) + (text.match(/,/g) || []).length;
+    const parent = element.parent;
+    if (parent) {
+      scores.set(parent, (scores.get(parent) || 0) + score);
+      if (parent.parent) {
+        scores.set(parent.parent, (scores.get(parent.parent) || 0) + score / 2);
+      }
+    }
+  });
+
+  let best: any;
+  let bestScore = 0;
+  scores.forEach((score, node) => {
+    const adjusted = score * (1 - linkDensity($, $(node)));
+    if (adjusted > bestScore) {
+      best = node;
+      bestScore = adjusted;
+    }
+  });
+
+  return best ? $(best) : $('body');
+}
+
+/**
+ * Paragraph-like text of the main content, one block per line group
+ */
+function extractText($: CheerioAPI, main: Cheerio<any>): string {
+  const blocks: string[] = [];
+  main.find('h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, figcaption, td').each((_index: number, element: any) => {
+    const $element = $(element);
+    // Nested blocks are read through their own element
+    if ($element.parents('p, li, blockquote, td').length > 0 && !$element.is('li')) {
+      return;
+    }
+    const text = cleanText($element.clone().children('ul, ol').remove().end().text());
+    if (text) {
+      blocks.push(text);
+    }
+  });
+
+  return blocks.length > 0 ? blocks.join('\n\n') : cleanText(main.text());
+}
+
+function extractLists($: CheerioAPI, main: Cheerio<any>): string[][] {
+  const lists: string[][] = [];
+  main.find('ul, ol').each((_index: number, list: any) => {
+    const items = $(list)
+      .children('li')
+      .map((_itemIndex: number, item: any) => cleanText($(item).clone().children('ul, ol').remove().end().text()))
+      .get()
+      .filter(Boolean)
+      .slice(0, MAX_LIST_ITEMS);
+    if (items.length > 0 && lists.length < MAX_LISTS) {
+      lists.push(items);
+    }
+  });
+  return lists;
+}
+
+function extractTables($: CheerioAPI, main: Cheerio<any>): ContentTable[] {
+  return main.find('table').slice(0, MAX_TABLES).map((_index: number, table: any) => {
+    const $table = $(table);
+    const headerCells = $table.find('thead th').length > 0 ? $table.find('thead th') : $table.find('tr').first().find('th');
+    const caption = cleanText($table.find('caption').first().text());
+    return {
+      ...(caption ? { caption } : {}),
+      headers: headerCells.map((_cellIndex: number, cell: any) => cleanText($(cell).text())).get(),
+      rowCount: $table.find('tr').filter((_rowIndex: number, row: any) => $(row).find('td').length > 0).length,
+    };
+  }).get();
+}
+
+function resolveUrl(href: string, pageUrl?: string): URL | undefined {
+  try {
+    return new URL(href, pageUrl);
+  } catch {
+    return undefined;
+  }
+}
+
+function extractImages($: CheerioAPI, main: Cheerio<any>, pageUrl?: string): ContentImage[] {
+  const images: ContentImage[] = [];
+  main.find('img').each((_index: number, image: any) => {
+    const $image = $(image);
+    const src = $image.attr('src') || $image.attr('data-src') || '';
+    const resolved = src && !src.startsWith('data:') ? resolveUrl(src, pageUrl) : undefined;
+    if (resolved && images.length < MAX_IMAGES) {
+      images.push({ src: resolved.toString(), alt: cleanText($image.attr('alt') || '') });
+    }
+  });
+  return images;
+}
+
+/**
+ * Count main content links by whether they stay on the page's host
+ */
+function countLinks($: CheerioAPI, main: Cheerio<any>, pageUrl?: string): PageContent['links'] {
+  const host = pageUrl ? resolveUrl(pageUrl)?.hostname : undefined;
+  const links = { internal: 0, external: 0 };
+  main.find('a[href]').each((_index: number, link: any) => {
+    const href = $(link).attr('href') || '';
+    if (href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) {
+      return;
+    }
+    const resolved = resolveUrl(href, pageUrl);
+    if (!resolved) {
+      return;
+    }
+    if (host && resolved.hostname === host) {
+      links.internal++;
+    } else if (host || /^https?:\/\//i.test(href)) {
+      links.external++;
+    } else {
+      links.internal++;
+    }
+  });
+  return links;
+}
+
+function extractOpenGraph($: CheerioAPI): Record<string, string> {
+  const openGraph: Record<string, string> = {};
+  $('meta[property^="og:"]').each((_index: number, meta: any) => {
+    const property = ($(meta).attr('property') || '').slice(3);
+    const content = cleanText($(meta).attr('content') || '');
+    if (property && content && !(property in openGraph)) {
+      openGraph[property] = content;
+    }
+  });
+  return openGraph;
+}
+
+function authorName(author: unknown): string | undefined {
+  const authors = Array.isArray(author) ? author : [author];
+  const names = authors
+    .map(entry => (typeof entry === 'string' ? entry : (entry as { name?: unknown } | null | undefined)?.name))
+    .filter((name): name is string => typeof name === 'string' && name.trim().length > 0)
+    .map(name => name.trim());
+  return names.length > 0 ? names.join(', ') : undefined;
+}
+
+/**
+ * The first schema.org Article-like object in the page's JSON-LD blocks (including @graph entries)
+ * Malformed blocks are skipped
+ */
+function extractArticleJsonLd($: CheerioAPI): ArticleJsonLd | undefined {
+  const candidates: any[] = [];
+  $('script[type="application/ld+json"]').each((_index: number, script: any) => {
+    try {
+      const parsed = JSON.parse($(script).contents().text());
+      const entries = Array.isArray(parsed) ? parsed : [parsed];
+      entries.forEach(entry => {
+        candidates.push(entry, ...(Array.isArray(entry?.['@graph']) ? entry['@graph'] : []));
+      });
+    } catch {
+      // Ignore JSON-LD the page author got wrong
+    }
+  });
+
+  const article = candidates.find(candidate => {
+    const types = Array.isArray(candidate?.['@type']) ? candidate['@type'] : [candidate?.['@type']];
+    return types.some((type: unknown) => typeof type === 'string' && ARTICLE_TYPES.indexOf(type) !== -1);
+  });
+  if (!article) {
+    return undefined;
+  }
+
+  const keywords = Array.isArray(article.keywords)
+    ? article.keywords
+    : typeof article.keywords === 'string' ? article.keywords.split(',') : [];
+  const type = Array.isArray(article['@type']) ? article['@type'][0] : article['@type'];
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? cleanText(value) : undefined);
+
+  return {
+    type,
+    headline: text(article.headline),
+    description: text(article.description),
+    author: authorName(article.author),
+    datePublished: text(article.datePublished),
+    dateModified: text(article.dateModified),
+    keywords: keywords.map((keyword: unknown) => String(keyword).trim()).filter(Boolean),
+    section: text(article.articleSection),
+  };
+}
+
+/**
+ * Extract the page's main content and publishing metadata
+ * Call before anything else reads the document: boilerplate is removed from `$` in place.
+ * pageUrl resolves relative image and link URLs and decides which links are internal.
+ */
+export function extractPageContent($: CheerioAPI, pageUrl?: string): PageContent {
+  // Head metadata and JSON-LD are read before the scripts are stripped
+  const openGraph = extractOpenGraph($);
+  const article = extractArticleJsonLd($);
+  const canonical = $('link[rel="canonical"]').attr('href');
+  const author = cleanText($('meta[name="author"]').attr('content') || '') ||
+    article?.author ||
+    cleanText($('meta[property="article:author"]').attr('content') || '') ||
+    cleanText($('[rel="author"]').first().text()) ||
+    undefined;
+  const publishedAt = $('meta[property="article:published_time"]').attr('content')?.trim() ||
+    article?.datePublished ||
+    $('time[datetime]').first().attr('datetime')?.trim() ||
+    undefined;
+
+  stripBoilerplate($);
+  const main = findMainContent($);
+  const text = extractText($, main);
+
+  return {
+    text: text.slice(0, MAX_CONTENT_CHARS),
+    wordCount: countWords(text),
+    lists: extractLists($, main),
+    tables: extractTables($, main),
+    images: extractImages($, main, pageUrl),
+    links: countLinks($, main, pageUrl),
+    author,
+    publishedAt,
+    canonicalUrl: canonical ? resolveUrl(canonical, pageUrl)?.toString() : openGraph.url,
+    openGraph,
+    article,
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * Built-in prompt templates, seeded as version 1 of each template in the prompt store
+ * `{{name}}` inserts a variable; `{{#name}}...{{/name}}` is included only when the variable is non-empty.
+ */
+export interface PromptTemplateDefinition {
+  description: string;
+  system: string;
+  user: string;
+  variables: Record<string, string>; // Variables the agent supplies, with what they contain
+}
+
+const CONCEPT_EXTRACTION_USER = `
+Title: {{title}}
+{{#metaDescription}}
+Meta Description: {{metaDescription}}
+{{/metaDescription}}
+Headings:
+{{headings}}
+{{#pageDetails}}
+Page Details:
+{{pageDetails}}
+{{/pageDetails}}{{#contentExcerpt}}
+Content Excerpt:
+{{contentExcerpt}}
+{{/contentExcerpt}}{{#otherSources}}
+The page above is Source 1. The brief also cites these pages on the same topic:
+
+{{otherSources}}
+
+Merge themes the sources share into a single concept rather than repeating them. Instead of plain strings, return each concept as an object with the numbers of the sources that mention it, e.g. {"concept": "concept1", "sources": [1, 3]}. Use an empty "sources" array when you cannot tell.
+{{/otherSources}}{{#previousConcepts}}
+REVISION REQUEST:
+An editor reviewed these previously extracted concepts and asked for changes:
+{{previousConcepts}}
+
+EDITOR FEEDBACK:
+{{feedback}}
+
+Address the feedback in the new concept list.
+{{/previousConcepts}}
+Based on the above title, meta description, headings, and content, extract 5-7 high-level concepts that represent the main topics or themes. 
+Return your response as a JSON object with this exact structure:
+{
+  "concepts": ["concept1", "concept2", "concept3", "concept4", "concept5"],
+  "summary": "A brief one-sentence summary of the main theme"
+}
+
+Only return the JSON, no additional text.
+`;
+
+const OUTLINE_GENERATION_USER = `
+Create a comprehensive article outline based on the following concepts:
+
+{{concepts}}
+{{#seoGuidelines}}
+SEO Guidelines:
+{{seoGuidelines}}
+{{/seoGuidelines}}{{#previousOutline}}
+REVISION REQUEST:
+This is a revision of a previous outline. Rework it to address the feedback below.
+
+PREVIOUS OUTLINE:
+{{previousOutline}}
+
+FEEDBACK TO ADDRESS:
+{{feedback}}
+{{/previousOutline}}
+Requirements:
+- Create an engaging, SEO-optimized article title
+- Include 2-3 key points for the introduction
+- Create 3-5 main sections with descriptive headings
+- Each section should have 3-5 key points to cover
+- Include 2-3 key points for the conclusion
+- Follow proper heading hierarchy (H1 for title, H2 for sections)
+- Incorporate SEO best practices (keyword placement, logical flow)
+- Ensure comprehensive coverage of all concepts
+
+Return your response as a JSON object with this exact structure:
+{
+  "title": "Article Title Here",
+  "introduction": [
+    "Introduction point 1",
+    "Introduction point 2",
+    "Introduction point 3"
+  ],
+  "sections": [
+    {
+      "heading": "Section 1 Heading",
+      "keyPoints": [
+        "Key point 1",
+        "Key point 2",
+        "Key point 3"
+      ]
+    },
+    {
+      "heading": "Section 2 Heading",
+      "keyPoints": [
+        "Key point 1",
+        "Key point 2",
+        "Key point 3"
+      ]
+    }
+  ],
+  "conclusion": [
+    "Conclusion point 1",
+    "Conclusion point 2"
+  ]
+}
+
+Only return the JSON, no additional text.
+`;
+
+const DRAFT_GENERATION_USER = `
+Write a complete, high-quality article based on the following outline:
+
+TITLE: {{title}}
+
+INTRODUCTION:
+{{introduction}}
+
+MAIN SECTIONS:
+{{sections}}
+
+CONCLUSION:
+{{conclusion}}
+
+Tone and Style: {{tone}}
+{{#previousDraft}}
+REVISION REQUEST:
+This is a revision of a previous draft. Rewrite it to address the feedback below while still following the outline.
+
+PREVIOUS DRAFT TITLE: {{previousDraftTitle}}
+
+PREVIOUS DRAFT:
+{{previousDraft}}
+
+FEEDBACK TO ADDRESS:
+{{feedback}}
+{{/previousDraft}}
+Requirements:
+- Write a complete article with introduction, body sections, and conclusion
+- Each section should have 2-4 well-developed paragraphs (150-250 words per section)
+- Maintain consistent tone and style throughout
+- Use clear, engaging language that flows naturally
+- Ensure the content is original and distinct from any source material
+- Target a minimum of 800 words total
+- Create an SEO-optimized meta description (150-160 characters)
+- Follow the outline structure closely but expand with rich detail and examples
+- Use transitions between sections for smooth flow
+- Write in a way that provides value and insight to readers
+
+Return your response as a JSON object with this exact structure:
+{
+  "title": "Article Title Here",
+  "metaDescription": "Compelling meta description for SEO (150-160 characters)",
+  "bodyParagraphs": [
+    "Introduction paragraph 1...",
+    "Introduction paragraph 2...",
+    "Section 1 paragraph 1...",
+    "Section 1 paragraph 2...",
+    "Section 2 paragraph 1...",
+    "Section 2 paragraph 2...",
+    "Conclusion paragraph 1...",
+    "Conclusion paragraph 2..."
+  ]
+}
+
+Important: Each paragraph should be a complete, well-developed paragraph (3-6 sentences). The bodyParagraphs array should contain ALL paragraphs in order from introduction through conclusion.
+
+Only return the JSON, no additional text.
+`;
+
+const DRAFT_REVIEW_USER = `
+Review the following article draft:
+
+TITLE: {{title}}
+
+META DESCRIPTION: {{metaDescription}}
+
+WORD COUNT: {{wordCount}}
+
+BODY:
+{{body}}
+
+Evaluate the draft on:
+- Clarity: Is the writing easy to follow?
+- Coherence: Do sections flow logically from introduction to conclusion?
+- Tone: Is the tone consistent, professional, and engaging?
+- SEO strength: Are the title, meta description, and structure optimized for search?
+
+Score the draft from 0 to 100, where 80 or above means it is ready for human review.
+
+Return your response as a JSON object with this exact structure:
+{
+  "score": 85,
+  "comments": "Overall assessment of the draft in 2-3 sentences",
+  "strengths": [
+    "Strength 1",
+    "Strength 2"
+  ],
+  "improvements": [
+    "Specific improvement 1",
+    "Specific improvement 2"
+  ]
+}
+
+Only return the JSON, no additional text.
+`;
+
+export const DEFAULT_PROMPT_TEMPLATES = {
+  'concept-extraction': {
+    description: 'Metadata summarizer: extract 5-7 concepts from the inspiration page',
+    system: 'You are an expert content analyst. Extract 5-7 high-level concepts from the given content metadata. Return a JSON response with "concepts" (array of strings) and "summary" (brief description).',
+    user: CONCEPT_EXTRACTION_USER,
+    variables: {
+      title: 'Page title',
+      metaDescription: 'Meta description (may be empty)',
+      headings: 'Headings, one per line, prefixed with their level (H1-H3)',
+      pageDetails: 'Author, publish date, article type, keywords and content structure (may be empty)',
+      contentExcerpt: 'Start of the main body text (may be empty)',
+      otherSources: 'Further inspiration pages (Source 2 onwards) with title, headings and an excerpt (empty for a single source)',
+      previousConcepts: 'Concepts being revised, as a bulleted list (empty unless revising)',
+      feedback: 'Editor feedback for the revision',
+    },
+  },
+  'outline-generation': {
+    description: 'Outline generator: structured article outline from the approved concepts',
+    system: 'You are an expert content strategist and SEO specialist. Create structured article outlines that follow SEO best practices, proper heading hierarchy, and logical flow. Return responses in valid JSON format only.',
+    user: OUTLINE_GENERATION_USER,
+    variables: {
+      concepts: 'Approved concepts as a numbered list',
+      seoGuidelines: 'SEO guidelines (may be empty)',
+      previousOutline: 'Outline being revised, as JSON (empty unless revising)',
+      feedback: 'Feedback for the revision',
+    },
+  },
+  'draft-generation': {
+    description: 'Draft generator: full article from the approved outline',
+    system: 'You are an expert content writer specializing in creating high-quality, original, SEO-optimized articles. Write engaging, well-structured content that maintains consistent tone and style throughout. Ensure all content is structurally and conceptually distinct from any source material. Return responses in valid JSON format only.',
+    user: DRAFT_GENERATION_USER,
+    variables: {
+      title: 'Outline title',
+      introduction: 'Introduction points as a bulleted list',
+      sections: 'Sections with their key points',
+      conclusion: 'Conclusion points as a bulleted list',
+      tone: 'Tone and style guidance',
+      previousDraftTitle: 'Title of the draft being revised',
+      previousDraft: 'Paragraphs of the draft being revised (empty unless revising)',
+      feedback: 'Reviewer or editor feedback for the revision',
+    },
+  },
+  'draft-review': {
+    description: 'Reviewer: score and critique a draft',
+    system: 'You are a senior editor and SEO reviewer. Critically evaluate article drafts for clarity, coherence, tone consistency, and SEO strength. Be specific and constructive. Return responses in valid JSON format only.',
+    user: DRAFT_REVIEW_USER,
+    variables: {
+      title: 'Draft title',
+      metaDescription: 'Draft meta description',
+      wordCount: 'Draft word count',
+      body: 'Draft paragraphs separated by blank lines',
+    },
+  },
+} satisfies Record<string, PromptTemplateDefinition>;
+
+export type PromptTemplateId = keyof typeof DEFAULT_PROMPT_TEMPLATES;
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[];
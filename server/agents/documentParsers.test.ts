@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DocumentParseError,
+  detectFileType,
+  parseDocument,
+  parseMarkdown,
+  parseText,
+} from './documentParsers';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let crc = n;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Uncompressed ZIP archive, enough for mammoth to read a DOCX
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const parts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = Buffer.from(name);
+    const data = Buffer.from(content);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x21, 12); // 1980-01-01
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, nameBytes, data);
+    centralParts.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, centralDirectory, end]);
+}
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * DOCX with one paragraph per entry, each in the given paragraph style
+ */
+function createDocx(paragraphs: Array<{ style?: string; text: string }>): Buffer {
+  const body = paragraphs
+    .map(({ style, text }) =>
+      `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`)
+    .join('');
+  const style = (id: string, name: string) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/></w:style>`;
+
+  return createZip({
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '</Types>',
+    '_rels/.rels': '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/officeDocument" Target="word/document.xml"/>` +
+      '</Relationships>',
+    'word/_rels/document.xml.rels': '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/styles" Target="styles.xml"/>` +
+      '</Relationships>',
+    'word/styles.xml': `<?xml version="1.0" encoding="UTF-8"?><w:styles xmlns:w="${WORD_NAMESPACE}">` +
+      style('Title', 'Title') + style('Heading1', 'heading 1') + style('Heading2', 'heading 2') +
+      '</w:styles>',
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${WORD_NAMESPACE}">` +
+      `<w:body>${body}</w:body></w:document>`,
+  });
+}
+
+/**
+ * Single-page PDF with a text layer of the given lines and a document info dictionary
+ */
+function createPdf(lines: string[], info: Record<string, string> = {}): Buffer {
+  const content = ['BT', '/F1 12 Tf', '72 720 Td', '16 TL', ...lines.map(line => `(${line}) Tj T*`), 'ET'].join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    `<< ${Object.entries(info).map(([key, value]) => `/${key} (${value})`).join(' ')} >>`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('detectFileType', () => {
+  it('uses the extension before the media type', () => {
+    expect(detectFileType('Brief.PDF')).toBe('pdf');
+    expect(detectFileType('notes.md', 'application/octet-stream')).toBe('markdown');
+    expect(detectFileType('upload', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe('docx');
+    expect(detectFileType('notes', 'text/markdown; charset=utf-8')).toBe('markdown');
+    expect(detectFileType('sheet.xlsx', 'application/vnd.ms-excel')).toBeUndefined();
+  });
+});
+
+describe('parseText', () => {
+  it('reads short lines without closing punctuation as the title and headings', () => {
+    const metadata = parseText([
+      'Keeping a Starter Alive',
+      'Feeding',
+      'Feed the starter every day with\nequal parts flour and water.',
+      'Should it smell sour?',
+    ].join('\n\n'));
+
+    expect(metadata.title).toBe('Keeping a Starter Alive');
+    expect(metadata.headingsByLevel).toEqual({ h1: ['Keeping a Starter Alive'], h2: ['Feeding'], h3: [] });
+    expect(metadata.content?.text).toContain('Feed the starter every day with equal parts flour and water.');
+    expect(metadata.content?.text).toContain('Should it smell sour?');
+  });
+
+  it('keeps a given title and escapes markup', () => {
+    const metadata = parseText('<script>alert(1)</script> is not a heading.', 'Brief');
+
+    expect(metadata.title).toBe('Brief');
+    expect(metadata.content?.text).toContain('<script>alert(1)</script> is not a heading.');
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('reads the front matter and headings', () => {
+    const metadata = parseMarkdown([
+      '---',
+      'title: "Keeping a Starter Alive"',
+      'description: A feeding routine for busy bakers',
+      'author: Ada Baker',
+      'date: 2024-03-01',
+      '---',
+      '# Starter notes',
+      '',
+      '## Feeding',
+      '',
+      'Equal parts **flour** and water.',
+    ].join('\n'), 'starter.md');
+
+    expect(metadata.title).toBe('Keeping a Starter Alive');
+    expect(metadata.metaDescription).toBe('A feeding routine for busy bakers');
+    expect(metadata.content).toMatchObject({ author: 'Ada Baker', publishedAt: '2024-03-01' });
+    expect(metadata.headingsByLevel).toEqual({ h1: ['Starter notes'], h2: ['Feeding'], h3: [] });
+    expect(metadata.content?.text).toContain('Equal parts flour and water.');
+  });
+
+  it('falls back to the first heading, then the file name, for the title', () => {
+    expect(parseMarkdown('Intro\n\n# Starter notes\n\nText.').title).toBe('Starter notes');
+    expect(parseMarkdown('Just some notes.', 'starter-care_notes.md').title).toBe('starter care notes');
+  });
+});
+
+describe('parseDocument', () => {
+  it('reads a DOCX with its title and heading styles', async () => {
+    const docx = createDocx([
+      { style: 'Title', text: 'Keeping a Starter Alive' },
+      { style: 'Heading1', text: 'Feeding' },
+      { text: 'Equal parts flour and water, every day.' },
+      { style: 'Heading2', text: 'Ratios' },
+    ]);
+
+    const metadata = await parseDocument('docx', docx, 'starter.docx');
+
+    expect(metadata.title).toBe('Keeping a Starter Alive');
+    expect(metadata.headingsByLevel).toEqual({ h1: ['Keeping a Starter Alive', 'Feeding'], h2: ['Ratios'], h3: [] });
+    expect(metadata.content?.text).toContain('Equal parts flour and water, every day.');
+  });
+
+  it('rejects a DOCX without text', async () => {
+    await expect(parseDocument('docx', createDocx([]), 'empty.docx'))
+      .rejects.toMatchObject({ code: 'INVALID_DOCUMENT', message: 'empty.docx contains no text' });
+  });
+
+  it('reads a PDF text layer and document info', async () => {
+    const pdf = createPdf(
+      ['Feed the starter every day.', 'Use equal parts flour and water.'],
+      { Title: 'Keeping a Starter Alive', Author: 'Ada Baker', Subject: 'A feeding routine', CreationDate: 'D:20240301080000Z' }
+    );
+
+    const metadata = await parseDocument('pdf', pdf, 'starter.pdf');
+
+    expect(metadata.title).toBe('Keeping a Starter Alive');
+    expect(metadata.metaDescription).toBe('A feeding routine');
+    expect(metadata.content).toMatchObject({ author: 'Ada Baker', publishedAt: '2024-03-01' });
+    expect(metadata.content?.text).toContain('Feed the starter every day.');
+    expect(metadata.content?.text).toContain('Use equal parts flour and water.');
+  });
+
+  it('rejects a PDF without a text layer', async () => {
+    await expect(parseDocument('pdf', createPdf([]), 'scan.pdf'))
+      .rejects.toMatchObject({ code: 'INVALID_DOCUMENT', message: 'scan.pdf has no text layer' });
+  });
+
+  it('rejects files that are not what their type says', async () => {
+    const error = await parseDocument('pdf', Buffer.from('not a pdf'), 'brief.pdf').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(DocumentParseError);
+    expect(error.code).toBe('INVALID_DOCUMENT');
+    expect(error.message).toMatch(/^Could not read brief\.pdf as pdf/);
+  });
+
+  it('rejects files over the size limit before parsing them', async () => {
+    await expect(parseDocument('markdown', Buffer.from('# Starter notes'), 'notes.md', 10))
+      .rejects.toMatchObject({ code: 'FILE_TOO_LARGE', message: 'File is 15 bytes; the limit is 10 bytes' });
+    await expect(parseDocument('markdown', Buffer.from('# Starter notes'), 'notes.md', 15)).resolves.toMatchObject({
+      title: 'Starter notes',
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import mammoth from 'mammoth';
+import { marked } from 'marked';
+import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+import { ExtractedMetadata, parseHtmlSafely } from './metadataExtractor';
+
+/**
+ * Parsers for inspiration that is not a web page: pasted text and uploaded PDF, DOCX and Markdown files
+ * Every format is turned into HTML and run through the page parser, so the summarizer sees the same
+ * title, headings and main content it gets for a URL.
+ */
+
+export const UPLOAD_FILE_TYPES = ['pdf', 'docx', 'markdown'] as const;
+
+export type UploadFileType = typeof UPLOAD_FILE_TYPES[number];
+
+export const DOCUMENT_ERROR_CODES = ['UNSUPPORTED_FILE_TYPE', 'INVALID_DOCUMENT', 'FILE_TOO_LARGE'] as const;
+
+export type DocumentErrorCode = typeof DOCUMENT_ERROR_CODES[number];
+
+/**
+ * A file that cannot be used as inspiration
+ */
+export class DocumentParseError extends Error {
+  constructor(
+    readonly code: DocumentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
+
+/**
+ * Largest file accepted as inspiration
+ */
+export const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 10 * 1024 * 1024;
+
+const FILE_TYPES_BY_EXTENSION: Record<string, UploadFileType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+};
+
+const FILE_TYPES_BY_MEDIA_TYPE: Record<string, UploadFileType> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+};
+
+// Single-line paragraphs up to this length without closing punctuation are read as headings
+const TEXT_HEADING_MAX_CHARS = 80;
+
+/**
+ * File type from the extension, falling back to the media type
+ */
+export function detectFileType(fileName: string, contentType?: string): UploadFileType | undefined {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  return FILE_TYPES_BY_EXTENSION[extension] ||
+    FILE_TYPES_BY_MEDIA_TYPE[(contentType || '').split(';')[0].trim().toLowerCase()];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+export interface DocumentDetails {
+  title?: string;
+  description?: string;
+  author?: string;
+  publishedAt?: string;
+}
+
+/**
+ * Wrap a document body in a page with the document's details as the meta tags the page parser reads
+ */
+function toPage(bodyHtml: string, details: DocumentDetails): string {
+  const meta = [
+    details.title ? `<title>${escapeHtml(details.title)}</title>` : '',
+    details.description ? `<meta name="description" content="${escapeHtml(details.description)}">` : '',
+    details.author ? `<meta name="author" content="${escapeHtml(details.author)}">` : '',
+    details.publishedAt ? `<meta property="article:published_time" content="${escapeHtml(details.publishedAt)}">` : '',
+  ].join('');
+  return `<html><head>${meta}</head><body><article>${bodyHtml}</article></body></html>`;
+}
+
+/**
+ * Parse an HTML fragment (e.g. a feed entry's content) as a page with the given details
+ */
+export function parseFragment(bodyHtml: string, details: DocumentDetails, url?: string): ExtractedMetadata {
+  return parseHtmlSafely(toPage(bodyHtml, details), url);
+}
+
+/**
+ * File name without extension, as a last-resort title
+ */
+function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+}
+
+/**
+ * Pasted text, e.g. an internal brief
+ * Paragraphs are separated by blank lines; short single-line paragraphs without closing punctuation
+ * are headings, and the first of them is the title unless one is given
+ */
+export function parseText(text: string, title?: string): ExtractedMetadata {
+  const paragraphs = text
+    .split(/\r?\n\s*\r?\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+  const isHeading = (paragraph: string) =>
+    !paragraph.includes('\n') && paragraph.length <= TEXT_HEADING_MAX_CHARS && !/[.!?:;,]$/.test(paragraph);
+
+  let documentTitle = title?.trim();
+  if (!documentTitle && paragraphs.length > 1 && isHeading(paragraphs[0])) {
+    documentTitle = paragraphs.shift();
+  }
+
+  const body = paragraphs
+    .map(paragraph => isHeading(paragraph)
+      ? `<h2>${escapeHtml(paragraph)}</h2>`
+      : `<p>${escapeHtml(paragraph.replace(/\s*\n\s*/g, ' '))}</p>`)
+    .join('\n');
+  const heading = documentTitle ? `<h1>${escapeHtml(documentTitle)}</h1>\n` : '';
+  return parseHtmlSafely(toPage(heading + body, { title: documentTitle }));
+}
+
+/**
+ * Leading `---` YAML front matter as flat key/value pairs, plus the rest of the document
+ */
+function splitFrontMatter(markdown: string): { fields: Record<string, string>; body: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { fields: {}, body: markdown };
+  }
+
+  const fields: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (field && field[2]) {
+      fields[field[1].toLowerCase()] = field[2].replace(/^["']|["']$/g, '').trim();
+    }
+  });
+  return { fields, body: markdown.slice(match[0].length) };
+}
+
+/**
+ * Markdown notes; front matter `title`, `description`, `author` and `date` are used when present
+ */
+export function parseMarkdown(markdown: string, fileName = ''): ExtractedMetadata {
+  const { fields, body } = splitFrontMatter(markdown);
+  const html = marked.parse(body, { async: false }) as string;
+  const firstHeading = body.match(/^#\s+(.+)$/m)?.[1].trim();
+
+  return parseHtmlSafely(toPage(html, {
+    title: fields.title || firstHeading || titleFromFileName(fileName) || undefined,
+    description: fields.description || fields.summary,
+    author: fields.author,
+    publishedAt: fields.date,
+  }));
+}
+
+/**
+ * Word document; headings come from the Heading 1-3 (and Title) paragraph styles
+ */
+export async function parseDocx(buffer: Buffer, fileName = ''): Promise<ExtractedMetadata> {
+  const { value: html } = await mammoth.convertToHtml({ buffer }, {
+    styleMap: ["p[style-name='Title'] => h1:fresh", "p[style-name='Subtitle'] => h2:fresh"],
+  });
+  if (!html.trim()) {
+    throw new DocumentParseError('INVALID_DOCUMENT', `${fileName || 'The document'} contains no text`);
+  }
+
+  const firstHeading = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/)?.[1].replace(/<[^>]+>/g, '').trim();
+  return parseHtmlSafely(toPage(html, { title: firstHeading || titleFromFileName(fileName) || undefined }));
+}
+
+/**
+ * PDF date string (D:YYYYMMDDHHmmSS...) as an ISO date
+ */
+function toIsoDate(pdfDate: unknown): string | undefined {
+  const match = typeof pdfDate === 'string' ? pdfDate.match(/^D:(\d{4})(\d{2})?(\d{2})?/) : null;
+  return match ? [match[1], match[2] || '01', match[3] || '01'].join('-') : undefined;
+}
+
+interface PdfOutlineItem {
+  title: string;
+  items: PdfOutlineItem[];
+}
+
+/**
+ * Bookmarks as headings: top-level entries as h2, nested ones as h3
+ */
+function outlineToHtml(items: PdfOutlineItem[], depth = 2): string {
+  return items
+    .map(item => `<h${Math.min(depth, 3)}>${escapeHtml(item.title)}</h${Math.min(depth, 3)}>` +
+      outlineToHtml(item.items || [], depth + 1))
+    .join('\n');
+}
+
+/**
+ * PDF whitepaper; the title, author and creation date come from the document info, headings
+ * from its bookmarks, and the body from the text layer (scanned PDFs without one are rejected)
+ */
+export async function parsePdf(buffer: Buffer, fileName = ''): Promise<ExtractedMetadata> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: true });
+  if (!text.trim()) {
+    throw new DocumentParseError('INVALID_DOCUMENT', `${fileName || 'The PDF'} has no text layer`);
+  }
+
+  const { info } = await getMeta(pdf);
+  const outline = ((await pdf.getOutline()) || []) as PdfOutlineItem[];
+  const title = (typeof info.Title === 'string' && info.Title.trim()) ||
+    text.split('\n').map(line => line.trim()).find(Boolean)?.slice(0, 200) ||
+    titleFromFileName(fileName);
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.replace(/\s*\n\s*/g, ' ').trim())}</p>`)
+    .join('\n');
+  return parseHtmlSafely(toPage(`<h1>${escapeHtml(title)}</h1>\n${outlineToHtml(outline)}\n${paragraphs}`, {
+    title,
+    description: typeof info.Subject === 'string' ? info.Subject : undefined,
+    author: typeof info.Author === 'string' ? info.Author : undefined,
+    publishedAt: toIsoDate(info.CreationDate),
+  }));
+}
+
+/**
+ * Parse an uploaded file of a supported type
+ * Files over maxBytes throw DocumentParseError with FILE_TOO_LARGE, unreadable ones with INVALID_DOCUMENT
+ */
+export async function parseDocument(
+  type: UploadFileType,
+  buffer: Buffer,
+  fileName: string,
+  maxBytes: number = UPLOAD_MAX_BYTES
+): Promise<ExtractedMetadata> {
+  if (buffer.length > maxBytes) {
+    throw new DocumentParseError('FILE_TOO_LARGE', `File is ${buffer.length} bytes; the limit is ${maxBytes} bytes`);
+  }
+
+  try {
+    switch (type) {
+      case 'pdf':
+        return await parsePdf(buffer, fileName);
+      case 'docx':
+        return await parseDocx(buffer, fileName);
+      case 'markdown':
+        return parseMarkdown(buffer.toString('utf8'), fileName);
+    }
+  } catch (error) {
+    if (error instanceof DocumentParseError) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new DocumentParseError('INVALID_DOCUMENT', `Could not read ${fileName} as ${type}: ${errorMessage}`);
+  }
+}
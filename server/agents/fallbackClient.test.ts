@@ -0,0 +1,223 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, createFallbackClient, FallbackLLMClient, getCircuitBreaker } from './fallbackClient';
+import { ChatOptions, LLMClient, LLMMessage } from './llmClient';
+import { MockLLMClient } from './mockClient';
+
+const messages: LLMMessage[] = [{ role: 'user', content: 'Extract the concepts' }];
+const chatOptions = { responseFormat: { name: 'concept_extraction', schema: {} } };
+const options = { timeoutMs: 1000, maxRetries: 1, backoffMs: 0 };
+
+// Breakers are shared per provider/model, so every test uses its own model names
+let modelCount = 0;
+const uniqueModel = (name: string) => `${name}-${++modelCount}`;
+
+/**
+ * Client that streams the tokens one every intervalMs, stopping when its signal is aborted
+ */
+function streamingClient(model: string, tokens: string[], intervalMs: number): LLMClient {
+  const wait = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, intervalMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Stream aborted'));
+    }, { once: true });
+  });
+
+  return {
+    provider: 'stream-test',
+    model,
+    checkHealth: async () => true,
+    chat: async () => ({ content: tokens.join('') }),
+    async chatStream(_messages: LLMMessage[], onToken: (token: string) => void, streamOptions: ChatOptions = {}) {
+      for (const token of tokens) {
+        await wait(streamOptions.signal);
+        onToken(token);
+      }
+      return { content: tokens.join('') };
+    },
+  };
+}
+
+describe('createFallbackClient', () => {
+  it('wraps a single client', async () => {
+    const client = new MockLLMClient({ model: uniqueModel('solo') });
+    const fallback = createFallbackClient([client], options);
+
+    expect(fallback).toBeInstanceOf(FallbackLLMClient);
+    expect(fallback.model).toBe(client.model);
+    const response = await fallback.chat(messages, chatOptions);
+    expect(response.provider).toBe('mock');
+  });
+});
+
+describe('FallbackLLMClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries a failing model and then moves to the next one', async () => {
+    const primary = new MockLLMClient({ model: uniqueModel('primary'), failures: { concept_extraction: {} } });
+    const backup = new MockLLMClient({ model: uniqueModel('backup') });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await createFallbackClient([primary, backup], options).chat(messages, chatOptions);
+
+    expect(primary.callCount('concept_extraction')).toBe(2);
+    expect(backup.callCount('concept_extraction')).toBe(1);
+    expect(response.model).toBe(backup.model);
+  });
+
+  it('reports every failure when no model succeeds', async () => {
+    const primary = new MockLLMClient({ model: uniqueModel('primary'), failures: { concept_extraction: { message: 'overloaded' } } });
+    const backup = new MockLLMClient({ model: uniqueModel('backup'), failures: { concept_extraction: { message: 'rate limited' } } });
+
+    await expect(createFallbackClient([primary, backup], { ...options, maxRetries: 0 }).chat(messages, chatOptions))
+      .rejects.toThrow(/All LLM providers failed: .*overloaded.*rate limited/);
+  });
+
+  it('skips a model whose circuit is open', async () => {
+    const primary = new MockLLMClient({ model: uniqueModel('primary') });
+    const backup = new MockLLMClient({ model: uniqueModel('backup') });
+    const breaker = getCircuitBreaker(`mock:${primary.model}`);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await createFallbackClient([primary, backup], options).chat(messages, chatOptions);
+
+    expect(primary.callCount('concept_extraction')).toBe(0);
+    expect(response.model).toBe(backup.model);
+  });
+
+  it('aborts the request of an attempt that times out', async () => {
+    const primary = new MockLLMClient({ model: uniqueModel('slow'), latencyMs: 5000 });
+    const backup = new MockLLMClient({ model: uniqueModel('backup') });
+    const chat = vi.spyOn(primary, 'chat');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await createFallbackClient([primary, backup], { ...options, timeoutMs: 20, maxRetries: 0 })
+      .chat(messages, chatOptions);
+
+    expect(response.model).toBe(backup.model);
+    expect(chat).toHaveBeenCalledTimes(1);
+    const signal = chat.mock.calls[0][1]?.signal;
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(Error);
+    expect((signal?.reason as Error).message).toMatch(/timed out after 20ms/);
+  });
+
+  it('keeps a stream that outlives the timeout alive while tokens arrive', async () => {
+    const tokens = Array.from({ length: 10 }, (_, index) => `token${index} `);
+    const onRestart = vi.fn();
+    const received: string[] = [];
+
+    const response = await createFallbackClient([streamingClient(uniqueModel('stream'), tokens, 15)], { ...options, timeoutMs: 50 })
+      .chatStream(messages, token => received.push(token), { ...chatOptions, onRestart });
+
+    expect(response.content).toBe(tokens.join(''));
+    expect(received).toEqual(tokens);
+    expect(onRestart).not.toHaveBeenCalled();
+  });
+
+  it('times out a stream that stalls between tokens', async () => {
+    const stalled = streamingClient(uniqueModel('stalled'), ['Keeping ', 'a starter'], 200);
+    const backup = new MockLLMClient({ model: uniqueModel('backup') });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await createFallbackClient([stalled, backup], { ...options, timeoutMs: 30, maxRetries: 0 })
+      .chatStream(messages, () => {}, chatOptions);
+
+    expect(response.model).toBe(backup.model);
+  });
+
+  it('moves on without retrying or opening the circuit when a request is rejected', async () => {
+    const primary = new MockLLMClient({
+      model: uniqueModel('primary'),
+      failures: { concept_extraction: { status: 401, message: 'invalid API key' } },
+    });
+    const backup = new MockLLMClient({ model: uniqueModel('backup') });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fallback = createFallbackClient([primary, backup], { ...options, maxRetries: 2 });
+
+    for (let call = 0; call < 4; call++) {
+      expect((await fallback.chat(messages, chatOptions)).model).toBe(backup.model);
+    }
+
+    expect(primary.callCount('concept_extraction')).toBe(4);
+    expect(getCircuitBreaker(`mock:${primary.model}`).state).toBe('closed');
+  });
+
+  it('still retries rate-limited requests', async () => {
+    const primary = new MockLLMClient({
+      model: uniqueModel('primary'),
+      failures: { concept_extraction: { times: 1, status: 429, message: 'rate limited' } },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await createFallbackClient([primary], options).chat(messages, chatOptions);
+
+    expect(response.model).toBe(primary.model);
+    expect(primary.callCount('concept_extraction')).toBe(2);
+  });
+
+  it('stops when the caller aborts', async () => {
+    const primary = new MockLLMClient({ model: uniqueModel('primary') });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createFallbackClient([primary], options).chat(messages, { ...chatOptions, signal: controller.signal }))
+      .rejects.toThrow('LLM request aborted');
+    expect(primary.callCount('concept_extraction')).toBe(0);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive failures and closes after a successful trial call', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('reopens when the trial call fails', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    vi.advanceTimersByTime(999);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+});
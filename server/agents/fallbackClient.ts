@@ -0,0 +1,301 @@
+import { ChatOptions, isClientRequestError, LLMClient, LLMMessage, LLMResponse } from './llmClient';
+
+/**
+ * One provider/model in a fallback chain
+ */
+export interface FallbackCandidate {
+  client: LLMClient;
+  timeoutMs?: number; // Per-attempt timeout, between tokens for streams (default: FallbackOptions.timeoutMs)
+}
+
+export interface FallbackOptions {
+  timeoutMs: number; // Wall-clock limit for chat; for chatStream, the longest wait for the next token
+  maxRetries: number; // Retries per candidate before moving to the next one
+  backoffMs: number; // Base delay, doubled after each failed attempt
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long an open circuit rejects calls before a trial call is allowed
+}
+
+export const DEFAULT_FALLBACK_OPTIONS: FallbackOptions = {
+  timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 60000,
+  maxRetries: process.env.LLM_MAX_RETRIES !== undefined ? Number(process.env.LLM_MAX_RETRIES) : 1,
+  backoffMs: 500,
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: Number(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD) || 3,
+  cooldownMs: Number(process.env.LLM_CIRCUIT_COOLDOWN_MS) || 30000,
+};
+
+/**
+ * Circuit breaker for one provider/model
+ * Closed: calls pass. Open: calls are rejected until the cooldown ends.
+ * Half-open: one trial call decides whether the circuit closes again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a call may go through now; in half-open state only one trial call is let through
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * End a call that says nothing about the provider's health (e.g. a rejected credential)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+// Breakers are shared by every chain that uses the same provider/model, so an outage
+// detected by one execution is respected by the others
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(key: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    circuitBreakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+function clientKey(client: LLMClient): string {
+  return `${client.provider || 'unknown'}:${client.model || 'unknown'}`;
+}
+
+/**
+ * Run one attempt with its own AbortSignal; on timeout the signal is aborted so the provider
+ * cancels the HTTP request instead of leaving it running. Aborting the caller's signal aborts it too.
+ * Calling keepAlive restarts the timer, so a stream only times out when it stalls.
+ */
+function withTimeout<T>(
+  call: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  timeoutMs: number,
+  label: string,
+  callerSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abortFromCaller = () => controller.abort(callerSignal?.reason);
+  callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout>;
+    const startTimer = () => {
+      timer = setTimeout(() => {
+        const error = new Error(`${label} timed out after ${timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    };
+    const keepAlive = () => {
+      if (!controller.signal.aborted) {
+        clearTimeout(timer);
+        startTimer();
+      }
+    };
+
+    startTimer();
+    call(controller.signal, keepAlive).then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  }).finally(() => callerSignal?.removeEventListener('abort', abortFromCaller));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Composite LLM client that tries an ordered chain of providers/models
+ * Each candidate gets maxRetries retries with exponential backoff, and candidates whose
+ * circuit is open are skipped. Client errors (4xx other than 408/429) are neither retried nor
+ * counted by the breaker; the next candidate is tried. Responses name the candidate that served them.
+ */
+export class FallbackLLMClient implements LLMClient {
+  private candidates: FallbackCandidate[];
+  private options: FallbackOptions;
+
+  constructor(candidates: FallbackCandidate[], options: Partial<FallbackOptions> = {}) {
+    if (candidates.length === 0) {
+      throw new Error('A fallback chain needs at least one client');
+    }
+    this.candidates = candidates;
+    this.options = { ...DEFAULT_FALLBACK_OPTIONS, ...options };
+  }
+
+  /**
+   * Provider and model of the primary candidate
+   */
+  get provider(): string | undefined {
+    return this.candidates[0].client.provider;
+  }
+
+  get model(): string | undefined {
+    return this.candidates[0].client.model;
+  }
+
+  /**
+   * Healthy if any candidate with a closed circuit is healthy
+   */
+  async checkHealth(): Promise<boolean> {
+    for (const { client } of this.candidates) {
+      if (getCircuitBreaker(clientKey(client)).state === 'open') {
+        continue;
+      }
+      if (await client.checkHealth()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async chat(messages: LLMMessage[], options?: ChatOptions): Promise<LLMResponse> {
+    return this.run((client, signal) => client.chat(messages, { ...options, signal }), options?.signal);
+  }
+
+  /**
+   * Stream from the first candidate that succeeds
+   * The timeout applies between tokens, so a long answer that keeps streaming is never cut off.
+   * Candidates without streaming support deliver their whole response as one token;
+   * options.onRestart is called before a new attempt if the previous one already streamed text
+   */
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void,
+    options: ChatOptions = {}
+  ): Promise<LLMResponse> {
+    let streamed = false;
+    let currentAttempt = 0;
+    return this.run(async (client, signal, keepAlive) => {
+      if (streamed) {
+        options.onRestart?.();
+        streamed = false;
+      }
+
+      // Tokens from an attempt that timed out may keep arriving; only the current attempt is relayed
+      const attempt = ++currentAttempt;
+      const relay = (token: string) => {
+        if (attempt === currentAttempt) {
+          keepAlive();
+          streamed = true;
+          onToken(token);
+        }
+      };
+
+      if (!client.chatStream) {
+        const response = await client.chat(messages, { ...options, signal });
+        relay(response.content);
+        return response;
+      }
+      return client.chatStream(messages, relay, { ...options, signal });
+    }, options.signal);
+  }
+
+  private async run(
+    call: (client: LLMClient, signal: AbortSignal, keepAlive: () => void) => Promise<LLMResponse>,
+    callerSignal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const failures: string[] = [];
+
+    for (const candidate of this.candidates) {
+      const { client } = candidate;
+      const key = clientKey(client);
+      const breaker = getCircuitBreaker(key);
+      const timeoutMs = candidate.timeoutMs || this.options.timeoutMs;
+
+      for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+        if (callerSignal?.aborted) {
+          throw new Error(`LLM request aborted: ${failures.join('; ') || 'before the first attempt'}`);
+        }
+        if (!breaker.tryAcquire()) {
+          failures.push(`${key}: circuit open`);
+          break;
+        }
+
+        try {
+          const response = await withTimeout(
+            (signal, keepAlive) => call(client, signal, keepAlive),
+            timeoutMs,
+            key,
+            callerSignal
+          );
+          breaker.recordSuccess();
+          if (failures.length > 0) {
+            console.warn(`[FallbackClient] Served by ${key} after: ${failures.join('; ')}`);
+          }
+          return { ...response, provider: client.provider, model: client.model };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          failures.push(`${key}: ${errorMessage}`);
+
+          // A rejected request or credential is not the provider's fault: the breaker is shared with
+          // every other execution using this model, and sending the same request again would fail the same way
+          if (isClientRequestError(error)) {
+            breaker.release();
+            break;
+          }
+          breaker.recordFailure();
+
+          if (attempt < this.options.maxRetries) {
+            await sleep(this.options.backoffMs * Math.pow(2, attempt));
+          }
+        }
+      }
+    }
+
+    throw new Error(`All LLM providers failed: ${failures.join('; ')}`);
+  }
+}
+
+/**
+ * Wrap a chain of clients in a FallbackLLMClient
+ * A single client is wrapped as well, so it still gets the timeout, retries and circuit breaker.
+ */
+export function createFallbackClient(clients: LLMClient[], options: Partial<FallbackOptions> = {}): FallbackLLMClient {
+  return new FallbackLLMClient(clients.map(client => ({ client })), options);
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { parseFeed } from './feedParser';
+
+describe('parseFeed', () => {
+  it('reads RSS items with their full content', () => {
+    const feed = parseFeed(`<?xml version="1.0"?>
+      <rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel>
+          <title>Bakery Blog</title>
+          <item>
+            <title>Keeping a Starter Alive</title>
+            <link>https://bakery.example.com/starter</link>
+            <dc:creator>Ada Baker</dc:creator>
+            <pubDate>Fri, 01 Mar 2024 08:00:00 GMT</pubDate>
+            <description><![CDATA[<p>A feeding <b>routine</b>.</p>]]></description>
+            <content:encoded><![CDATA[<h2>Feeding</h2><p>Equal parts flour and water.</p>]]></content:encoded>
+          </item>
+          <item>
+            <title>Relative links are skipped</title>
+            <link>/hydration</link>
+          </item>
+          <item>
+            <guid>https://bakery.example.com/crumb</guid>
+          </item>
+        </channel>
+      </rss>`);
+
+    expect(feed).toEqual({
+      kind: 'rss',
+      title: 'Bakery Blog',
+      entries: [
+        {
+          url: 'https://bakery.example.com/starter',
+          title: 'Keeping a Starter Alive',
+          author: 'Ada Baker',
+          publishedAt: 'Fri, 01 Mar 2024 08:00:00 GMT',
+          summary: 'A feeding routine.',
+          contentHtml: '<h2>Feeding</h2><p>Equal parts flour and water.</p>',
+        },
+        {
+          url: 'https://bakery.example.com/crumb',
+          title: undefined,
+          author: undefined,
+          publishedAt: undefined,
+          summary: undefined,
+          contentHtml: undefined,
+        },
+      ],
+    });
+  });
+
+  it('reads Atom entries using their alternate link', () => {
+    const feed = parseFeed(`<?xml version="1.0"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Bakery Blog</title>
+        <entry>
+          <title>Keeping a Starter Alive</title>
+          <link rel="self" href="https://bakery.example.com/feed/starter"/>
+          <link href="https://bakery.example.com/starter"/>
+          <author><name>Ada Baker</name></author>
+          <updated>2024-03-01T08:00:00Z</updated>
+          <summary>A feeding routine.</summary>
+          <content type="html">&lt;p&gt;Equal parts flour and water.&lt;/p&gt;</content>
+        </entry>
+        <entry>
+          <title>Plain text only</title>
+          <link href="https://bakery.example.com/hydration"/>
+          <content type="text">Keep it wet.</content>
+        </entry>
+      </feed>`);
+
+    expect(feed.kind).toBe('atom');
+    expect(feed.title).toBe('Bakery Blog');
+    expect(feed.entries).toEqual([
+      {
+        url: 'https://bakery.example.com/starter',
+        title: 'Keeping a Starter Alive',
+        author: 'Ada Baker',
+        publishedAt: '2024-03-01T08:00:00Z',
+        summary: 'A feeding routine.',
+        contentHtml: '<p>Equal parts flour and water.</p>',
+      },
+      expect.objectContaining({ url: 'https://bakery.example.com/hydration', contentHtml: undefined }),
+    ]);
+  });
+
+  it('reads JSON Feed 1.1 and 1.0 items', () => {
+    const feed = parseFeed(JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'Bakery Blog',
+      items: [
+        {
+          id: '1',
+          url: 'https://bakery.example.com/starter',
+          title: 'Keeping a Starter Alive',
+          authors: [{ name: 'Ada Baker' }],
+          date_published: '2024-03-01T08:00:00Z',
+          summary: 'A feeding routine.',
+          content_html: '<p>Equal parts flour and water.</p>',
+        },
+        { id: '2', external_url: 'https://example.org/flour', content_text: 'Which flour to use.', author: { name: 'Sam Crumb' } },
+        { id: '3', url: 'hydration', title: 'Relative URLs are skipped' },
+      ],
+    }));
+
+    expect(feed).toEqual({
+      kind: 'json',
+      title: 'Bakery Blog',
+      entries: [
+        {
+          url: 'https://bakery.example.com/starter',
+          title: 'Keeping a Starter Alive',
+          author: 'Ada Baker',
+          publishedAt: '2024-03-01T08:00:00Z',
+          summary: 'A feeding routine.',
+          contentHtml: '<p>Equal parts flour and water.</p>',
+        },
+        {
+          url: 'https://example.org/flour',
+          title: undefined,
+          author: 'Sam Crumb',
+          publishedAt: undefined,
+          summary: 'Which flour to use.',
+          contentHtml: undefined,
+        },
+      ],
+    });
+  });
+
+  it('reads sitemaps and sitemap indexes', () => {
+    const sitemap = parseFeed(`<?xml version="1.0"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://bakery.example.com/starter</loc><lastmod>2024-03-01</lastmod></url>
+        <url><loc>https://bakery.example.com/hydration</loc></url>
+      </urlset>`);
+    const index = parseFeed(`<?xml version="1.0"?>
+      <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://bakery.example.com/sitemap-posts.xml</loc></sitemap>
+      </sitemapindex>`);
+
+    expect(sitemap).toEqual({
+      kind: 'sitemap',
+      entries: [
+        { url: 'https://bakery.example.com/starter', publishedAt: '2024-03-01' },
+        { url: 'https://bakery.example.com/hydration', publishedAt: undefined },
+      ],
+    });
+    expect(index.kind).toBe('sitemap-index');
+    expect(index.entries.map(entry => entry.url)).toEqual(['https://bakery.example.com/sitemap-posts.xml']);
+  });
+
+  it('caps the number of entries', () => {
+    const urls = Array.from({ length: 150 }, (_, index) => `<url><loc>https://bakery.example.com/${index}</loc></url>`);
+    expect(parseFeed(`<urlset>${urls.join('')}</urlset>`).entries).toHaveLength(100);
+  });
+
+  it.each([
+    ['an HTML page', '<html><body><p>Not a feed</p></body></html>'],
+    ['JSON that is not a JSON Feed', '{"items": []}'],
+    ['malformed JSON', '{"version": "https://jsonfeed.org/version/1.1",'],
+  ])('rejects %s', (_case, document) => {
+    expect(() => parseFeed(document)).toThrow('Not an RSS, Atom, JSON Feed or sitemap document');
+  });
+});
@@ -0,0 +1,159 @@
+import * as cheerio from 'cheerio';
+import { DEFAULT_FETCH_POLICY, FetchPolicy, fetchPage } from './safeFetch';
+
+/**
+ * RSS, Atom, JSON Feed and sitemap parsing, so editors can pick an inspiration page from a site's feed
+ * instead of pasting its URL
+ */
+
+export type FeedKind = 'rss' | 'atom' | 'json' | 'sitemap' | 'sitemap-index';
+
+export interface FeedEntry {
+  url: string;
+  title?: string;
+  author?: string;
+  publishedAt?: string;
+  summary?: string; // Plain text
+  contentHtml?: string; // Full article body, when the feed carries one (content:encoded, Atom content or content_html)
+}
+
+export interface ParsedFeed {
+  kind: FeedKind;
+  url?: string; // URL the feed was fetched from
+  title?: string;
+  entries: FeedEntry[]; // In feed order; for a sitemap index, the child sitemaps
+}
+
+// Feeds list their newest entries first; sitemaps can hold 50,000 URLs
+const MAX_FEED_ENTRIES = 100;
+
+const FEED_FETCH_POLICY: FetchPolicy = {
+  ...DEFAULT_FETCH_POLICY,
+  contentTypes: ['application/rss+xml', 'application/atom+xml', 'application/xml', 'text/xml', 'application/feed+json', 'application/json'],
+};
+
+function textOf(value: string): string | undefined {
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Plain text of an HTML fragment, as used in RSS descriptions
+ */
+function stripHtml(html: string): string | undefined {
+  return textOf(cheerio.load(html).root().text());
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === 'string' ? textOf(value) : undefined;
+}
+
+/**
+ * JSON Feed 1.0/1.1 (https://jsonfeed.org), or undefined when the text is not one
+ */
+function parseJsonFeed(text: string): ParsedFeed | undefined {
+  let feed: any;
+  try {
+    feed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (typeof feed?.version !== 'string' || !feed.version.startsWith('https://jsonfeed.org/version/') || !Array.isArray(feed.items)) {
+    return undefined;
+  }
+
+  const entries = feed.items.map((item: any) => {
+    // 1.1 lists authors; 1.0 had a single author
+    const author = Array.isArray(item?.authors) ? item.authors[0] : item?.author;
+    const contentText = stringField(item?.content_text);
+    return {
+      url: stringField(item?.url) || stringField(item?.external_url) || '',
+      title: stringField(item?.title),
+      author: stringField(author?.name),
+      publishedAt: stringField(item?.date_published) || stringField(item?.date_modified),
+      summary: stringField(item?.summary) || contentText,
+      contentHtml: stringField(item?.content_html) ? item.content_html : undefined,
+    };
+  });
+  return { kind: 'json', title: stringField(feed.title), entries: toEntries(entries) };
+}
+
+/**
+ * Parse an RSS 2.0, Atom, JSON Feed or sitemap document
+ * Throws when the document is none of these
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  if (/^\s*\{/.test(xml)) {
+    const jsonFeed = parseJsonFeed(xml);
+    if (jsonFeed) {
+      return jsonFeed;
+    }
+    throw new Error('Not an RSS, Atom, JSON Feed or sitemap document');
+  }
+
+  const $ = cheerio.load(xml, { xml: true });
+
+  if ($('rss > channel, rdf\\:RDF').length > 0) {
+    const entries = $('item').toArray().map(item => {
+      const $item = $(item);
+      const description = $item.children('description').first().text();
+      const content = $item.children('content\\:encoded').first().text();
+      return {
+        url: textOf($item.children('link').first().text()) || textOf($item.children('guid').first().text()) || '',
+        title: textOf($item.children('title').first().text()),
+        author: textOf($item.children('dc\\:creator, author').first().text()),
+        publishedAt: textOf($item.children('pubDate, dc\\:date').first().text()),
+        summary: description ? stripHtml(description) : undefined,
+        contentHtml: textOf(content) ? content : undefined,
+      };
+    });
+    return { kind: 'rss', title: textOf($('channel > title').first().text()), entries: toEntries(entries) };
+  }
+
+  if ($('feed').length > 0) {
+    const entries = $('feed > entry').toArray().map(entry => {
+      const $entry = $(entry);
+      const links = $entry.children('link');
+      const link = links.filter((_, el) => ($(el).attr('rel') || 'alternate') === 'alternate').first();
+      const content = $entry.children('content').first();
+      const summary = $entry.children('summary').first().text();
+      return {
+        url: (link.length ? link : links.first()).attr('href') || '',
+        title: textOf($entry.children('title').first().text()),
+        author: textOf($entry.find('author > name').first().text()),
+        publishedAt: textOf($entry.children('published, updated').first().text()),
+        summary: summary ? stripHtml(summary) : undefined,
+        contentHtml: content.attr('type') !== 'text' && textOf(content.text()) ? content.text() : undefined,
+      };
+    });
+    return { kind: 'atom', title: textOf($('feed > title').first().text()), entries: toEntries(entries) };
+  }
+
+  if ($('urlset, sitemapindex').length > 0) {
+    const isIndex = $('sitemapindex').length > 0;
+    const entries = $(isIndex ? 'sitemapindex > sitemap' : 'urlset > url').toArray().map(node => ({
+      url: textOf($(node).children('loc').first().text()) || '',
+      publishedAt: textOf($(node).children('lastmod').first().text()),
+    }));
+    return { kind: isIndex ? 'sitemap-index' : 'sitemap', entries: toEntries(entries) };
+  }
+
+  throw new Error('Not an RSS, Atom, JSON Feed or sitemap document');
+}
+
+/**
+ * Drop entries without an absolute http(s) URL and cap the list
+ */
+function toEntries(entries: FeedEntry[]): FeedEntry[] {
+  return entries
+    .filter(entry => /^https?:\/\//i.test(entry.url))
+    .slice(0, MAX_FEED_ENTRIES);
+}
+
+/**
+ * Fetch and parse a feed or sitemap under the fetch policy (private addresses, robots.txt, size limit)
+ */
+export async function fetchFeed(feedUrl: string): Promise<ParsedFeed> {
+  const page = await fetchPage(feedUrl, FEED_FETCH_POLICY);
+  return { ...parseFeed(page.html), url: page.url };
+}
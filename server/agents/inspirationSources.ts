@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { extractMetadata, ExtractedMetadata, PageSource } from './metadataExtractor';
+import { parseFragment, parseText } from './documentParsers';
+import { fetchFeed } from './feedParser';
+import { getFetchBlockedError } from './safeFetch';
+import { getInspirationUpload } from '../inspirationUploads';
+
+/**
+ * What an article can be inspired by: a web page, pasted text, an uploaded file or an entry of a feed
+ * Every kind is extracted to the same metadata, so the rest of the pipeline does not care which it was.
+ */
+export type InspirationSource =
+  | { type: 'url'; url: string }
+  | { type: 'text'; text: string; title?: string }
+  | { type: 'file'; uploadId: string } // See POST /api/workflow/uploads
+  | { type: 'feed'; feedUrl: string; entryUrl: string }; // An RSS/Atom/JSON Feed item or sitemap URL
+
+export type InspirationSourceType = InspirationSource['type'];
+
+// Feed entries whose full content is shorter than this are fetched from their page instead
+const MIN_FEED_CONTENT_WORDS = 50;
+
+/**
+ * Stable reference to a source, used where a URL is expected (context sources, concept attributions,
+ * the execution's inspiration URL): the page URL for pages and feed entries, `upload:<id>` for files
+ * and `text:<hash>` for pasted text
+ */
+export function inspirationSourceRef(source: InspirationSource): string {
+  switch (source.type) {
+    case 'url':
+      return source.url;
+    case 'feed':
+      return source.entryUrl;
+    case 'file':
+      return `upload:${source.uploadId}`;
+    case 'text':
+      return `text:${crypto.createHash('sha1').update(source.text).digest('hex').slice(0, 12)}`;
+  }
+}
+
+/**
+ * A feed entry's own content when it carries the full article, otherwise the entry's page
+ * Feeds that cannot be read (other than for fetch policy reasons) fall back to the page as well.
+ */
+async function extractFeedEntry(feedUrl: string, entryUrl: string): Promise<ExtractedMetadata> {
+  try {
+    const feed = await fetchFeed(feedUrl);
+    const entry = feed.entries.find(candidate => candidate.url === entryUrl);
+    if (entry?.contentHtml) {
+      const metadata = parseFragment(entry.contentHtml, {
+        title: entry.title,
+        description: entry.summary,
+        author: entry.author,
+        publishedAt: entry.publishedAt,
+      }, entryUrl);
+      if ((metadata.content?.wordCount || 0) >= MIN_FEED_CONTENT_WORDS) {
+        return metadata;
+      }
+    }
+  } catch (error) {
+    if (getFetchBlockedError(error)) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[InspirationSources] Could not read feed ${feedUrl}, fetching the entry page instead: ${errorMessage}`);
+  }
+
+  return extractMetadata(entryUrl);
+}
+
+/**
+ * Extract metadata from any kind of inspiration source
+ * `pageSource` (pasted or saved HTML) only applies to URL sources.
+ */
+export async function extractInspiration(source: InspirationSource, pageSource?: PageSource): Promise<ExtractedMetadata> {
+  switch (source.type) {
+    case 'url':
+      return extractMetadata(source.url, pageSource);
+    case 'text':
+      return parseText(source.text, source.title);
+    case 'file': {
+      const upload = getInspirationUpload(source.uploadId);
+      if (!upload) {
+        throw new Error(`Upload ${source.uploadId} not found`);
+      }
+      return upload.metadata;
+    }
+    case 'feed':
+      return extractFeedEntry(source.feedUrl, source.entryUrl);
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { toJsonSchemaResponseFormat } from './llmClient';
+import { toResponseFormat } from './structuredOutput';
+import { outlineSchema } from './outlineGenerator';
+import { draftSchema } from './draftGenerator';
+import { reviewerOutputSchema } from './reviewerAgent';
+import { conceptExtractionSchema, mergeConcepts } from './metadataSummarizer';
+
+const UNSUPPORTED_KEYWORDS = [
+  'minLength', 'maxLength', 'pattern', 'format', 'minItems', 'maxItems', 'uniqueItems',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'default',
+];
+
+/**
+ * Paths in a JSON schema that break OpenAI-style strict mode rules
+ */
+function findStrictViolations(schema: unknown, path = '$'): string[] {
+  if (typeof schema !== 'object' || schema === null) {
+    return [];
+  }
+  if (Array.isArray(schema)) {
+    return schema.flatMap((child, index) => findStrictViolations(child, `${path}[${index}]`));
+  }
+
+  const node = schema as Record<string, unknown>;
+  const violations = UNSUPPORTED_KEYWORDS.filter(keyword => keyword in node).map(keyword => `${path}.${keyword}`);
+  if (node.properties) {
+    const required = (node.required as string[] | undefined) || [];
+    Object.keys(node.properties).filter(name => !required.includes(name))
+      .forEach(name => violations.push(`${path}.${name} is not required`));
+    if (node.additionalProperties !== false) {
+      violations.push(`${path} allows additional properties`);
+    }
+  }
+
+  Object.entries(node).forEach(([keyword, child]) => {
+    if (keyword === 'properties' || keyword === '$defs') {
+      Object.entries(child as Record<string, unknown>)
+        .forEach(([name, property]) => violations.push(...findStrictViolations(property, `${path}.${name}`)));
+    } else if (keyword === 'items' || keyword === 'anyOf' || keyword === 'oneOf' || keyword === 'allOf') {
+      violations.push(...findStrictViolations(child, `${path}.${keyword}`));
+    }
+  });
+  return violations;
+}
+
+describe('toJsonSchemaResponseFormat', () => {
+  it.each([
+    ['concept_extraction', conceptExtractionSchema],
+    ['article_outline', outlineSchema],
+    ['article_draft', draftSchema],
+    ['draft_review', reviewerOutputSchema],
+  ])('sends %s as a strict-mode schema', (name, schema) => {
+    const format = toJsonSchemaResponseFormat(toResponseFormat(name, schema));
+    expect(format?.json_schema.strict).toBe(true);
+    expect(findStrictViolations(format?.json_schema.schema)).toEqual([]);
+  });
+
+  it('turns strict off for schemas with optional properties', () => {
+    const schema = z.object({ title: z.string().min(1), subtitle: z.string().optional() });
+    const format = toJsonSchemaResponseFormat(toResponseFormat('optional_fields', schema));
+    expect(format?.json_schema.strict).toBe(false);
+    expect(format?.json_schema.schema).toMatchObject({ additionalProperties: false });
+    expect(JSON.stringify(format?.json_schema.schema)).not.toContain('minLength');
+  });
+
+  it('is omitted without a response format', () => {
+    expect(toJsonSchemaResponseFormat(undefined)).toBeUndefined();
+  });
+});
+
+describe('conceptExtractionSchema', () => {
+  const sources = [
+    { url: 'https://example.com/a', metadata: { title: 'Starter care', metaDescription: '', headings: [] } },
+    { url: 'https://example.com/b', metadata: { title: 'Hydration', metaDescription: '', headings: [] } },
+  ];
+
+  it('requires source numbers on concept objects', () => {
+    expect(conceptExtractionSchema.safeParse({ concepts: [{ concept: 'Hydration' }], summary: '' }).success).toBe(false);
+    expect(conceptExtractionSchema.safeParse({ concepts: [{ concept: 'Hydration', sources: [] }], summary: '' }).success).toBe(true);
+  });
+
+  it('ignores source numbers that are not valid source indexes', () => {
+    const { conceptSources } = mergeConcepts([{ concept: 'Hydration', sources: [1.5, 0, 3, 2] }], sources);
+    expect(conceptSources).toEqual({ Hydration: ['https://example.com/b'] });
+  });
+});
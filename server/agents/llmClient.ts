@@ -1,19 +1,180 @@
+/**
+ * Providers the workflow can build clients for
+ */
+export const LLM_PROVIDERS = ['ollama', 'openrouter', 'openai-compatible', 'mock'] as const;
+
+export type LLMProvider = typeof LLM_PROVIDERS[number];
+
 /**
  * Common interface for LLM clients
  */
 export interface LLMClient {
+  /**
+   * Provider and model the client talks to, recorded in the audit log
+   */
+  readonly provider?: string;
+  readonly model?: string;
+  readonly temperature?: number; // Part of the response cache key
+
   /**
    * Check if the LLM service is accessible and healthy
    */
   checkHealth(): Promise<boolean>;
   
   /**
-   * Send a message to the LLM and get a response
+   * Send a message to the LLM and get a response with the provider's token usage
    */
-  chat(messages: LLMMessage[]): Promise<string>;
+  chat(messages: LLMMessage[], options?: ChatOptions): Promise<LLMResponse>;
+
+  /**
+   * Like chat, but calls onToken with each piece of text as the provider generates it
+   * The resolved response carries the full text and usage
+   */
+  chatStream?(messages: LLMMessage[], onToken: (token: string) => void, options?: ChatOptions): Promise<LLMResponse>;
+}
+
+/**
+ * JSON schema the response must conform to
+ * Providers that support constrained decoding enforce it; the caller still validates the result
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ChatOptions {
+  responseFormat?: ResponseFormat;
+  onRestart?: () => void; // A composite client abandoned a partially streamed attempt and is starting over
+  signal?: AbortSignal; // Cancels the underlying HTTP request, e.g. when a composite client times an attempt out
+}
+
+/**
+ * Token counts reported by the provider for a single call
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  usage?: LLMUsage; // Omitted when the provider does not report usage
+  provider?: string; // Client that actually served the call, set by composite clients
+  model?: string;
+  cached?: boolean; // Served from the response cache; usage is omitted because nothing was billed
 }
 
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
-}
\ No newline at end of file
+}
+
+/**
+ * A provider request that failed, with the HTTP status when the provider answered
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * Wrap a failed provider call, keeping the HTTP status of an axios error
+ */
+export function toLLMRequestError(prefix: string, error: unknown): LLMRequestError {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const status = (error as { response?: { status?: unknown } } | undefined)?.response?.status;
+  return new LLMRequestError(`${prefix}: ${errorMessage}`, typeof status === 'number' ? status : undefined);
+}
+
+/**
+ * Whether a request failed because of the request itself (bad input, invalid or unfunded credential)
+ * rather than the provider: 4xx other than 408 Request Timeout and 429 Too Many Requests.
+ * Sending it again, or counting it against the provider, does not help.
+ */
+export function isClientRequestError(error: unknown): boolean {
+  return error instanceof LLMRequestError &&
+    error.status !== undefined &&
+    error.status >= 400 && error.status < 500 &&
+    error.status !== 408 && error.status !== 429;
+}
+
+// Keywords outside the subset OpenAI-style strict mode accepts; responses are validated against the full schema anyway
+const NON_STRICT_KEYWORDS = [
+  'minLength', 'maxLength', 'pattern', 'format',
+  'minItems', 'maxItems', 'uniqueItems',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+  'default',
+];
+
+type JsonSchemaNode = Record<string, unknown>;
+
+function isSchemaNode(value: unknown): value is JsonSchemaNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reduce a JSON schema to the strict-mode subset: unsupported bounds are dropped and every object
+ * forbids additional properties
+ */
+export function toStrictJsonSchema(schema: JsonSchemaNode): JsonSchemaNode {
+  const strict: JsonSchemaNode = {};
+  Object.entries(schema).forEach(([keyword, value]) => {
+    if (NON_STRICT_KEYWORDS.includes(keyword)) {
+      return;
+    }
+    if ((keyword === 'properties' || keyword === '$defs' || keyword === 'definitions') && isSchemaNode(value)) {
+      strict[keyword] = Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [name, isSchemaNode(child) ? toStrictJsonSchema(child) : child])
+      );
+    } else if ((keyword === 'anyOf' || keyword === 'oneOf' || keyword === 'allOf') && Array.isArray(value)) {
+      strict[keyword] = value.map(child => (isSchemaNode(child) ? toStrictJsonSchema(child) : child));
+    } else if (keyword === 'items' && isSchemaNode(value)) {
+      strict[keyword] = toStrictJsonSchema(value);
+    } else {
+      strict[keyword] = value;
+    }
+  });
+
+  if (strict.type === 'object' || isSchemaNode(strict.properties)) {
+    strict.additionalProperties = false;
+  }
+  return strict;
+}
+
+/**
+ * Whether every object in a schema lists all of its properties as required, as strict mode demands
+ * Optional properties cannot be expressed in strict mode without changing what the caller accepts.
+ */
+export function isStrictCompatible(schema: JsonSchemaNode): boolean {
+  const properties = isSchemaNode(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  if (Object.keys(properties).some(name => !required.includes(name))) {
+    return false;
+  }
+
+  const children = [
+    ...Object.values(properties),
+    ...Object.values(isSchemaNode(schema.$defs) ? schema.$defs : {}),
+    ...(['anyOf', 'oneOf', 'allOf'] as const).flatMap(keyword => (Array.isArray(schema[keyword]) ? schema[keyword] as unknown[] : [])),
+    schema.items,
+  ];
+  return children.every(child => !isSchemaNode(child) || isStrictCompatible(child));
+}
+
+/**
+ * OpenAI-style json_schema response format, used by the OpenRouter and OpenAI-compatible clients
+ * Schemas with optional properties are sent with strict off; the provider then treats the schema as
+ * guidance and the structured output repair loop handles anything that does not validate.
+ */
+export function toJsonSchemaResponseFormat(format?: ResponseFormat) {
+  if (!format) {
+    return undefined;
+  }
+  const schema = toStrictJsonSchema(format.schema);
+  return { type: 'json_schema', json_schema: { name: format.name, strict: isStrictCompatible(schema), schema } };
+}
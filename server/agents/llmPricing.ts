@@ -0,0 +1,75 @@
+import { LLMUsage } from './llmClient';
+import { getProviderModels } from './modelCatalog';
+
+/**
+ * Price of a model in USD per token
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Price table for local models, from LOCAL_MODEL_PRICES
+ * JSON of model name to USD per million tokens, e.g. {"llama3": {"prompt": 0.05, "completion": 0.1}};
+ * the "*" entry applies to unlisted models. Local models are free unless configured.
+ */
+function getLocalPrices(): Record<string, ModelPrice> {
+  const raw = process.env.LOCAL_MODEL_PRICES;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const table = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    const prices: Record<string, ModelPrice> = {};
+    Object.entries(table).forEach(([model, price]) => {
+      prices[model] = {
+        prompt: (Number(price.prompt) || 0) / 1_000_000,
+        completion: (Number(price.completion) || 0) / 1_000_000,
+      };
+    });
+    return prices;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[Pricing] Ignoring invalid LOCAL_MODEL_PRICES: ${errorMessage}`);
+    return {};
+  }
+}
+
+/**
+ * Look up the price of a model; undefined when it cannot be priced
+ */
+export async function getModelPrice(provider: string | undefined, model: string | undefined): Promise<ModelPrice | undefined> {
+  if (!model) {
+    return undefined;
+  }
+
+  // OpenRouter prices come from the model catalog, which caches the models list
+  if (provider === 'openrouter') {
+    const models = await getProviderModels('openrouter');
+    return models?.find(m => m.id === model)?.pricing;
+  }
+
+  if (provider === 'mock') {
+    return { prompt: 0, completion: 0 };
+  }
+
+  const localPrices = getLocalPrices();
+  return localPrices[model] || localPrices['*'] || { prompt: 0, completion: 0 };
+}
+
+/**
+ * Cost in USD of a call's token usage; undefined when the model cannot be priced
+ */
+export async function priceUsage(
+  provider: string | undefined,
+  model: string | undefined,
+  usage: LLMUsage
+): Promise<number | undefined> {
+  const price = await getModelPrice(provider, model);
+  if (!price) {
+    return undefined;
+  }
+  return usage.promptTokens * price.prompt + usage.completionTokens * price.completion;
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { extractMetadata, ExtractedMetadata, isSpaShell } from './metadataExtractor';
+import { FetchBlockedError } from './safeFetch';
+
+function metadataWith(wordCount: number, headings: string[] = []): ExtractedMetadata {
+  return {
+    title: 'Starter',
+    metaDescription: '',
+    headings,
+    content: {
+      text: '',
+      wordCount,
+      lists: [],
+      tables: [],
+      images: [],
+      links: { internal: 0, external: 0 },
+      openGraph: {},
+    },
+  };
+}
+
+describe('isSpaShell', () => {
+  const page = '<html><body><div id="content">…</div></body></html>';
+
+  it('treats a page with under 50 words and no headings as a shell', () => {
+    expect(isSpaShell(page, metadataWith(49))).toBe(true);
+    expect(isSpaShell(page, metadataWith(50))).toBe(false);
+    expect(isSpaShell(page, metadataWith(10, ['Keeping a Starter Alive']))).toBe(false);
+  });
+
+  it('treats an empty framework mount point with under 150 words as a shell', () => {
+    ['<div id="root"></div>', '<div id="__next">\n</div>', '<main id="app" class="page"></main>', '<app-root></app-root>']
+      .forEach(mountPoint => {
+        const html = `<html><body>${mountPoint}<noscript>Enable JavaScript</noscript></body></html>`;
+        expect(isSpaShell(html, metadataWith(149, ['Loading']))).toBe(true);
+        expect(isSpaShell(html, metadataWith(150, ['Loading']))).toBe(false);
+      });
+  });
+
+  it('ignores mount points that already hold the rendered page', () => {
+    const html = '<html><body><div id="root"><article><h1>Starter</h1></article></div></body></html>';
+    expect(isSpaShell(html, metadataWith(60, ['Starter']))).toBe(false);
+  });
+});
+
+describe('extractMetadata with a local HTML file', () => {
+  const previousDir = process.env.INSPIRATION_HTML_DIR;
+  let tempDir: string;
+  let htmlDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'inspiration-html-'));
+    htmlDir = path.join(tempDir, 'html');
+    await fs.mkdir(htmlDir);
+    await fs.mkdir(path.join(tempDir, 'html-private'));
+    const page = '<html><head><title>Keeping a Starter Alive</title></head><body><article><h1>Keeping a Starter Alive</h1>' +
+      `<p>${'Feed the starter every day with equal parts flour and water. '.repeat(10)}</p></article></body></html>`;
+    await fs.writeFile(path.join(htmlDir, 'starter.html'), page);
+    await fs.writeFile(path.join(tempDir, 'secret.html'), page);
+    await fs.writeFile(path.join(tempDir, 'html-private', 'secret.html'), page);
+  });
+
+  afterEach(() => {
+    process.env.INSPIRATION_HTML_DIR = previousDir;
+    if (previousDir === undefined) {
+      delete process.env.INSPIRATION_HTML_DIR;
+    }
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads a file inside INSPIRATION_HTML_DIR', async () => {
+    process.env.INSPIRATION_HTML_DIR = htmlDir;
+
+    const metadata = await extractMetadata('https://example.com/starter', { file: 'starter.html' });
+
+    expect(metadata.title).toBe('Keeping a Starter Alive');
+    expect(metadata.fetch).toEqual({ strategy: 'html-source', attempts: [{ strategy: 'html-source', outcome: 'success' }] });
+  });
+
+  it.each([
+    ['a parent directory', '../secret.html'],
+    ['a sibling directory sharing the prefix', '../html-private/secret.html'],
+    ['an absolute path', '/etc/hostname'],
+    ['the directory itself', '.'],
+  ])('rejects %s', async (_case, file) => {
+    process.env.INSPIRATION_HTML_DIR = htmlDir;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const error = await extractMetadata('https://example.com/starter', { file }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FetchBlockedError);
+    expect(error.code).toBe('LOCAL_FILE_NOT_ALLOWED');
+  });
+
+  it('rejects local files when INSPIRATION_HTML_DIR is not set', async () => {
+    delete process.env.INSPIRATION_HTML_DIR;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(extractMetadata('https://example.com/starter', { file: 'starter.html' }))
+      .rejects.toMatchObject({ code: 'LOCAL_FILE_NOT_ALLOWED' });
+  });
+});
@@ -1,21 +1,30 @@
 import axios from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
 import * as cheerio from 'cheerio';
+import { extractHeadings, extractPageContent, HeadingsByLevel, PageContent } from './contentExtractor';
+import { assertFetchAllowed, DEFAULT_FETCH_POLICY, fetchPage, FetchBlockedError } from './safeFetch';
+
+export type { HeadingsByLevel, PageContent } from './contentExtractor';
 
 export interface ExtractedMetadata {
   title: string;
   metaDescription: string;
-  headings: string[];
+  headings: string[]; // h1-h3 in level order, for prompts that take a flat list
+  headingsByLevel?: HeadingsByLevel;
+  content?: PageContent; // Main content and publishing metadata, when the page was parsed
+  fetch?: { strategy: FetchStrategyName; attempts: FetchAttempt[] }; // How the HTML was obtained
 }
 
 /**
  * Validates URL format and protocol
  * @param url - URL string to validate
- * @throws Error if URL is invalid or uses unsupported protocol
+ * @throws FetchBlockedError if URL is invalid or uses unsupported protocol
  */
 function validateUrl(url: string): void {
   // Check if URL is empty or not a string
   if (!url || typeof url !== 'string') {
-    throw new Error('URL is required and must be a string');
+    throw new FetchBlockedError('INVALID_URL', 'URL is required and must be a string', String(url));
   }
 
   // Try to parse the URL
@@ -23,34 +32,41 @@ function validateUrl(url: string): void {
   try {
     parsedUrl = new URL(url);
   } catch (error) {
-    throw new Error(`Invalid URL format: ${url}`);
+    throw new FetchBlockedError('INVALID_URL', `Invalid URL format: ${url}`, url);
   }
 
   // Validate protocol (only http and https allowed)
   if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
-    throw new Error(`Unsupported protocol: ${parsedUrl.protocol}. Only HTTP and HTTPS are allowed`);
+    throw new FetchBlockedError(
+      'UNSUPPORTED_PROTOCOL',
+      `Unsupported protocol: ${parsedUrl.protocol}. Only HTTP and HTTPS are allowed`,
+      url
+    );
   }
 
   // Validate hostname exists
   if (!parsedUrl.hostname) {
-    throw new Error('URL must contain a valid hostname');
+    throw new FetchBlockedError('INVALID_URL', 'URL must contain a valid hostname', url);
   }
 }
 
 /**
- * Delays execution for a specified number of milliseconds
- * @param ms - Milliseconds to delay
+ * Keep at most `max` headings, filling h1 first, then h2, then h3
  */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function limitHeadings(headings: HeadingsByLevel, max: number): HeadingsByLevel {
+  const h1 = headings.h1.slice(0, max);
+  const h2 = headings.h2.slice(0, max - h1.length);
+  const h3 = headings.h3.slice(0, max - h1.length - h2.length);
+  return { h1, h2, h3 };
 }
 
 /**
  * Attempts to extract metadata from HTML with error handling for malformed HTML
  * @param html - HTML content to parse
+ * @param url - Page URL, used to resolve relative links and images
  * @returns Extracted metadata object
  */
-function parseHtmlSafely(html: string): ExtractedMetadata {
+export function parseHtmlSafely(html: string, url?: string): ExtractedMetadata {
   try {
     const $ = cheerio.load(html, {
       // Enable XML mode for more lenient parsing
@@ -74,28 +90,31 @@ function parseHtmlSafely(html: string): ExtractedMetadata {
                            $('meta[property="og:description"]').attr('content')?.trim() || 
                            '';
 
-    // Extract headings (h1, h2, h3) with error handling
-    const headings: string[] = [];
+    // Main content first: it strips boilerplate, so site navigation headings are not counted
+    let content: PageContent | undefined;
     try {
-      $('h1, h2, h3').each((_index: number, element: any) => {
-        try {
-          const text = $(element).text().trim();
-          if (text) {
-            headings.push(text);
-          }
-        } catch (elementError) {
-          // Skip malformed individual elements
-          console.warn('Failed to parse heading element:', elementError);
-        }
-      });
+      content = extractPageContent($, url);
+    } catch (contentError) {
+      console.warn('Failed to extract page content:', contentError);
+    }
+
+    // Extract headings (h1, h2, h3) by level with error handling
+    let headingsByLevel: HeadingsByLevel = { h1: [], h2: [], h3: [] };
+    try {
+      headingsByLevel = extractHeadings($);
     } catch (headingsError) {
       console.warn('Failed to parse headings:', headingsError);
     }
 
+    // Limit to the first 20 headings, keeping the top levels
+    const limited = limitHeadings(headingsByLevel, 20);
+
     return {
       title,
       metaDescription,
-      headings: headings.slice(0, 20) // Limit to first 20 headings
+      headings: [...limited.h1, ...limited.h2, ...limited.h3],
+      headingsByLevel: limited,
+      content,
     };
   } catch (error) {
     // If cheerio fails completely, return minimal valid metadata
@@ -109,55 +128,159 @@ function parseHtmlSafely(html: string): ExtractedMetadata {
 }
 
 /**
- * Fetches HTML content from a URL with a single attempt
- * @param url - URL to fetch
- * @returns HTML content as string
+ * Pasted HTML or a saved HTML file to extract from instead of (or before) fetching the URL
+ * `file` is relative to INSPIRATION_HTML_DIR; local files are disabled when it is unset
  */
-async function fetchHtml(url: string): Promise<string> {
-  const response = await axios.get(url, {
-    timeout: 10000, // 10 second timeout
-    headers: {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-    },
-    maxRedirects: 5,
-    validateStatus: (status: number) => status >= 200 && status < 300
-  });
-
-  return response.data;
+export interface PageSource {
+  html?: string;
+  file?: string;
 }
 
+export type FetchStrategyName = 'html-source' | 'http' | 'render-service';
+
 /**
- * Metadata Extractor Agent
- * Deterministically extracts title and headings (h1-h3) from a given URL
- * No LLM involvement - pure HTML parsing using cheerio
- * Includes retry logic (2 attempts with 1s delay) and graceful error handling
+ * How a page was obtained: the strategy whose HTML was used and every strategy tried
  */
-export async function extractMetadata(url: string): Promise<ExtractedMetadata> {
-  // Validate URL before fetching
-  validateUrl(url);
+export interface FetchAttempt {
+  strategy: FetchStrategyName;
+  outcome: 'success' | 'spa-shell' | 'failed';
+  error?: string;
+}
 
-  const maxAttempts = 2;
+/**
+ * A way of getting a page's HTML, tried in order until one yields real content
+ */
+export interface PageFetcher {
+  name: FetchStrategyName;
+  maxAttempts: number;
+  isAvailable(source?: PageSource): boolean;
+  fetch(url: string, source?: PageSource): Promise<string>;
+}
+
+/**
+ * Reads pasted HTML, or an HTML file from INSPIRATION_HTML_DIR
+ */
+const htmlSourceFetcher: PageFetcher = {
+  name: 'html-source',
+  maxAttempts: 1,
+  isAvailable: source => Boolean(source?.html || source?.file),
+  async fetch(url, source) {
+    if (source?.html) {
+      return source.html;
+    }
+
+    const baseDir = process.env.INSPIRATION_HTML_DIR;
+    if (!baseDir) {
+      throw new FetchBlockedError('LOCAL_FILE_NOT_ALLOWED', 'Local HTML files are disabled (INSPIRATION_HTML_DIR is not set)', url);
+    }
+    const root = path.resolve(baseDir);
+    const filePath = path.resolve(root, source?.file || '');
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new FetchBlockedError('LOCAL_FILE_NOT_ALLOWED', `${source?.file} is outside INSPIRATION_HTML_DIR`, url);
+    }
+
+    const stats = await fs.stat(filePath);
+    if (stats.size > DEFAULT_FETCH_POLICY.maxBytes) {
+      throw new FetchBlockedError('RESPONSE_TOO_LARGE', `${source?.file} exceeds ${DEFAULT_FETCH_POLICY.maxBytes} bytes`, url);
+    }
+    return fs.readFile(filePath, 'utf8');
+  },
+};
+
+/**
+ * Plain HTTP fetch under the fetch policy
+ */
+const httpFetcher: PageFetcher = {
+  name: 'http',
+  maxAttempts: 2,
+  isAvailable: () => true,
+  async fetch(url) {
+    const page = await fetchPage(url);
+    return page.html;
+  },
+};
+
+/**
+ * Headless-browser render service at RENDER_SERVICE_URL
+ * A URL containing `{url}` is requested with GET (prerender style); otherwise `{ "url" }` is POSTed
+ * (browserless `/content` style). The page URL is checked against the fetch policy first; the
+ * service's own redirects and subresource requests are outside our control.
+ */
+const renderServiceFetcher: PageFetcher = {
+  name: 'render-service',
+  maxAttempts: 2,
+  isAvailable: () => Boolean(process.env.RENDER_SERVICE_URL),
+  async fetch(url) {
+    await assertFetchAllowed(url);
+
+    const endpoint = process.env.RENDER_SERVICE_URL || '';
+    const config = {
+      timeout: Number(process.env.RENDER_SERVICE_TIMEOUT_MS) || 30000,
+      headers: process.env.RENDER_SERVICE_TOKEN ? { Authorization: `Bearer ${process.env.RENDER_SERVICE_TOKEN}` } : {},
+      maxContentLength: DEFAULT_FETCH_POLICY.maxBytes,
+      responseType: 'text' as const,
+      transformResponse: [(data: string) => data],
+    };
+    const response = endpoint.includes('{url}')
+      ? await axios.get<string>(endpoint.replace('{url}', encodeURIComponent(url)), config)
+      : await axios.post<string>(endpoint, { url }, config);
+    return response.data;
+  },
+};
+
+export const PAGE_FETCHERS: PageFetcher[] = [htmlSourceFetcher, httpFetcher, renderServiceFetcher];
+
+const SPA_SHELL_MAX_WORDS = 50;
+const SPA_MOUNT_POINT = /<(div|main|section)[^>]*\bid=["'](root|app|__next|__nuxt|svelte|gatsby-focus-wrapper)["'][^>]*>\s*<\/\1>|<app-root[^>]*>\s*<\/app-root>/i;
+
+/**
+ * Whether a page is a near-empty client-rendered shell rather than the article
+ * Shells have almost no text and no headings, or an empty framework mount point with little text
+ */
+export function isSpaShell(html: string, metadata: ExtractedMetadata): boolean {
+  const wordCount = metadata.content?.wordCount || 0;
+  if (wordCount < SPA_SHELL_MAX_WORDS && metadata.headings.length === 0) {
+    return true;
+  }
+  return SPA_MOUNT_POINT.test(html) && wordCount < SPA_SHELL_MAX_WORDS * 3;
+}
+
+/**
+ * Delays execution for a specified number of milliseconds
+ * @param ms - Milliseconds to delay
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetches HTML with one strategy, retrying transient failures (1s delay)
+ * Fetches refused by the fetch policy are rethrown immediately
+ */
+async function fetchWithRetry(fetcher: PageFetcher, url: string, source?: PageSource): Promise<string> {
   let lastError: Error | null = null;
 
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+  for (let attempt = 1; attempt <= fetcher.maxAttempts; attempt++) {
     try {
-      // Fetch the HTML content
-      const html = await fetchHtml(url);
-
-      // Parse HTML safely with malformed HTML handling
-      const metadata = parseHtmlSafely(html);
+      const html = await fetcher.fetch(url, source);
 
       // Log successful extraction
       if (attempt > 1) {
-        console.log(`[MetadataExtractor] Successfully extracted metadata on attempt ${attempt}`);
+        console.log(`[MetadataExtractor] ${fetcher.name} succeeded on attempt ${attempt}`);
       }
 
-      return metadata;
+      return html;
     } catch (err: unknown) {
       // Type guard to ensure we have an Error object
       const error = err instanceof Error ? err : new Error(String(err));
       lastError = error;
-      
+
+      // Policy refusals come out the same on every attempt
+      if (err instanceof FetchBlockedError) {
+        console.warn(`[MetadataExtractor] Fetch of ${url} blocked (${err.code}): ${err.message}`);
+        throw err;
+      }
+
       // Determine error type for better error messages
       let errorType = 'Unknown error';
       
@@ -177,20 +300,72 @@ export async function extractMetadata(url: string): Promise<ExtractedMetadata> {
       }
 
       console.warn(
-        `[MetadataExtractor] Attempt ${attempt}/${maxAttempts} failed for ${url}: ${errorType} - ${error.message}`
+        `[MetadataExtractor] ${fetcher.name} attempt ${attempt}/${fetcher.maxAttempts} failed for ${url}: ${errorType} - ${error.message}`
       );
 
       // If this is not the last attempt, wait before retrying
-      if (attempt < maxAttempts) {
+      if (attempt < fetcher.maxAttempts) {
         console.log(`[MetadataExtractor] Retrying in 1 second...`);
         await delay(1000);
       }
     }
   }
 
-  // All attempts failed, throw detailed error
+  throw lastError || new Error('Unknown error');
+}
+
+/**
+ * Metadata Extractor Agent
+ * Deterministically extracts title, headings (h1-h3) by level and the main content from a given URL
+ * No LLM involvement - pure HTML parsing using cheerio
+ * Strategies are tried in order (pasted HTML / local file, plain HTTP, render service); a strategy
+ * that fails or yields a near-empty SPA shell hands over to the next one. Transient failures are
+ * retried (2 attempts with 1s delay); fetches refused by the fetch policy throw FetchBlockedError
+ * without retrying. When every strategy yields a shell, the last shell is returned.
+ */
+export async function extractMetadata(url: string, source?: PageSource): Promise<ExtractedMetadata> {
+  // Validate URL before fetching
+  validateUrl(url);
+
+  const fetchers = PAGE_FETCHERS.filter(fetcher => fetcher.isAvailable(source));
+  const attempts: FetchAttempt[] = [];
+  let shell: ExtractedMetadata | undefined;
+  let lastError: Error | null = null;
+
+  for (const fetcher of fetchers) {
+    let html: string;
+    try {
+      html = await fetchWithRetry(fetcher, url, source);
+    } catch (err: unknown) {
+      if (err instanceof FetchBlockedError) {
+        throw err;
+      }
+      lastError = err instanceof Error ? err : new Error(String(err));
+      attempts.push({ strategy: fetcher.name, outcome: 'failed', error: lastError.message });
+      continue;
+    }
+
+    // Parse HTML safely with malformed HTML handling
+    const metadata = parseHtmlSafely(html, url);
+    if (isSpaShell(html, metadata)) {
+      console.warn(`[MetadataExtractor] ${fetcher.name} returned a near-empty page shell for ${url}`);
+      attempts.push({ strategy: fetcher.name, outcome: 'spa-shell' });
+      shell = { ...metadata, fetch: { strategy: fetcher.name, attempts } };
+      continue;
+    }
+
+    attempts.push({ strategy: fetcher.name, outcome: 'success' });
+    return { ...metadata, fetch: { strategy: fetcher.name, attempts } };
+  }
+
+  if (shell) {
+    console.warn(`[MetadataExtractor] No strategy rendered ${url}; using the page shell`);
+    return shell;
+  }
+
+  // All strategies failed, throw detailed error
   const errorMessage = lastError?.message || 'Unknown error';
   throw new Error(
-    `Failed to extract metadata from ${url} after ${maxAttempts} attempts: ${errorMessage}`
+    `Failed to extract metadata from ${url} (${fetchers.map(fetcher => fetcher.name).join(', ')}): ${errorMessage}`
   );
 }
@@ -1,9 +1,186 @@
+import { z } from 'zod/v4';
 import { LLMClient, LLMMessage } from './llmClient';
-import { ExtractedMetadata } from './metadataExtractor';
+import { ExtractedMetadata, PageContent } from './metadataExtractor';
+import { generateStructured } from './structuredOutput';
+import { AgentOptions, PromptVariables, defaultPromptRenderer } from './promptTemplates';
 
 export interface ConceptExtractionResult {
   concepts: string[];
   summary: string;
+  conceptSources?: Record<string, string[]>; // Concept → URLs of the inspiration sources that mention it
+}
+
+/**
+ * An inspiration page the concepts are drawn from
+ */
+export interface ConceptSource {
+  url: string;
+  metadata: ExtractedMetadata;
+}
+
+/**
+ * Schema the concept extraction response must match
+ * With several sources, concepts come as objects carrying the 1-based numbers of the sources that mention them
+ * Every property is required and source numbers carry no integer bounds, so the schema stays within the
+ * strict json_schema subset; mergeConcepts discards numbers that are not valid source indexes.
+ */
+export const conceptExtractionSchema = z.object({
+  concepts: z.array(z.union([
+    z.string().trim().min(1),
+    z.object({
+      concept: z.string().trim().min(1),
+      sources: z.array(z.number()), // Empty when the model cannot attribute the concept
+    }),
+  ])).min(1, 'At least one concept is required'),
+  summary: z.string(),
+});
+
+type RawConcept = z.infer<typeof conceptExtractionSchema>['concepts'][number];
+
+/**
+ * Editor feedback for regenerating a previously extracted concept list
+ */
+export interface ConceptRevisionRequest {
+  previousConcepts: string[];
+  feedback?: string;
+}
+
+// Enough of the body for the main themes without crowding out small context windows
+const CONTENT_EXCERPT_CHARS = 4000;
+// Further sources share the budget of the first one's excerpt
+const OTHER_SOURCE_EXCERPT_CHARS = 1500;
+const OTHER_SOURCE_MAX_HEADINGS = 10;
+const MAX_CONCEPTS = 7;
+
+/**
+ * Headings one per line, prefixed with their level when the hierarchy is known
+ */
+function formatHeadings(metadata: ExtractedMetadata): string {
+  if (metadata.headingsByLevel) {
+    const { h1, h2, h3 } = metadata.headingsByLevel;
+    const lines = [
+      ...h1.map(heading => `H1: ${heading}`),
+      ...h2.map(heading => `H2: ${heading}`),
+      ...h3.map(heading => `H3: ${heading}`),
+    ];
+    return lines.length > 0 ? lines.join('\n') : 'No headings found';
+  }
+  return metadata.headings.length > 0 ? metadata.headings.join('\n') : 'No headings found';
+}
+
+/**
+ * Publishing metadata and content structure, one fact per line; undefined when nothing is known
+ */
+function formatPageDetails(content: PageContent | undefined): string | undefined {
+  if (!content) {
+    return undefined;
+  }
+
+  const type = content.article?.type || content.openGraph.type;
+  const keywords = content.article?.keywords || [];
+  const details = [
+    type ? `Type: ${type}` : undefined,
+    content.article?.section ? `Section: ${content.article.section}` : undefined,
+    content.author ? `Author: ${content.author}` : undefined,
+    content.publishedAt ? `Published: ${content.publishedAt}` : undefined,
+    keywords.length > 0 ? `Keywords: ${keywords.join(', ')}` : undefined,
+    `Body: ${content.wordCount} words, ${content.lists.length} lists, ${content.tables.length} tables, ${content.images.length} images`,
+    ...content.tables
+      .filter(table => table.caption || table.headers.length > 0)
+      .map(table => `Table: ${table.caption || table.headers.join(' | ')}`),
+  ];
+  return details.filter(Boolean).join('\n');
+}
+
+/**
+ * Sources after the first, each with its number, title, headings and a short excerpt
+ */
+function formatOtherSources(sources: ConceptSource[]): string | undefined {
+  if (sources.length < 2) {
+    return undefined;
+  }
+
+  return sources.slice(1).map(({ url, metadata }, index) => {
+    const headings = formatHeadings(metadata).split('\n').slice(0, OTHER_SOURCE_MAX_HEADINGS).join('\n');
+    return [
+      `Source ${index + 2}: ${url}`,
+      `Title: ${metadata.title}`,
+      metadata.metaDescription ? `Meta Description: ${metadata.metaDescription}` : undefined,
+      `Headings:\n${headings}`,
+      metadata.content?.text ? `Content Excerpt:\n${metadata.content.text.slice(0, OTHER_SOURCE_EXCERPT_CHARS)}` : undefined,
+    ].filter(Boolean).join('\n');
+  }).join('\n\n');
+}
+
+function normalizeConcept(concept: string): string {
+  return concept.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, ' ').trim();
+}
+
+/**
+ * URLs of the sources whose title, headings or body contain most of a concept's words
+ * Used when the model did not say where a concept came from; a single source always mentions it
+ */
+export function findConceptMentions(concept: string, sources: ConceptSource[]): string[] {
+  if (sources.length === 1) {
+    return [sources[0].url];
+  }
+
+  const words = normalizeConcept(concept).split(' ').filter(word => word.length > 3);
+  if (words.length === 0) {
+    return [];
+  }
+
+  return sources
+    .filter(({ metadata }) => {
+      const text = normalizeConcept([
+        metadata.title,
+        metadata.metaDescription,
+        ...metadata.headings,
+        metadata.content?.text,
+      ].filter(Boolean).join(' '));
+      const found = words.filter(word => text.indexOf(word) !== -1).length;
+      return found >= Math.ceil(words.length / 2);
+    })
+    .map(({ url }) => url);
+}
+
+/**
+ * Deduplicate concepts case- and punctuation-insensitively, merging the sources that mention them
+ * Source numbers from the model are trusted when valid; otherwise mentions are looked up in the sources
+ */
+export function mergeConcepts(
+  rawConcepts: RawConcept[],
+  sources: ConceptSource[]
+): Pick<ConceptExtractionResult, 'concepts' | 'conceptSources'> {
+  const concepts: string[] = [];
+  const conceptSources: Record<string, string[]> = {};
+  const byKey = new Map<string, string>();
+
+  rawConcepts.forEach(raw => {
+    const text = typeof raw === 'string' ? raw.trim() : raw.concept.trim();
+    const numbered = typeof raw === 'string' ? [] : raw.sources
+      .filter(number => Number.isInteger(number) && number >= 1 && number <= sources.length)
+      .map(number => sources[number - 1].url);
+    const urls = numbered.length > 0 ? numbered : findConceptMentions(text, sources);
+
+    const key = normalizeConcept(text);
+    const existing = byKey.get(key);
+    if (existing) {
+      conceptSources[existing] = sources
+        .map(source => source.url)
+        .filter(url => conceptSources[existing].indexOf(url) !== -1 || urls.indexOf(url) !== -1);
+      return;
+    }
+    if (concepts.length >= MAX_CONCEPTS) {
+      return;
+    }
+
+    byKey.set(key, text);
+    concepts.push(text);
+    conceptSources[text] = sources.map(source => source.url).filter(url => urls.indexOf(url) !== -1);
+  });
+
+  return { concepts, conceptSources };
 }
 
 /**
@@ -13,144 +190,62 @@ export interface ConceptExtractionResult {
  */
 export class MetadataSummarizer {
   private llmClient: LLMClient;
+  private options: AgentOptions;
 
-  constructor(llmClient: LLMClient) {
+  constructor(llmClient: LLMClient, options: AgentOptions = {}) {
     this.llmClient = llmClient;
+    this.options = options;
   }
 
   /**
-   * Extract concepts from metadata using LLM
+   * Extract concepts from the inspiration sources using LLM
+   * The first source is presented in full and the rest are summarised; concepts come back deduplicated
+   * and annotated with the sources that mention them
+   * When a revision request is given, the previous concepts are reworked to address the editor's feedback
    */
-  async extractConcepts(metadata: ExtractedMetadata): Promise<ConceptExtractionResult> {
-    const prompt = this.buildPrompt(metadata);
-
-    const messages: LLMMessage[] = [
-      {
-        role: 'system',
-        content: 'You are an expert content analyst. Extract 5-7 high-level concepts from the given content metadata. Return a JSON response with "concepts" (array of strings) and "summary" (brief description).'
-      },
-      {
-        role: 'user',
-        content: prompt
-      }
-    ];
-
-    try {
-      const response = await this.llmClient.chat(messages);
-      return this.parseResponse(response);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Try once more with error context
-      try {
-        const retryMessages: LLMMessage[] = [
-          ...messages,
-          {
-            role: 'assistant',
-            content: `I encountered an error while trying to extract concepts: ${errorMessage}. Please try again and ensure the response is valid JSON with the exact structure requested.`
-          },
-          {
-            role: 'user',
-            content: 'Please regenerate the concepts extraction with the same metadata but ensure the JSON is properly formatted and complete. Remember to return only valid JSON with the exact structure requested.'
-          }
-        ];
-        
-        const retryResponse = await this.llmClient.chat(retryMessages);
-        return this.parseResponse(retryResponse);
-      } catch (retryError) {
-        throw new Error(`Failed to extract concepts after retry: ${errorMessage}`);
-      }
+  async extractConcepts(sources: ConceptSource[], revision?: ConceptRevisionRequest): Promise<ConceptExtractionResult> {
+    if (sources.length === 0) {
+      throw new Error('Failed to extract concepts: no inspiration sources');
     }
-  }
 
-  /**
-   * Build the prompt for concept extraction
-   */
-  private buildPrompt(metadata: ExtractedMetadata): string {
-    const headingsText = metadata.headings.length > 0
-      ? metadata.headings.join('\n')
-      : 'No headings found';
-
-    const descriptionText = metadata.metaDescription
-      ? `\nMeta Description: ${metadata.metaDescription}\n`
-      : '';
-
-    return `
-Title: ${metadata.title}
-${descriptionText}
-Headings:
-${headingsText}
-
-Based on the above title, meta description, and headings, extract 5-7 high-level concepts that represent the main topics or themes. 
-Return your response as a JSON object with this exact structure:
-{
-  "concepts": ["concept1", "concept2", "concept3", "concept4", "concept5"],
-  "summary": "A brief one-sentence summary of the main theme"
-}
+    const prompts = this.options.prompts || defaultPromptRenderer;
+    const messages: LLMMessage[] = prompts.render('concept-extraction', this.buildVariables(sources, revision));
 
-Only return the JSON, no additional text.
-`;
-  }
-
-  /**
-   * Parse the LLM response and extract concepts
-   */
-  private parseResponse(response: string): ConceptExtractionResult {
     try {
-      // First, try to parse the response directly if it's already valid JSON
-      let parsed;
-      try {
-        parsed = JSON.parse(response);
-      } catch (directParseError) {
-        // If direct parsing fails, try to extract JSON from the response
-        // Look for a JSON object that starts with { and ends with }
-        const jsonStart = response.indexOf('{');
-        if (jsonStart === -1) {
-          throw new Error('No JSON object found in response');
-        }
-        
-        // Try to find the matching closing brace
-        let braceCount = 0;
-        let jsonEnd = -1;
-        for (let i = jsonStart; i < response.length; i++) {
-          if (response[i] === '{') {
-            braceCount++;
-          } else if (response[i] === '}') {
-            braceCount--;
-            if (braceCount === 0) {
-              jsonEnd = i;
-              break;
-            }
-          }
-        }
-        
-        // If we can't find a matching closing brace, try to work with what we have
-        if (jsonEnd === -1) {
-          // Try to parse the partial JSON we have
-          const partialResponse = response.substring(jsonStart);
-          try {
-            parsed = JSON.parse(partialResponse);
-          } catch (partialParseError) {
-            throw new Error(`No matching closing brace found for JSON object. Response appears to be truncated.`);
-          }
-        } else {
-          const jsonString = response.substring(jsonStart, jsonEnd + 1);
-          parsed = JSON.parse(jsonString);
-        }
-      }
-
-      // Validate the response structure
-      if (!Array.isArray(parsed.concepts) || typeof parsed.summary !== 'string') {
-        throw new Error('Invalid response structure');
-      }
+      const parsed = await generateStructured(
+        this.llmClient,
+        messages,
+        'concept_extraction',
+        conceptExtractionSchema,
+        this.options
+      );
 
       return {
-        concepts: parsed.concepts.slice(0, 7), // Ensure max 7 concepts
+        ...mergeConcepts(parsed.concepts, sources), // Ensures max 7 concepts
         summary: parsed.summary
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to parse LLM response: ${errorMessage}. Raw response: ${response.substring(0, 1000)}...`);
+      throw new Error(`Failed to extract concepts: ${errorMessage}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Variables for the concept extraction template
+   */
+  private buildVariables(sources: ConceptSource[], revision?: ConceptRevisionRequest): PromptVariables {
+    const { metadata } = sources[0];
+    return {
+      title: metadata.title,
+      metaDescription: metadata.metaDescription || undefined,
+      headings: formatHeadings(metadata),
+      pageDetails: formatPageDetails(metadata.content),
+      contentExcerpt: metadata.content?.text
+        ? metadata.content.text.slice(0, CONTENT_EXCERPT_CHARS)
+        : undefined,
+      otherSources: formatOtherSources(sources),
+      previousConcepts: revision?.previousConcepts.map(concept => `- ${concept}`).join('\n'),
+      feedback: revision ? revision.feedback || 'Propose a different, more distinctive set of concepts.' : undefined,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import { ChatOptions, LLMClient, LLMMessage, LLMRequestError, LLMResponse } from './llmClient';
+import { DEFAULT_MOCK_FIXTURES } from './mockFixtures';
+
+/**
+ * Step an agent call belongs to: the name of the response format the agent requests
+ * (concept_extraction, article_outline, article_draft, draft_review)
+ */
+export type MockStepTag = keyof typeof DEFAULT_MOCK_FIXTURES;
+
+export const MOCK_STEP_TAGS = Object.keys(DEFAULT_MOCK_FIXTURES) as MockStepTag[];
+
+/**
+ * Response for a step: a string is returned verbatim (e.g. malformed JSON to exercise repair),
+ * anything else as JSON. A function is called with the request and the step's call number (from 1).
+ */
+export type MockFixture = unknown | ((messages: LLMMessage[], call: number) => unknown);
+
+export interface MockFailure {
+  times?: number; // Calls that fail before the step succeeds (default: every call)
+  message?: string;
+  status?: number; // HTTP status the failure reports, e.g. 401 for a rejected key
+}
+
+export interface MockLLMConfig {
+  model?: string;
+  fixtures?: Partial<Record<MockStepTag, MockFixture>>; // Overrides DEFAULT_MOCK_FIXTURES per step
+  failures?: Partial<Record<MockStepTag, MockFailure>>;
+  latencyMs?: number | Partial<Record<MockStepTag, number>>;
+}
+
+export interface MockCall {
+  tag: MockStepTag;
+  messages: LLMMessage[];
+  failed: boolean;
+}
+
+export function isMockStepTag(tag: string): tag is MockStepTag {
+  return MOCK_STEP_TAGS.includes(tag as MockStepTag);
+}
+
+/**
+ * Whether the server offers the mock provider (MOCK_LLM_ENABLED)
+ */
+export function isMockProviderEnabled(): boolean {
+  return process.env.MOCK_LLM_ENABLED === 'true';
+}
+
+/**
+ * Offline LLM client for deterministic tests and demos
+ * Answers each agent from a fixture keyed by step tag, with optional injected failures and latency.
+ * Usage is estimated at four characters per token so metering and cost accounting still run.
+ */
+export class MockLLMClient implements LLMClient {
+  readonly provider = 'mock';
+  readonly calls: MockCall[] = [];
+  private config: MockLLMConfig;
+
+  constructor(config: MockLLMConfig = {}) {
+    this.config = {
+      model: 'mock-model',
+      ...config
+    };
+  }
+
+  get model(): string | undefined {
+    return this.config.model;
+  }
+
+  get temperature(): number {
+    return 0;
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Calls made for a step so far, failed ones included
+   */
+  callCount(tag: MockStepTag): number {
+    return this.calls.filter(call => call.tag === tag).length;
+  }
+
+  async chat(messages: LLMMessage[], options: ChatOptions = {}): Promise<LLMResponse> {
+    const name = options.responseFormat?.name;
+    if (!name || !isMockStepTag(name)) {
+      throw new Error(`Mock LLM request failed: no fixture for response format ${name || '(none)'}`);
+    }
+
+    const latencyMs = typeof this.config.latencyMs === 'number'
+      ? this.config.latencyMs
+      : this.config.latencyMs?.[name];
+    if (latencyMs) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, latencyMs);
+        options.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('Mock LLM request failed: aborted'));
+        }, { once: true });
+      });
+    }
+
+    const call = this.callCount(name) + 1;
+    const failure = this.config.failures?.[name];
+    const failed = !!failure && call <= (failure.times ?? Infinity);
+    this.calls.push({ tag: name, messages, failed });
+    if (failed) {
+      throw new LLMRequestError(`Mock LLM request failed: ${failure.message || `injected failure for ${name}`}`, failure.status);
+    }
+
+    const fixture = this.config.fixtures?.[name] ?? DEFAULT_MOCK_FIXTURES[name];
+    const result = typeof fixture === 'function' ? fixture(messages, call) : fixture;
+    const content = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+
+    return {
+      content,
+      usage: {
+        promptTokens: Math.ceil(messages.reduce((total, message) => total + message.content.length, 0) / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  /**
+   * Stream the fixture word by word
+   */
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void,
+    options: ChatOptions = {}
+  ): Promise<LLMResponse> {
+    const response = await this.chat(messages, options);
+    (response.content.match(/\s*\S+/g) || []).forEach(token => onToken(token));
+    return response;
+  }
+}
+
+/**
+ * Create a mock client with the default fixtures, delayed by MOCK_LLM_LATENCY_MS
+ */
+export function createMockLLMClient(model: string = 'mock-model'): MockLLMClient {
+  return new MockLLMClient({
+    model,
+    latencyMs: Number(process.env.MOCK_LLM_LATENCY_MS) || undefined,
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * Default responses of the mock LLM provider, one per step tag
+ * Each fixture validates against its agent's schema, and the draft clears the
+ * reviewer and similarity thresholds so a mock execution runs straight to the draft gate.
+ */
+
+const DRAFT_SECTIONS = [
+  {
+    heading: 'Why Offline Pipelines Matter',
+    sentences: [
+      'Reliable tooling starts with feedback loops that do not depend on anything outside the developer laptop.',
+      'When every run needs a hosted model, a flaky connection turns a small change into an afternoon of retries.',
+      'Deterministic responses make failures reproducible, which is the first step towards fixing them quickly.',
+      'Teams that can rehearse an entire release offline tend to ship smaller changes with far more confidence.',
+    ],
+  },
+  {
+    heading: 'Designing Predictable Fixtures',
+    sentences: [
+      'A good fixture mirrors the shape of real output closely enough that downstream code cannot tell the difference.',
+      'Keeping fixtures small and readable lets reviewers see at a glance what each scenario is meant to exercise.',
+      'Injecting failures and latency on purpose reveals how retries, fallbacks and timeouts behave under pressure.',
+      'Recording every request alongside its response turns a fixture into a precise specification of the contract.',
+    ],
+  },
+  {
+    heading: 'Putting It Into Practice',
+    sentences: [
+      'Start by replacing the slowest external dependency, then widen the boundary as confidence in the fixtures grows.',
+      'Run the complete flow on every commit so regressions in orchestration surface long before they reach editors.',
+      'Treat a failing scenario as documentation of a gap rather than noise to silence with another retry.',
+      'Over time the suite becomes the quickest way for newcomers to learn how every stage hands work to the next.',
+    ],
+  },
+];
+
+// Three paragraphs per section keeps the draft comfortably above the minimum word count
+const DRAFT_PARAGRAPHS = [
+  'Modern content teams depend on automated pipelines, yet few of them can exercise those pipelines without a live model behind every step.',
+  ...DRAFT_SECTIONS.flatMap(section => [0, 1, 2].map(offset =>
+    [0, 1, 2, 3].map(index => section.sentences[(index + offset) % section.sentences.length]).join(' ')
+  )),
+  'Offline, deterministic runs turn an unpredictable integration into a routine check that every contributor can repeat in seconds.',
+];
+
+export const DEFAULT_MOCK_FIXTURES = {
+  concept_extraction: {
+    concepts: [
+      'Offline development workflows',
+      'Deterministic test fixtures',
+      'Failure injection',
+      'Pipeline orchestration',
+      'Release confidence',
+    ],
+    summary: 'Building confidence in content pipelines by running them offline against predictable fixtures.',
+  },
+  article_outline: {
+    title: 'Testing Content Pipelines Without a Live Model',
+    introduction: [
+      'Why live model dependencies slow teams down',
+      'What deterministic fixtures make possible',
+    ],
+    sections: DRAFT_SECTIONS.map(section => ({
+      heading: section.heading,
+      keyPoints: section.sentences.slice(0, 3),
+    })),
+    conclusion: [
+      'Offline runs make orchestration regressions cheap to catch',
+      'Start small and widen the boundary over time',
+    ],
+  },
+  article_draft: {
+    title: 'Testing Content Pipelines Without a Live Model',
+    metaDescription: 'Learn how deterministic fixtures, injected failures and offline runs make content pipelines faster to test and safer to change.',
+    bodyParagraphs: DRAFT_PARAGRAPHS,
+  },
+  draft_review: {
+    score: 88,
+    comments: 'A clear, well-structured draft with a consistent tone and practical advice.',
+    strengths: [
+      'Logical progression from motivation to practice',
+      'Concrete, actionable recommendations',
+    ],
+    improvements: [
+      'Add a short example of a fixture file',
+    ],
+  },
+};
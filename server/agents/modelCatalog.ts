@@ -0,0 +1,280 @@
+import axios from 'axios';
+import { LLM_PROVIDERS, LLMProvider } from './llmClient';
+import { createOllamaClient } from './ollamaClient';
+import { createOpenAICompatibleClient } from './openAICompatibleClient';
+import { DEFAULT_MODEL, isProviderConfigured } from './clientFactory';
+import type { ModelPrice } from './llmPricing';
+import { redactString } from '../_core/redact';
+
+export const MODEL_CAPABILITIES = ['structured-output', 'tools', 'vision', 'reasoning'] as const;
+export type ModelCapability = typeof MODEL_CAPABILITIES[number];
+
+/**
+ * A model as listed by the catalog, normalized across providers
+ */
+export interface CatalogModel {
+  id: string; // Model name as sent to the provider
+  provider: LLMProvider;
+  name: string; // Display name
+  contextLength?: number; // Tokens, when the provider reports it
+  pricing?: ModelPrice; // USD per token, for hosted models
+  capabilities: ModelCapability[];
+  installed: boolean; // Servable now; suggested local models that are not pulled yet report false
+}
+
+/**
+ * Whether a provider's model list could be loaded
+ */
+export interface ProviderCatalogStatus {
+  provider: LLMProvider;
+  configured: boolean;
+  fetchedAt?: string;
+  error?: string;
+}
+
+export interface ModelCatalogQuery {
+  search?: string; // Case-insensitive match on id and name
+  provider?: LLMProvider;
+  installed?: boolean;
+  capability?: ModelCapability;
+  minContextLength?: number;
+  refresh?: boolean; // Bypass the cache
+}
+
+export interface ModelCatalogResult {
+  models: CatalogModel[];
+  providers: ProviderCatalogStatus[];
+}
+
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+
+// Hosted model lists change rarely; local servers change whenever a model is pulled or loaded
+const CATALOG_TTL_MS: Record<LLMProvider, number> = {
+  ollama: 60 * 1000,
+  openrouter: 60 * 60 * 1000,
+  'openai-compatible': 60 * 1000,
+  mock: 60 * 60 * 1000,
+};
+
+// Listed for Ollama even when not pulled, so a fresh install has something to choose from
+const SUGGESTED_OLLAMA_MODELS = [DEFAULT_MODEL, 'llama2', 'mistral'];
+
+interface CatalogEntry {
+  fetchedAt: number;
+  models: CatalogModel[];
+}
+
+const catalogCache = new Map<LLMProvider, CatalogEntry>();
+const catalogRequests = new Map<LLMProvider, Promise<CatalogEntry>>();
+
+/**
+ * Ollama: installed models from /api/tags plus the suggested models
+ * Every Ollama model accepts a JSON schema as `format`
+ */
+async function fetchOllamaModels(): Promise<CatalogModel[]> {
+  const tags = await createOllamaClient(DEFAULT_MODEL).listModels();
+
+  const installed: CatalogModel[] = tags.map(tag => {
+    const families = tag.details?.families || [];
+    const capabilities: ModelCapability[] = ['structured-output'];
+    if (families.includes('clip') || families.includes('mllama')) {
+      capabilities.push('vision');
+    }
+    return {
+      id: tag.name,
+      provider: 'ollama',
+      name: tag.details?.parameter_size ? `${tag.name} (${tag.details.parameter_size})` : tag.name,
+      capabilities,
+      installed: true,
+    };
+  });
+
+  const suggested: CatalogModel[] = SUGGESTED_OLLAMA_MODELS
+    .filter(model => !installed.some(m => m.id === model || m.id === `${model}:latest`))
+    .map(model => ({
+      id: model,
+      provider: 'ollama',
+      name: model,
+      capabilities: ['structured-output'],
+      installed: false,
+    }));
+
+  return [...installed, ...suggested];
+}
+
+/**
+ * OpenRouter: the public models list, with context length, pricing and supported parameters
+ */
+async function fetchOpenRouterModels(): Promise<CatalogModel[]> {
+  const response = await axios.get(OPENROUTER_MODELS_URL, { timeout: 10000 });
+
+  return (response.data?.data || [])
+    .filter((model: any) => model?.id)
+    .map((model: any): CatalogModel => {
+      const parameters: string[] = model.supported_parameters || [];
+      const inputModalities: string[] = model.architecture?.input_modalities || [];
+      const capabilities: ModelCapability[] = [];
+      if (parameters.includes('structured_outputs') || parameters.includes('response_format')) {
+        capabilities.push('structured-output');
+      }
+      if (parameters.includes('tools')) {
+        capabilities.push('tools');
+      }
+      if (inputModalities.includes('image')) {
+        capabilities.push('vision');
+      }
+      if (parameters.includes('reasoning')) {
+        capabilities.push('reasoning');
+      }
+
+      // Routers such as openrouter/auto report negative prices: the price depends on the routed model
+      const prompt = Number(model.pricing?.prompt);
+      const completion = Number(model.pricing?.completion);
+      const pricing = model.pricing && prompt >= 0 && completion >= 0
+        ? { prompt: prompt || 0, completion: completion || 0 }
+        : undefined;
+
+      return {
+        id: model.id,
+        provider: 'openrouter',
+        name: model.name || model.id,
+        contextLength: Number(model.context_length) || undefined,
+        pricing,
+        capabilities,
+        installed: true,
+      };
+    });
+}
+
+/**
+ * OpenAI-compatible: the models the configured server exposes through /models
+ */
+async function fetchOpenAICompatibleModels(): Promise<CatalogModel[]> {
+  const models = await createOpenAICompatibleClient(DEFAULT_MODEL).listModels();
+
+  return models.map(model => ({
+    id: model.id,
+    provider: 'openai-compatible',
+    name: model.id,
+    contextLength: model.max_model_len,
+    capabilities: [],
+    installed: true,
+  }));
+}
+
+/**
+ * Mock: accepts any model name; one is listed so it can be picked from the catalog
+ */
+async function fetchMockModels(): Promise<CatalogModel[]> {
+  return [{
+    id: 'mock-model',
+    provider: 'mock',
+    name: 'Mock (offline fixtures)',
+    capabilities: ['structured-output'],
+    installed: true,
+  }];
+}
+
+const FETCHERS: Record<LLMProvider, () => Promise<CatalogModel[]>> = {
+  ollama: fetchOllamaModels,
+  openrouter: fetchOpenRouterModels,
+  'openai-compatible': fetchOpenAICompatibleModels,
+  mock: fetchMockModels,
+};
+
+/**
+ * Cached models of one provider; concurrent callers share one request
+ */
+async function loadProvider(provider: LLMProvider, refresh = false): Promise<CatalogEntry> {
+  const cached = catalogCache.get(provider);
+  if (!refresh && cached && Date.now() - cached.fetchedAt < CATALOG_TTL_MS[provider]) {
+    return cached;
+  }
+
+  let request = catalogRequests.get(provider);
+  if (!request) {
+    request = FETCHERS[provider]()
+      .then(models => {
+        const entry = { fetchedAt: Date.now(), models };
+        catalogCache.set(provider, entry);
+        return entry;
+      })
+      .finally(() => {
+        catalogRequests.delete(provider);
+      });
+    catalogRequests.set(provider, request);
+  }
+
+  return request;
+}
+
+/**
+ * Models of one provider, or undefined when they cannot be loaded
+ * A failed refresh falls back to the last list that loaded
+ */
+export async function getProviderModels(provider: LLMProvider): Promise<CatalogModel[] | undefined> {
+  const [result] = await loadProviders([provider]);
+  return result.configured && (!result.error || result.fetchedAt) ? result.models : undefined;
+}
+
+async function loadProviders(
+  providers: readonly LLMProvider[],
+  refresh = false
+): Promise<Array<ProviderCatalogStatus & { models: CatalogModel[] }>> {
+  return Promise.all(providers.map(async provider => {
+    if (!isProviderConfigured(provider)) {
+      return { provider, configured: false, models: [] };
+    }
+
+    try {
+      const entry = await loadProvider(provider, refresh);
+      return { provider, configured: true, fetchedAt: new Date(entry.fetchedAt).toISOString(), models: entry.models };
+    } catch (error) {
+      const errorMessage = redactString(error instanceof Error ? error.message : 'Unknown error');
+      console.warn(`[ModelCatalog] Failed to load ${provider} models: ${errorMessage}`);
+
+      const stale = catalogCache.get(provider);
+      return {
+        provider,
+        configured: true,
+        fetchedAt: stale ? new Date(stale.fetchedAt).toISOString() : undefined,
+        error: errorMessage,
+        models: stale?.models || [],
+      };
+    }
+  }));
+}
+
+/**
+ * Search the catalog of every provider
+ * A provider that fails to load is reported in `providers` rather than failing the query
+ */
+export async function queryModelCatalog(query: ModelCatalogQuery = {}): Promise<ModelCatalogResult> {
+  const results = await loadProviders(query.provider ? [query.provider] : LLM_PROVIDERS, query.refresh);
+  const search = query.search?.trim().toLowerCase();
+
+  const models = results
+    .flatMap(result => result.models)
+    .filter(model =>
+      (!search || model.id.toLowerCase().includes(search) || model.name.toLowerCase().includes(search)) &&
+      (query.installed === undefined || model.installed === query.installed) &&
+      (!query.capability || model.capabilities.includes(query.capability)) &&
+      (!query.minContextLength || (model.contextLength || 0) >= query.minContextLength)
+    );
+
+  return {
+    models,
+    providers: results.map(({ models: _models, ...status }) => status),
+  };
+}
+
+/**
+ * Drop cached model lists, e.g. after pulling a model
+ */
+export function clearModelCatalog(provider?: LLMProvider): void {
+  if (provider) {
+    catalogCache.delete(provider);
+  } else {
+    catalogCache.clear();
+  }
+}
@@ -0,0 +1,233 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWorkflow } from './observerWorkflow';
+import { createWorkflowClients } from './clientFactory';
+import { MockLLMClient } from './mockClient';
+import { DEFAULT_MOCK_FIXTURES } from './mockFixtures';
+import { conceptExtractionSchema } from './metadataSummarizer';
+import { outlineSchema } from './outlineGenerator';
+import { draftSchema } from './draftGenerator';
+import { reviewerOutputSchema } from './reviewerAgent';
+import { getPipelineExecution } from '../pipelineState';
+import { saveInspirationUpload } from '../inspirationUploads';
+import { resolveCredential, storeAnonymousCredential, storeCredential } from '../credentialVault';
+
+// Runs against SQLITE_DB_PATH=:memory: and MOCK_LLM_ENABLED=true (see vitest.config.ts)
+
+vi.mock('./metadataExtractor', async importOriginal => ({
+  ...(await importOriginal<typeof import('./metadataExtractor')>()),
+  extractMetadata: vi.fn(async (url: string) => (url === 'https://example.org/starter' ? {
+    title: 'Keeping a Starter Alive',
+    metaDescription: 'A feeding routine for busy bakers.',
+    headings: ['Starter care', 'Discard recipes'],
+  } : {
+    title: 'A Field Guide to Sourdough Baking',
+    metaDescription: 'Everything you need to know about starters, hydration and baking schedules.',
+    headings: ['Feeding a starter', 'Choosing a flour', 'Shaping and proofing'],
+  })),
+}));
+
+const INSPIRATION_URL = 'https://example.com/sourdough';
+const SECOND_URL = 'https://example.org/starter';
+
+async function auditEvents(executionId: string) {
+  const execution = await getPipelineExecution(executionId);
+  return execution?.metrics.auditLog || [];
+}
+
+describe('MockLLMClient fixtures', () => {
+  it('validate against the agent schemas', () => {
+    expect(conceptExtractionSchema.safeParse(DEFAULT_MOCK_FIXTURES.concept_extraction).success).toBe(true);
+    expect(outlineSchema.safeParse(DEFAULT_MOCK_FIXTURES.article_outline).success).toBe(true);
+    expect(draftSchema.safeParse(DEFAULT_MOCK_FIXTURES.article_draft).success).toBe(true);
+    expect(reviewerOutputSchema.safeParse(DEFAULT_MOCK_FIXTURES.draft_review).success).toBe(true);
+  });
+
+  it('rejects requests without a known step tag', async () => {
+    const client = new MockLLMClient();
+    await expect(client.chat([{ role: 'user', content: 'Hello' }])).rejects.toThrow(/no fixture/);
+  });
+
+  it('delays responses by the configured latency', async () => {
+    const client = new MockLLMClient({ latencyMs: { draft_review: 50 } });
+    const startedAt = Date.now();
+    await client.chat([{ role: 'user', content: 'Review' }], {
+      responseFormat: { name: 'draft_review', schema: {} },
+    });
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+  });
+});
+
+describe('ObserverWorkflow with the mock provider', () => {
+  it('runs execute → concept gate → draft gate → HTML', async () => {
+    const { llmClient, clientFactory } = createWorkflowClients({ provider: 'mock', model: 'mock-model' });
+    const workflow = createWorkflow(llmClient, {}, clientFactory);
+
+    const started = await workflow.execute({ url: INSPIRATION_URL, provider: 'mock', model: 'mock-model' });
+    expect(started.status).toBe('suspended');
+    expect(started.concepts.concepts).toEqual(DEFAULT_MOCK_FIXTURES.concept_extraction.concepts);
+    expect(started.outline).toBeUndefined();
+
+    const atDraftGate = await workflow.resume(started.executionId, { gate: 'concepts', approved: true });
+    expect(atDraftGate.status).toBe('suspended');
+    expect(atDraftGate.outline?.title).toBe(DEFAULT_MOCK_FIXTURES.article_outline.title);
+    expect(atDraftGate.draft?.title).toBe(DEFAULT_MOCK_FIXTURES.article_draft.title);
+    expect(atDraftGate.review?.score).toBe(DEFAULT_MOCK_FIXTURES.draft_review.score);
+    expect(atDraftGate.html).toBeUndefined();
+
+    const completed = await workflow.resume(started.executionId, { gate: 'draft', approved: true });
+    expect(completed.status).toBe('success');
+    expect(completed.html).toContain('<!DOCTYPE html>');
+    expect(completed.html).toContain(DEFAULT_MOCK_FIXTURES.article_draft.title);
+
+    const execution = await getPipelineExecution(started.executionId);
+    expect(execution?.status).toBe('completed');
+    expect(execution?.metrics.tokenUsage?.draft).toBeGreaterThan(0);
+
+    const events = await auditEvents(started.executionId);
+    expect(events.some(entry => entry.event === 'REVISION_TRIGGERED')).toBe(false);
+    const draftStep = events.find(entry => entry.event === 'STEP_COMPLETED' && entry.stepId === 'draft-generation');
+    expect(draftStep?.data.servedBy).toEqual({ draft: ['mock:mock-model'] });
+    expect(draftStep?.data.prompts).toEqual([{ templateId: 'draft-generation', version: 1 }]);
+    expect(events[events.length - 1].event).toBe('WORKFLOW_COMPLETED');
+  });
+
+  it('repairs a malformed fixture through structured output', async () => {
+    const client = new MockLLMClient({
+      fixtures: {
+        article_outline: (_messages: unknown, call: number) =>
+          call === 1 ? 'Sure! Here is your outline.' : DEFAULT_MOCK_FIXTURES.article_outline,
+      },
+    });
+    const workflow = createWorkflow(client);
+
+    const started = await workflow.execute({ url: INSPIRATION_URL });
+    const atDraftGate = await workflow.resume(started.executionId, { gate: 'concepts', approved: true });
+
+    expect(atDraftGate.status).toBe('suspended');
+    expect(atDraftGate.outline?.title).toBe(DEFAULT_MOCK_FIXTURES.article_outline.title);
+    expect(client.callCount('article_outline')).toBe(2);
+  });
+
+  it('falls back to keyword concepts when concept extraction fails', async () => {
+    const client = new MockLLMClient({ failures: { concept_extraction: {} } });
+    const workflow = createWorkflow(client);
+
+    const started = await workflow.execute({ url: INSPIRATION_URL });
+
+    expect(started.status).toBe('suspended');
+    expect(started.concepts.concepts).not.toEqual(DEFAULT_MOCK_FIXTURES.concept_extraction.concepts);
+    const events = await auditEvents(started.executionId);
+    const conceptStep = events.find(entry => entry.event === 'STEP_COMPLETED' && entry.stepId === 'concept-extraction');
+    expect(conceptStep?.data.usedFallback).toBe(true);
+  });
+
+  it('fails the execution when draft generation keeps failing', async () => {
+    const client = new MockLLMClient({ failures: { article_draft: { message: 'model overloaded' } } });
+    const workflow = createWorkflow(client);
+
+    const started = await workflow.execute({ url: INSPIRATION_URL });
+    const failed = await workflow.resume(started.executionId, { gate: 'concepts', approved: true });
+
+    expect(failed.status).toBe('error');
+    expect(failed.error).toContain('model overloaded');
+    expect((await getPipelineExecution(started.executionId))?.status).toBe('failed');
+    const events = await auditEvents(started.executionId);
+    expect(events.some(entry => entry.event === 'STEP_FAILED' && entry.stepId === 'draft-generation')).toBe(true);
+  });
+
+  it("deletes an anonymous caller's key when the execution ends", async () => {
+    const anonymousRef = storeAnonymousCredential('openrouter', 'sk-or-v1-anonymous');
+    const userRef = storeCredential('editor-keeps-key', 'openrouter', 'sk-or-v1-signed-in');
+    const workflow = createWorkflow(new MockLLMClient());
+
+    const anonymous = await workflow.execute({ url: INSPIRATION_URL, credentialRef: anonymousRef });
+    const signedIn = await workflow.execute({ url: INSPIRATION_URL, credentialRef: userRef });
+    expect(resolveCredential(anonymousRef)).toBe('sk-or-v1-anonymous');
+
+    await workflow.resume(anonymous.executionId, { gate: 'concepts', approved: false });
+    await workflow.resume(signedIn.executionId, { gate: 'concepts', approved: false });
+
+    expect((await getPipelineExecution(anonymous.executionId))?.status).toBe('rejected');
+    expect(resolveCredential(anonymousRef)).toBeUndefined();
+    expect(resolveCredential(userRef)).toBe('sk-or-v1-signed-in');
+  });
+
+  it('sends the draft to the editor when the review fails', async () => {
+    const client = new MockLLMClient({ failures: { draft_review: { times: 1 } } });
+    const workflow = createWorkflow(client);
+
+    const started = await workflow.execute({ url: INSPIRATION_URL });
+    const atDraftGate = await workflow.resume(started.executionId, { gate: 'concepts', approved: true });
+
+    // The failed review leaves no score, so the draft goes to the editor without a revision
+    expect(atDraftGate.status).toBe('suspended');
+    expect(atDraftGate.review).toBeUndefined();
+    const events = await auditEvents(started.executionId);
+    expect(events.some(entry => entry.event === 'STEP_FAILED' && entry.stepId === 'draft-review')).toBe(true);
+    expect(client.callCount('draft_review')).toBe(1);
+  });
+
+  it('merges concepts from several sources and checks the draft against each', async () => {
+    const client = new MockLLMClient({
+      fixtures: {
+        concept_extraction: {
+          concepts: [
+            { concept: 'Starter care', sources: [1, 2] },
+            { concept: 'starter care!', sources: [2] },
+            'Hydration',
+          ],
+          summary: 'Sourdough basics from two guides.',
+        },
+      },
+    });
+    const workflow = createWorkflow(client);
+
+    const started = await workflow.execute({ url: INSPIRATION_URL, urls: [INSPIRATION_URL, SECOND_URL] });
+    expect(started.concepts.concepts).toEqual(['Starter care', 'Hydration']);
+    expect(started.concepts.conceptSources).toEqual({
+      'Starter care': [INSPIRATION_URL, SECOND_URL],
+      Hydration: [INSPIRATION_URL],
+    });
+
+    const execution = await getPipelineExecution(started.executionId);
+    expect(execution?.context.sources?.map(source => source.url)).toEqual([INSPIRATION_URL, SECOND_URL]);
+    expect(execution?.context.metadata?.title).toBe('A Field Guide to Sourdough Baking');
+
+    const atDraftGate = await workflow.resume(started.executionId, { gate: 'concepts', approved: true });
+    expect(atDraftGate.similarity?.sources?.map(source => source.url)).toEqual([INSPIRATION_URL, SECOND_URL]);
+    expect(atDraftGate.similarity?.distinctivenessScore).toBe(
+      Math.min(...atDraftGate.similarity!.sources!.map(source => source.distinctivenessScore))
+    );
+  });
+
+  it('pools pasted text and uploaded files with a URL', async () => {
+    const upload = saveInspirationUpload({
+      editorId: 'test-editor',
+      fileName: 'hydration.md',
+      fileType: 'markdown',
+      size: 120,
+      metadata: { title: 'Hydration Notes', metaDescription: '', headings: ['Hydration Notes', 'Autolyse'] },
+    });
+    const workflow = createWorkflow(new MockLLMClient());
+
+    const started = await workflow.execute({
+      url: INSPIRATION_URL,
+      sources: [
+        { type: 'url', url: INSPIRATION_URL },
+        { type: 'text', text: 'Baking Schedules\n\nOvernight proofing\n\nRetard the dough in the fridge for a milder flavour.' },
+        { type: 'file', uploadId: upload.uploadId },
+      ],
+    });
+    expect(started.status).toBe('suspended');
+
+    const execution = await getPipelineExecution(started.executionId);
+    expect(execution?.context.sources?.map(source => [source.type, source.metadata.title])).toEqual([
+      [undefined, 'A Field Guide to Sourdough Baking'],
+      ['text', 'Baking Schedules'],
+      ['file', 'Hydration Notes'],
+    ]);
+    expect(execution?.context.sources?.[1].url).toMatch(/^text:[0-9a-f]{12}$/);
+    expect(execution?.context.sources?.[1].metadata.headings.h2).toEqual(['Overnight proofing']);
+    expect(execution?.context.sources?.[2].url).toBe(`upload:${upload.uploadId}`);
+  });
+});
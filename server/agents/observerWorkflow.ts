@@ -1,27 +1,77 @@
-import { extractMetadata, ExtractedMetadata } from './metadataExtractor';
-import { LLMClient } from './llmClient';
-import { MetadataSummarizer, ConceptExtractionResult } from './metadataSummarizer';
-import { OutlineGenerator, OutlineOutput } from './outlineGenerator';
-import { DraftGenerator, DraftOutput } from './draftGenerator';
-import { HtmlFormatter } from './htmlFormatter';
+import { ExtractedMetadata, PageSource } from './metadataExtractor';
+import { InspirationSource } from './inspirationSources';
+import { FetchErrorCode, getFetchBlockedError } from './safeFetch';
+import { LLMClient, LLMProvider } from './llmClient';
+import { ConceptExtractionResult } from './metadataSummarizer';
+import { OutlineOutput } from './outlineGenerator';
+import { DraftOutput } from './draftGenerator';
+import { ReviewerOutput } from './reviewerAgent';
+import { SimilarityMonitor, SimilarityOutput, createEmbeddingProvider } from './similarityMonitor';
+import { MeterReading, UsageMeter } from './usageMeter';
+import { createStreamingClient } from './streamRelay';
+import { deleteAnonymousCredential } from '../credentialVault';
 import {
+  DEFAULT_PIPELINE_ID,
+  PipelineDefinition,
+  PipelineOverrides,
+  PipelineStepNode,
+  resolvePipelineDefinition,
+} from './pipelineDefinition';
+import {
+  RevisionConfig,
+  DEFAULT_REVISION_CONFIG,
+  StepServices,
+  createStepServices,
+  describeSlotModels,
+  drainPromptAudit,
+  getStep,
+  toExtractedMetadata,
+} from './pipelineSteps';
+import {
+  ResumeData,
+  PipelineGateHandler,
+  GateRunContext,
+  getGate,
+  getGateBySuspensionStep,
+  getResumeDecision,
+} from './pipelineGates';
+import {
+  pipelineState,
   createPipelineExecution,
   updatePipelineExecution,
   addAuditLogEntry,
+  recordTokenUsage,
   saveSuspensionState,
   loadSuspensionState,
   clearSuspensionState,
   getPipelineExecution,
   PipelineInput,
+  PipelineExecution,
   PipelineContext,
+  ModelSlot,
+  StepModelConfig,
+  StepModels,
 } from '../pipelineState';
 
+export { DEFAULT_REVISION_CONFIG } from './pipelineSteps';
+export type { RevisionConfig } from './pipelineSteps';
+export type { ResumeData, ResumeDecision } from './pipelineGates';
+
 export interface WorkflowInput {
   url: string;
+  urls?: string[]; // Every inspiration URL when the brief cites several; url is the first
   editorId?: string;
   model?: string;
-  provider?: 'ollama' | 'openrouter';
-  apiKey?: string;
+  provider?: LLMProvider;
+  credentialRef?: string; // Credential vault reference for the provider API key
+  pipelineId?: string; // Registered pipeline definition to run (default: 'default')
+  gates?: PipelineOverrides['gates']; // Enable or disable gates for this execution
+  outlineApproval?: boolean; // Shorthand for gates.outline = true
+  stepModels?: StepModels; // Run individual agents on their own model/provider
+  fallbacks?: StepModelConfig[]; // Recorded on the execution so resume rebuilds the same fallback chain
+  cacheResponses?: boolean; // Serve repeated LLM requests from the response cache, also on resume
+  source?: PageSource; // Pasted HTML or local HTML file extracted before the URL is fetched
+  sources?: InspirationSource[]; // Inspiration of any kind (text, uploads, feed entries); url is the first one's reference
 }
 
 export interface WorkflowOutput {
@@ -31,43 +81,49 @@ export interface WorkflowOutput {
   concepts: ConceptExtractionResult;
   outline?: OutlineOutput;
   draft?: DraftOutput;
+  review?: ReviewerOutput;
+  similarity?: SimilarityOutput;
   html?: string;
   status: 'success' | 'error' | 'suspended';
   error?: string;
+  errorCode?: FetchErrorCode; // Set when the inspiration URL fetch was refused by the fetch policy
   executedAt: string;
 }
 
-export interface ResumeData {
-  gate: 'concepts' | 'draft';
-  approved: boolean;
-  comments?: string;
-}
+/**
+ * Builds an LLM client for a step or agent slot that runs on its own model
+ * provider is undefined when the execution's default provider should be used
+ */
+export type LLMClientFactory = (model: string, provider?: LLMProvider) => LLMClient;
+
+const MODEL_SLOTS: ModelSlot[] = ['summarizer', 'outline', 'draft', 'reviewer'];
+
+// Slots whose output is relayed to the client token by token while it is generated
+const STREAMED_SLOTS: ModelSlot[] = ['outline', 'draft'];
 
 /**
  * Observer Agent Workflow
- * Orchestrates the linear pipeline:
- * Start → Metadata Extractor → Metadata Summarizer → End
- *
- * This is the main workflow that validates LLM integration
+ * Interprets a pipeline definition (see pipelineDefinition.ts):
+ * steps come from the step registry, gates suspend the execution for human review
+ * and resume generically from the gate's position in the definition
  */
 export class ObserverWorkflow {
   private llmClient: LLMClient;
-  private summarizer: MetadataSummarizer;
-  private outlineGenerator: OutlineGenerator;
-  private draftGenerator: DraftGenerator;
-  private htmlFormatter: HtmlFormatter;
+  private clientFactory?: LLMClientFactory;
+  private similarityMonitor: SimilarityMonitor;
+  private revisionConfig: RevisionConfig;
+  private clients = new Map<string, LLMClient>();
 
-  constructor(llmClient: LLMClient) {
+  constructor(llmClient: LLMClient, revisionConfig: Partial<RevisionConfig> = {}, clientFactory?: LLMClientFactory) {
     this.llmClient = llmClient;
-    this.summarizer = new MetadataSummarizer(llmClient);
-    this.outlineGenerator = new OutlineGenerator(llmClient);
-    this.draftGenerator = new DraftGenerator(llmClient);
-    this.htmlFormatter = new HtmlFormatter();
+    this.clientFactory = clientFactory;
+    this.revisionConfig = { ...DEFAULT_REVISION_CONFIG, ...revisionConfig };
+    this.similarityMonitor = new SimilarityMonitor(createEmbeddingProvider());
   }
 
   /**
-   * Execute the complete workflow with database persistence
-   * 
+   * Execute the workflow with database persistence, up to the first enabled gate
+   *
    * Requirements: 1.1, 1.3, 1.5
    */
   async execute(input: WorkflowInput): Promise<WorkflowOutput> {
@@ -75,17 +131,30 @@ export class ObserverWorkflow {
     let executionId: string | undefined;
 
     try {
+      const gates = { ...input.gates };
+      if (input.outlineApproval) {
+        gates.outline = true;
+      }
+      const pipeline = resolvePipelineDefinition(input.pipelineId || DEFAULT_PIPELINE_ID, { gates });
+
       // Create pipeline execution in database
       const pipelineInput: PipelineInput = {
         inspirationUrl: input.url,
         editorId: input.editorId || 'default-editor',
         model: input.model,
         provider: input.provider,
-        apiKey: input.apiKey,
+        credentialRef: input.credentialRef,
+        pipeline,
+        stepModels: input.stepModels,
+        fallbacks: input.fallbacks,
+        cacheResponses: input.cacheResponses,
+        inspirationSource: input.source,
+        inspirationUrls: input.urls && input.urls.length > 1 ? input.urls : undefined,
+        inspirationSources: input.sources?.some(source => source.type !== 'url') ? input.sources : undefined,
       };
 
-      console.log(`[Workflow] Creating pipeline execution for URL: ${input.url}`);
-      
+      console.log(`[Workflow] Creating pipeline execution for URL: ${input.url} (pipeline: ${pipeline.id})`);
+
       try {
         const execution = await createPipelineExecution(pipelineInput);
         executionId = execution.executionId;
@@ -100,158 +169,11 @@ export class ObserverWorkflow {
         throw new Error(`Failed to initialize pipeline: ${errorMessage}`);
       }
 
-      // Step 1: Metadata Extraction (Deterministic)
-      console.log(`[Workflow] Step 1: Starting metadata extraction`);
-      let metadata: ExtractedMetadata;
-      
-      try {
-        await addAuditLogEntry(executionId, 'STEP_STARTED', 'metadata-extraction', {
-          url: input.url,
-        });
-
-        metadata = await extractMetadata(input.url);
-        console.log(`[Workflow] Extracted metadata: ${metadata.title}, ${metadata.headings.length} headings`);
-
-        // Save metadata to context
-        const metadataContext: PipelineContext = {
-          metadata: {
-            title: metadata.title,
-            metaDescription: metadata.metaDescription,
-            headings: {
-              h1: [],
-              h2: metadata.headings,
-              h3: [],
-            },
-            extractedAt: new Date().toISOString(),
-          },
-        };
-
-        await updatePipelineExecution(executionId, {
-          context: metadataContext,
-        });
-
-        await addAuditLogEntry(executionId, 'STEP_COMPLETED', 'metadata-extraction', {
-          title: metadata.title,
-          headingCount: metadata.headings.length,
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`[Workflow] Metadata extraction failed:`, {
-          error: errorMessage,
-          stack: error instanceof Error ? error.stack : undefined,
-          url: input.url,
-          executionId,
-        });
-
-        await addAuditLogEntry(executionId, 'STEP_FAILED', 'metadata-extraction', {
-          error: errorMessage,
-          url: input.url,
-        });
-
-        throw new Error(`Metadata extraction failed: ${errorMessage}`);
-      }
-
-      // Step 2: Metadata Summarization (LLM-Powered)
-      console.log(`[Workflow] Step 2: Starting concept extraction`);
-      let concepts: ConceptExtractionResult;
-      
-      try {
-        await addAuditLogEntry(executionId, 'STEP_STARTED', 'concept-extraction', {});
-
-        // Try to extract concepts if LLM is available, otherwise use a fallback
-        try {
-          const isLlmAvailable = await this.llmClient.checkHealth();
-          if (isLlmAvailable) {
-            concepts = await this.summarizer.extractConcepts(metadata);
-            console.log(`[Workflow] Extracted ${concepts.concepts.length} concepts using LLM`);
-          } else {
-            throw new Error('LLM not available, using fallback concepts');
-          }
-        } catch (error) {
-          // Fallback to simple keyword extraction if LLM is not available
-          console.log(`[Workflow] Using fallback concept extraction`);
-          concepts = this.extractFallbackConcepts(metadata);
-        }
-
-        // Save concepts to context
-        await updatePipelineExecution(executionId, {
-          context: {
-            concepts: concepts.concepts,
-          },
-        });
-
-        await addAuditLogEntry(executionId, 'STEP_COMPLETED', 'concept-extraction', {
-          conceptCount: concepts.concepts.length,
-          usedFallback: !(await this.llmClient.checkHealth())
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`[Workflow] Concept extraction failed:`, {
-          error: errorMessage,
-          stack: error instanceof Error ? error.stack : undefined,
-          executionId,
-          metadataTitle: metadata.title,
-        });
-
-        await addAuditLogEntry(executionId, 'STEP_FAILED', 'concept-extraction', {
-          error: errorMessage,
-        });
-
-        // Instead of failing, continue with empty concepts
-        concepts = { concepts: [], summary: 'No concepts extracted' };
-      }
-
-      // Concept Approval Gate - Suspend workflow for human review
-      console.log(`[Workflow] Concept Approval Gate: Suspending for human review`);
-      
-      try {
-        // Ensure concepts is an array of strings
-        const conceptList = Array.isArray(concepts.concepts) ? concepts.concepts : [];
-        
-        await saveSuspensionState(
-          executionId,
-          'Waiting for concept approval',
-          'gate-concept-approval',
-          {
-            gate: 'concepts',
-            concepts: conceptList,
-            metadata: {
-              title: metadata.title || 'Untitled',
-              url: input.url,
-              extractedAt: new Date().toISOString(),
-            }
-          }
-        );
-
-        console.log(`[Workflow] Workflow suspended at concept approval gate: ${executionId}`);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`[Workflow] Failed to save suspension state:`, {
-          error: errorMessage,
-          stack: error instanceof Error ? error.stack : undefined,
-          executionId,
-        });
-
-        await addAuditLogEntry(executionId, 'STEP_FAILED', 'gate-concept-approval', {
-          error: errorMessage,
-        });
-
-        throw new Error(`Failed to suspend workflow: ${errorMessage}`);
-      }
-      
-      // Return suspended status - workflow will be resumed via resume() method
-      return {
-        executionId,
-        url: input.url,
-        metadata,
-        concepts,
-        status: 'suspended',
-        executedAt: startTime.toISOString(),
-      };
+      return await this.runNodes(executionId, pipeline, 0, input.url, startTime, input.stepModels);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const errorStack = error instanceof Error ? error.stack : undefined;
-      
+
       console.error(`[Workflow] Workflow execution failed:`, {
         error: errorMessage,
         stack: errorStack,
@@ -262,24 +184,7 @@ export class ObserverWorkflow {
 
       // Update execution status to failed if we have an executionId
       if (executionId) {
-        try {
-          await updatePipelineExecution(executionId, {
-            status: 'failed',
-          });
-
-          await addAuditLogEntry(executionId, 'WORKFLOW_FAILED', 'workflow', {
-            error: errorMessage,
-            stack: errorStack,
-            totalDuration: Date.now() - startTime.getTime(),
-          });
-        } catch (updateError) {
-          const updateErrorMessage = updateError instanceof Error ? updateError.message : 'Unknown error';
-          console.error(`[Workflow] Failed to update execution status:`, {
-            error: updateErrorMessage,
-            stack: updateError instanceof Error ? updateError.stack : undefined,
-            executionId,
-          });
-        }
+        await this.markFailed(executionId, errorMessage, errorStack, startTime);
       }
 
       return {
@@ -289,6 +194,7 @@ export class ObserverWorkflow {
         concepts: { concepts: [], summary: '' },
         status: 'error',
         error: errorMessage,
+        errorCode: getFetchBlockedError(error)?.code,
         executedAt: startTime.toISOString(),
       };
     }
@@ -296,25 +202,27 @@ export class ObserverWorkflow {
 
   /**
    * Resume workflow execution from a suspension point
-   * 
+   * The gate is identified from the suspension state; approval continues with the
+   * node after the gate in the execution's pipeline definition
+   *
    * @param executionId - The execution ID to resume
    * @param resumeData - Data containing approval decision and comments
    * @returns The workflow output after resuming
-   * 
+   *
    * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5
    */
   async resume(executionId: string, resumeData: ResumeData): Promise<WorkflowOutput> {
     const startTime = new Date();
-    // Move input variable declaration to outer scope so it's accessible in catch blocks
-    let input: any;
+    let url: string | undefined;
 
     try {
       console.log(`[Workflow] Resuming execution: ${executionId}`);
 
       // Load suspension state
       let suspensionState;
-      let execution;
-      let context: any;
+      let pipeline: PipelineDefinition;
+      let context: PipelineContext;
+      let stepModels: StepModels | undefined;
 
       try {
         suspensionState = await loadSuspensionState(executionId);
@@ -323,21 +231,17 @@ export class ObserverWorkflow {
         }
 
         // Get the execution to retrieve context
-        execution = await getPipelineExecution(executionId);
+        const execution = await getPipelineExecution(executionId);
         if (!execution) {
           throw new Error(`Execution not found: ${executionId}`);
         }
 
-        // Handle both string and object formats for context
-        context = execution.context ? 
-          (typeof execution.context === 'string' ? JSON.parse(execution.context) : execution.context) : 
-          {};
-          
-        // Use inspirationUrl and editorId from execution
-        input = {
-          inspirationUrl: execution.inspirationUrl,
-          editorId: execution.editorId
-        };
+        context = this.parseContext(execution.context);
+        url = execution.inspirationUrl;
+        stepModels = execution.stepModels;
+
+        // Executions created before pipeline definitions existed run the default pipeline
+        pipeline = execution.pipeline || resolvePipelineDefinition();
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(`[Workflow] Failed to load execution state:`, {
@@ -348,322 +252,71 @@ export class ObserverWorkflow {
         throw new Error(`Failed to load execution state: ${errorMessage}`);
       }
 
-      // Handle concept approval gate
-      if (suspensionState.stepId === 'gate-concept-approval' && resumeData.gate === 'concepts') {
-        console.log(`[Workflow] Processing concept approval: ${resumeData.approved ? 'APPROVED' : 'REJECTED'}`);
-
-        try {
-          // Clear suspension state and resume
-          await clearSuspensionState(executionId, resumeData);
-
-          // Add audit log for approval decision
-          await addAuditLogEntry(executionId, 'CONCEPT_APPROVAL_DECISION', 'gate-concept-approval', {
-            approved: resumeData.approved,
-            comments: resumeData.comments,
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[Workflow] Failed to process concept approval:`, {
-            error: errorMessage,
-            stack: error instanceof Error ? error.stack : undefined,
-            executionId,
-          });
-          throw new Error(`Failed to process concept approval: ${errorMessage}`);
-        }
-
-        // If rejected, terminate the workflow
-        if (!resumeData.approved) {
-          console.log(`[Workflow] Concepts rejected - terminating workflow`);
-          
-          try {
-            await updatePipelineExecution(executionId, {
-              status: 'rejected',
-            });
-
-            await addAuditLogEntry(executionId, 'WORKFLOW_REJECTED', 'workflow', {
-              reason: 'Concepts rejected by editor',
-              comments: resumeData.comments,
-              totalDuration: Date.now() - startTime.getTime(),
-            });
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            console.error(`[Workflow] Failed to update rejection status:`, {
-              error: errorMessage,
-              stack: error instanceof Error ? error.stack : undefined,
-              executionId,
-            });
-          }
-
-          return {
-            executionId,
-            url: input.inspirationUrl,
-            metadata: context.metadata || { title: '', metaDescription: '', headings: [] },
-            concepts: { concepts: context.concepts || [], summary: '' },
-            status: 'error',
-            error: 'Workflow rejected at concept approval gate',
-            executedAt: startTime.toISOString(),
-          };
-        }
-
-        // If approved, continue with outline generation
-        console.log(`[Workflow] Concepts approved - continuing to outline generation`);
-
-        // Step 3: Outline Generation
-        console.log(`[Workflow] Step 3: Starting outline generation`);
-        let outline: OutlineOutput;
-        
-        try {
-          await addAuditLogEntry(executionId, 'STEP_STARTED', 'outline-generation', {});
-
-          outline = await this.outlineGenerator.generateOutline({
-            concepts: context.concepts || [],
-          });
-          console.log(`[Workflow] Generated outline with ${outline.sections.length} sections`);
-
-          // Save outline to context
-          await updatePipelineExecution(executionId, {
-            context: {
-              outline,
-            },
-          });
-
-          await addAuditLogEntry(executionId, 'STEP_COMPLETED', 'outline-generation', {
-            sectionCount: outline.sections.length,
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[Workflow] Outline generation failed:`, {
-            error: errorMessage,
-            stack: error instanceof Error ? error.stack : undefined,
-            executionId,
-            conceptCount: context.concepts?.length || 0,
-          });
-
-          await addAuditLogEntry(executionId, 'STEP_FAILED', 'outline-generation', {
-            error: errorMessage,
-          });
-
-          throw new Error(`Outline generation failed: ${errorMessage}`);
-        }
-
-        // Step 4: Draft Generation
-        console.log(`[Workflow] Step 4: Starting draft generation`);
-        let draft: DraftOutput;
-        
-        try {
-          await addAuditLogEntry(executionId, 'STEP_STARTED', 'draft-generation', {});
-
-          draft = await this.draftGenerator.generateDraft({
-            outline,
-          });
-          console.log(`[Workflow] Generated draft with ${draft.wordCount} words`);
-
-          // Save draft to context
-          await updatePipelineExecution(executionId, {
-            context: {
-              draft,
-            },
-          });
-
-          await addAuditLogEntry(executionId, 'STEP_COMPLETED', 'draft-generation', {
-            wordCount: draft.wordCount,
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[Workflow] Draft generation failed:`, {
-            error: errorMessage,
-            stack: error instanceof Error ? error.stack : undefined,
-            executionId,
-            outlineSections: outline.sections.length,
-          });
-
-          await addAuditLogEntry(executionId, 'STEP_FAILED', 'draft-generation', {
-            error: errorMessage,
-          });
-
-          throw new Error(`Draft generation failed: ${errorMessage}`);
-        }
-
-        // Draft Approval Gate - Suspend workflow for human review
-        console.log(`[Workflow] Draft Approval Gate: Suspending for human review`);
-        
-        try {
-          await saveSuspensionState(
-            executionId,
-            'Waiting for draft approval',
-            'gate-draft-approval',
-            {
-              gate: 'draft',
-              draft,
-              qualityScore: context.reviewScore,
-              distinctivenessScore: context.distinctivenessScore,
-            }
-          );
-
-          console.log(`[Workflow] Workflow suspended at draft approval gate: ${executionId}`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[Workflow] Failed to save draft suspension state:`, {
-            error: errorMessage,
-            stack: error instanceof Error ? error.stack : undefined,
-            executionId,
-          });
+      const gate = getGateBySuspensionStep(suspensionState.stepId);
+      const gateIndex = gate
+        ? pipeline.nodes.findIndex(node => node.kind === 'gate' && node.gate === gate.gate)
+        : -1;
+      if (!gate || gate.gate !== resumeData.gate || gateIndex === -1) {
+        throw new Error(`Invalid resume data: gate type mismatch or unsupported gate`);
+      }
 
-          await addAuditLogEntry(executionId, 'STEP_FAILED', 'gate-draft-approval', {
-            error: errorMessage,
-          });
+      const decision = getResumeDecision(resumeData);
+      console.log(`[Workflow] Processing ${gate.subject} approval: ${decision.toUpperCase()}`);
 
-          throw new Error(`Failed to suspend workflow at draft gate: ${errorMessage}`);
-        }
-        
-        // Return suspended status - workflow will be resumed via resume() method
-        return {
+      try {
+        // Clear suspension state and resume
+        await clearSuspensionState(executionId, resumeData);
+
+        // Add audit log for approval decision
+        await addAuditLogEntry(executionId, gate.decisionEvent, gate.stepId, {
+          approved: decision === 'approve',
+          decision,
+          comments: resumeData.comments,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[Workflow] Failed to process ${gate.subject} approval:`, {
+          error: errorMessage,
+          stack: error instanceof Error ? error.stack : undefined,
           executionId,
-          url: input.inspirationUrl,
-          metadata: context.metadata || { title: '', metaDescription: '', headings: [] },
-          concepts: { concepts: context.concepts || [], summary: '' },
-          outline,
-          draft,
-          status: 'suspended',
-          executedAt: startTime.toISOString(),
-        };
+        });
+        throw new Error(`Failed to process ${gate.subject} approval: ${errorMessage}`);
       }
 
-      // Handle draft approval gate
-      if (suspensionState.stepId === 'gate-draft-approval' && resumeData.gate === 'draft') {
-        console.log(`[Workflow] Processing draft approval: ${resumeData.approved ? 'APPROVED' : 'REJECTED'}`);
-
-        try {
-          // Clear suspension state and resume
-          await clearSuspensionState(executionId, resumeData);
-
-          // Add audit log for approval decision
-          await addAuditLogEntry(executionId, 'DRAFT_APPROVAL_DECISION', 'gate-draft-approval', {
-            approved: resumeData.approved,
-            comments: resumeData.comments,
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[Workflow] Failed to process draft approval:`, {
-            error: errorMessage,
-            stack: error instanceof Error ? error.stack : undefined,
-            executionId,
-          });
-          throw new Error(`Failed to process draft approval: ${errorMessage}`);
-        }
-
-        // If rejected, terminate the workflow
-        if (!resumeData.approved) {
-          console.log(`[Workflow] Draft rejected - terminating workflow`);
-          
-          try {
-            await updatePipelineExecution(executionId, {
-              status: 'rejected',
-            });
-
-            await addAuditLogEntry(executionId, 'WORKFLOW_REJECTED', 'workflow', {
-              reason: 'Draft rejected by editor',
-              comments: resumeData.comments,
-              totalDuration: Date.now() - startTime.getTime(),
-            });
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            console.error(`[Workflow] Failed to update rejection status:`, {
-              error: errorMessage,
-              stack: error instanceof Error ? error.stack : undefined,
-              executionId,
-            });
-          }
-
-          return {
-            executionId,
-            url: input.inspirationUrl,
-            metadata: context.metadata || { title: '', metaDescription: '', headings: [] },
-            concepts: { concepts: context.concepts || [], summary: '' },
-            outline: context.outline,
-            draft: context.draft,
-            status: 'error',
-            error: 'Workflow rejected at draft approval gate',
-            executedAt: startTime.toISOString(),
-          };
-        }
-
-        // If approved, continue with HTML formatting
-        console.log(`[Workflow] Draft approved - continuing to HTML formatting`);
-
-        // Step 5: HTML Formatting
-        console.log(`[Workflow] Step 5: Starting HTML formatting`);
-        let htmlOutput: string;
-        
-        try {
-          await addAuditLogEntry(executionId, 'STEP_STARTED', 'html-formatting', {});
-
-          htmlOutput = this.htmlFormatter.formatToHtml({
-            draft: context.draft,
-          }).html;
-
-          // Save HTML to context
-          await updatePipelineExecution(executionId, {
-            context: {
-              html: htmlOutput,
-            },
-          });
-
-          await addAuditLogEntry(executionId, 'STEP_COMPLETED', 'html-formatting', {});
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[Workflow] HTML formatting failed:`, {
-            error: errorMessage,
-            stack: error instanceof Error ? error.stack : undefined,
-            executionId,
-          });
-
-          await addAuditLogEntry(executionId, 'STEP_FAILED', 'html-formatting', {
-            error: errorMessage,
-          });
+      // If rejected, terminate the workflow
+      if (decision === 'reject') {
+        return this.reject(executionId, gate, context, url, resumeData.comments, startTime);
+      }
 
-          throw new Error(`HTML formatting failed: ${errorMessage}`);
-        }
+      const meter = new UsageMeter();
+      const gateContext: GateRunContext = {
+        executionId,
+        url,
+        context,
+        services: this.servicesFor(executionId, this.getStepModel(pipeline, gate.reviseStep), stepModels, meter),
+      };
 
-        // Complete the workflow
-        console.log(`[Workflow] Workflow completed successfully`);
-        
-        try {
-          await updatePipelineExecution(executionId, {
-            status: 'completed',
-          });
-
-          await addAuditLogEntry(executionId, 'WORKFLOW_COMPLETED', 'workflow', {
-            totalDuration: Date.now() - startTime.getTime(),
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[Workflow] Failed to update completion status:`, {
-            error: errorMessage,
-            stack: error instanceof Error ? error.stack : undefined,
-            executionId,
-          });
-        }
+      // Apply the editor's edits before continuing or revising
+      if (gate.applyEdits) {
+        await this.applyContextUpdates(executionId, context, await gate.applyEdits(gateContext, resumeData));
+      }
 
-        return {
-          executionId,
-          url: input.inspirationUrl,
-          metadata: context.metadata || { title: '', metaDescription: '', headings: [] },
-          concepts: { concepts: context.concepts || [], summary: '' },
-          outline: context.outline,
-          draft: context.draft,
-          html: htmlOutput,
-          status: 'success',
-          executedAt: startTime.toISOString(),
-        };
+      // If changes were requested, regenerate the gate's work and return to the same gate
+      if (decision === 'revise') {
+        const updates = await gate.revise(gateContext, resumeData.comments);
+        await this.recordUsage(executionId, meter);
+        await this.applyContextUpdates(executionId, context, updates);
+        await this.suspendAtGate(gate, gateContext);
+        return this.buildOutput(executionId, url, context, 'suspended', startTime);
       }
 
-      // If we get here, the suspension state doesn't match any known gate
-      throw new Error(`Invalid resume data: gate type mismatch or unsupported gate`);
+      // If approved, continue with the node after the gate
+      console.log(`[Workflow] ${gate.label} approved - continuing pipeline ${pipeline.id}`);
+      return await this.runNodes(executionId, pipeline, gateIndex + 1, url, startTime, stepModels);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const errorStack = error instanceof Error ? error.stack : undefined;
-      
+
       console.error(`[Workflow] Resume workflow failed:`, {
         error: errorMessage,
         stack: errorStack,
@@ -673,28 +326,11 @@ export class ObserverWorkflow {
       });
 
       // Update execution status to failed
-      try {
-        await updatePipelineExecution(executionId, {
-          status: 'failed',
-        });
-
-        await addAuditLogEntry(executionId, 'WORKFLOW_FAILED', 'workflow', {
-          error: errorMessage,
-          stack: errorStack,
-          totalDuration: Date.now() - startTime.getTime(),
-        });
-      } catch (updateError) {
-        const updateErrorMessage = updateError instanceof Error ? updateError.message : 'Unknown error';
-        console.error(`[Workflow] Failed to update execution status:`, {
-          error: updateErrorMessage,
-          stack: updateError instanceof Error ? updateError.stack : undefined,
-          executionId,
-        });
-      }
+      await this.markFailed(executionId, errorMessage, errorStack, startTime);
 
       return {
         executionId,
-        url: input?.inspirationUrl || 'unknown',
+        url: url || 'unknown',
         metadata: { title: '', metaDescription: '', headings: [] },
         concepts: { concepts: [], summary: '' },
         status: 'error',
@@ -705,38 +341,398 @@ export class ObserverWorkflow {
   }
 
   /**
-   * Extract fallback concepts when LLM is not available
-   * Simple keyword extraction from metadata
+   * Run pipeline nodes from startIndex until an enabled gate suspends the execution
+   * or the pipeline completes
    */
-  private extractFallbackConcepts(metadata: ExtractedMetadata): ConceptExtractionResult {
-    // Simple keyword extraction from title and headings
-    const text = `${metadata.title} ${metadata.headings.join(' ')}`;
-    const words = text.toLowerCase().match(/\b(\w+)\b/g) || [];
-    const wordCount: Record<string, number> = {};
-    
-    // Count word frequency
-    words.forEach(word => {
-      if (word.length > 3) { // Only consider words longer than 3 characters
-        wordCount[word] = (wordCount[word] || 0) + 1;
+  private async runNodes(
+    executionId: string,
+    pipeline: PipelineDefinition,
+    startIndex: number,
+    url: string,
+    startTime: Date,
+    stepModels?: StepModels
+  ): Promise<WorkflowOutput> {
+    for (let index = startIndex; index < pipeline.nodes.length; index++) {
+      const node = pipeline.nodes[index];
+
+      if (node.kind === 'gate') {
+        const gate = getGate(node.gate);
+        if (node.enabled === false) {
+          console.log(`[Workflow] Skipping disabled ${gate.subject} approval gate`);
+          continue;
+        }
+
+        const context = await this.loadContext(executionId);
+        await this.suspendAtGate(gate, {
+          executionId,
+          url,
+          context,
+          services: this.servicesFor(executionId, this.getStepModel(pipeline, gate.reviseStep), stepModels, new UsageMeter()),
+        });
+
+        // Return suspended status - workflow will be resumed via resume() method
+        return this.buildOutput(executionId, url, context, 'suspended', startTime);
       }
+
+      console.log(`[Workflow] Step ${index + 1}/${pipeline.nodes.length}: ${node.step}`);
+      await this.runStep(executionId, node, url, stepModels);
+    }
+
+    // Complete the workflow
+    console.log(`[Workflow] Workflow completed successfully`);
+
+    try {
+      await updatePipelineExecution(executionId, {
+        status: 'completed',
+      });
+      await this.releaseAnonymousCredential(executionId);
+
+      await addAuditLogEntry(executionId, 'WORKFLOW_COMPLETED', 'workflow', {
+        totalDuration: Date.now() - startTime.getTime(),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Workflow] Failed to update completion status:`, {
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+        executionId,
+      });
+    }
+
+    const context = await this.loadContext(executionId);
+    return this.buildOutput(executionId, url, context, 'success', startTime);
+  }
+
+  /**
+   * Run a registered step with audit logging and persist its context updates
+   */
+  private async runStep(
+    executionId: string,
+    node: PipelineStepNode,
+    url: string,
+    stepModels?: StepModels
+  ): Promise<void> {
+    const handler = getStep(node.step);
+    if (!handler) {
+      throw new Error(`Unknown pipeline step: ${node.step}`);
+    }
+
+    const meter = new UsageMeter();
+    try {
+      const execution = await this.loadExecution(executionId);
+      const ctx = {
+        executionId,
+        url,
+        inspirations: execution.inspirationSources ||
+          (execution.inspirationUrls || [url]).map((inspirationUrl): InspirationSource => ({ type: 'url', url: inspirationUrl })),
+        source: execution.inspirationSource,
+        context: this.parseContext(execution.context),
+        services: this.servicesFor(executionId, node.model, stepModels, meter),
+        revisionConfig: this.revisionConfig,
+      };
+
+      const models = describeSlotModels(ctx.services, handler.slots);
+      await addAuditLogEntry(executionId, 'STEP_STARTED', node.step, {
+        ...(handler.auditStart ? handler.auditStart(ctx) : {}),
+        ...(Object.keys(models).length > 0 ? { models } : {}),
+      });
+
+      const result = await handler.run(ctx);
+      const reading = await this.recordUsage(executionId, meter);
+
+      await updatePipelineExecution(executionId, {
+        context: result.context,
+      });
+
+      await addAuditLogEntry(executionId, 'STEP_COMPLETED', node.step, {
+        ...(result.audit || {}),
+        ...(reading?.usage ? { usage: reading.usage } : {}),
+        ...(reading ? { servedBy: reading.servedBy } : {}),
+        ...(reading?.cacheHits ? { cacheHits: reading.cacheHits } : {}),
+        ...drainPromptAudit(ctx.services),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Workflow] ${handler.label} failed:`, {
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+        executionId,
+        step: node.step,
+      });
+
+      // Calls made before the failure are still billed
+      await this.recordUsage(executionId, meter);
+
+      const blocked = getFetchBlockedError(error);
+      await addAuditLogEntry(executionId, 'STEP_FAILED', node.step, {
+        error: errorMessage,
+        ...(blocked ? { code: blocked.code } : {}),
+      });
+
+      throw new Error(`${handler.label} failed: ${errorMessage}`, { cause: error });
+    }
+  }
+
+  /**
+   * Suspend the workflow at an approval gate
+   */
+  private async suspendAtGate(gate: PipelineGateHandler, ctx: GateRunContext): Promise<void> {
+    const { executionId } = ctx;
+    console.log(`[Workflow] ${gate.label} Approval Gate: Suspending for human review`);
+
+    try {
+      await saveSuspensionState(executionId, gate.suspensionReason, gate.stepId, gate.buildSuspensionData(ctx));
+
+      console.log(`[Workflow] Workflow suspended at ${gate.subject} approval gate: ${executionId}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Workflow] Failed to save suspension state:`, {
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+        executionId,
+      });
+
+      await addAuditLogEntry(executionId, 'STEP_FAILED', gate.stepId, {
+        error: errorMessage,
+      });
+
+      throw new Error(`Failed to suspend workflow at ${gate.subject} gate: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Terminate the workflow after the editor rejects the work at a gate
+   */
+  private async reject(
+    executionId: string,
+    gate: PipelineGateHandler,
+    context: PipelineContext,
+    url: string,
+    comments: string | undefined,
+    startTime: Date
+  ): Promise<WorkflowOutput> {
+    console.log(`[Workflow] ${gate.label} rejected - terminating workflow`);
+
+    try {
+      await updatePipelineExecution(executionId, {
+        status: 'rejected',
+      });
+      await this.releaseAnonymousCredential(executionId);
+
+      await addAuditLogEntry(executionId, 'WORKFLOW_REJECTED', 'workflow', {
+        reason: `${gate.label} rejected by editor`,
+        comments,
+        totalDuration: Date.now() - startTime.getTime(),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Workflow] Failed to update rejection status:`, {
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+        executionId,
+      });
+    }
+
+    return this.buildOutput(
+      executionId,
+      url,
+      context,
+      'error',
+      startTime,
+      `Workflow rejected at ${gate.subject} approval gate`
+    );
+  }
+
+  /**
+   * Delete the key an anonymous caller sent with /start once the execution has ended
+   * Keys stored by signed-in users stay in their vault.
+   */
+  private async releaseAnonymousCredential(executionId: string): Promise<void> {
+    const execution = await getPipelineExecution(executionId);
+    if (execution?.credentialRef) {
+      deleteAnonymousCredential(execution.credentialRef);
+    }
+  }
+
+  /**
+   * Mark an execution as failed, logging rather than throwing if the update itself fails
+   */
+  private async markFailed(
+    executionId: string,
+    errorMessage: string,
+    errorStack: string | undefined,
+    startTime: Date
+  ): Promise<void> {
+    try {
+      await updatePipelineExecution(executionId, {
+        status: 'failed',
+      });
+      await this.releaseAnonymousCredential(executionId);
+
+      await addAuditLogEntry(executionId, 'WORKFLOW_FAILED', 'workflow', {
+        error: errorMessage,
+        stack: errorStack,
+        totalDuration: Date.now() - startTime.getTime(),
+      });
+    } catch (updateError) {
+      const updateErrorMessage = updateError instanceof Error ? updateError.message : 'Unknown error';
+      console.error(`[Workflow] Failed to update execution status:`, {
+        error: updateErrorMessage,
+        stack: updateError instanceof Error ? updateError.stack : undefined,
+        executionId,
+      });
+    }
+  }
+
+  /**
+   * Persist gate context updates and merge them into the in-memory context
+   */
+  private async applyContextUpdates(
+    executionId: string,
+    context: PipelineContext,
+    updates: Partial<PipelineContext>
+  ): Promise<void> {
+    if (Object.keys(updates).length === 0) {
+      return;
+    }
+
+    Object.assign(context, updates);
+    await updatePipelineExecution(executionId, {
+      context: updates,
     });
-    
-    // Get top 5 words as concepts
-    const concepts = Object.entries(wordCount)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([word]) => word.charAt(0).toUpperCase() + word.slice(1)); // Capitalize first letter
-    
+  }
+
+  /**
+   * Agents for a step, with every slot's client metered and outline/draft output streamed to clients
+   * Per-slot models from the execution take precedence over the step's model in the pipeline definition
+   */
+  private servicesFor(
+    executionId: string,
+    model: string | undefined,
+    stepModels: StepModels = {},
+    meter: UsageMeter
+  ): StepServices {
+    const slotClients: Partial<Record<ModelSlot, LLMClient>> = {};
+    for (const slot of MODEL_SLOTS) {
+      const slotModel = this.clientFactory ? stepModels[slot] || (model ? { model } : undefined) : undefined;
+      let client = slotModel ? this.clientFor(slotModel.model, slotModel.provider) : this.llmClient;
+      if (STREAMED_SLOTS.indexOf(slot) !== -1) {
+        client = createStreamingClient(client, streamEvent =>
+          pipelineState.broadcastLLMStream(
+            executionId,
+            slot,
+            streamEvent.event,
+            streamEvent.event === 'token' ? streamEvent.text : undefined
+          )
+        );
+      }
+      slotClients[slot] = meter.wrap(slot, client);
+    }
+
+    return createStepServices(this.llmClient, this.similarityMonitor, slotClients);
+  }
+
+  /**
+   * Accumulate metered token usage and cost into the execution's metrics
+   * Returns the reading so callers can audit usage and the providers that served the calls;
+   * accounting failures are logged rather than failing the workflow
+   */
+  private async recordUsage(executionId: string, meter: UsageMeter): Promise<MeterReading | undefined> {
+    try {
+      const reading = await meter.drain();
+      if (reading?.usage) {
+        await recordTokenUsage(executionId, reading.usage);
+      }
+      return reading;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Workflow] Failed to record token usage:`, {
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+        executionId,
+      });
+      return undefined;
+    }
+  }
+
+  private clientFor(model: string, provider?: LLMProvider): LLMClient {
+    const key = `${provider || ''}:${model}`;
+    let client = this.clients.get(key);
+    if (!client) {
+      client = this.clientFactory!(model, provider);
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Model configured for a step in the pipeline definition, if any
+   */
+  private getStepModel(pipeline: PipelineDefinition, stepId: string): string | undefined {
+    const node = pipeline.nodes.find(candidate => candidate.kind === 'step' && candidate.step === stepId);
+    return node && node.kind === 'step' ? node.model : undefined;
+  }
+
+  private async loadContext(executionId: string): Promise<PipelineContext> {
+    const execution = await this.loadExecution(executionId);
+    return this.parseContext(execution.context);
+  }
+
+  private async loadExecution(executionId: string): Promise<PipelineExecution> {
+    const execution = await getPipelineExecution(executionId);
+    if (!execution) {
+      throw new Error(`Execution not found: ${executionId}`);
+    }
+    return execution;
+  }
+
+  /**
+   * Handle both string and object formats for context
+   */
+  private parseContext(context: PipelineContext | string | undefined): PipelineContext {
+    if (!context) {
+      return {};
+    }
+    return typeof context === 'string' ? JSON.parse(context) : { ...context };
+  }
+
+  private buildOutput(
+    executionId: string,
+    url: string,
+    context: PipelineContext,
+    status: WorkflowOutput['status'],
+    startTime: Date,
+    error?: string
+  ): WorkflowOutput {
     return {
-      concepts,
-      summary: `Fallback concepts extracted from metadata: ${concepts.join(', ')}`
+      executionId,
+      url,
+      metadata: toExtractedMetadata(context.metadata),
+      concepts: {
+        concepts: context.concepts || [],
+        summary: context.conceptSummary || '',
+        conceptSources: context.conceptSources,
+      },
+      outline: context.outline,
+      draft: context.draft,
+      review: context.review,
+      similarity: context.similarity,
+      html: context.html,
+      status,
+      error,
+      executedAt: startTime.toISOString(),
     };
   }
 }
 
 /**
  * Create a new workflow instance with the specified LLM client
+ * clientFactory builds clients for steps and agent slots that run on their own model
  */
-export function createWorkflow(llmClient: LLMClient): ObserverWorkflow {
-  return new ObserverWorkflow(llmClient);
-}
\ No newline at end of file
+export function createWorkflow(
+  llmClient: LLMClient,
+  revisionConfig?: Partial<RevisionConfig>,
+  clientFactory?: LLMClientFactory
+): ObserverWorkflow {
+  return new ObserverWorkflow(llmClient, revisionConfig, clientFactory);
+}
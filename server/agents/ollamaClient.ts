@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
-import { LLMClient, LLMMessage } from './llmClient';
+import { ChatOptions, LLMClient, LLMMessage, LLMResponse, toLLMRequestError } from './llmClient';
+import { readStreamLines } from './streamLines';
 
 export interface OllamaConfig {
   baseUrl: string;
@@ -17,6 +18,20 @@ export interface OllamaResponse {
   created_at: string;
   message: OllamaMessage;
   done: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export interface OllamaModelTag {
+  name: string;
+  model?: string;
+  size?: number;
+  details?: {
+    family?: string;
+    families?: string[];
+    parameter_size?: string;
+    quantization_level?: string;
+  };
 }
 
 /**
@@ -25,6 +40,7 @@ export interface OllamaResponse {
  * Uses OpenAI-compatible API format
  */
 export class OllamaClient implements LLMClient {
+  readonly provider = 'ollama';
   private client: AxiosInstance;
   private config: OllamaConfig;
 
@@ -43,35 +59,109 @@ export class OllamaClient implements LLMClient {
     });
   }
 
+  get model(): string {
+    return this.config.model;
+  }
+
+  get temperature(): number | undefined {
+    return this.config.temperature;
+  }
+
   /**
    * Check if the Ollama server is running and the model is available
    */
   async checkHealth(): Promise<boolean> {
     try {
-      const response = await this.client.get('/api/tags');
-      const models = response.data.models || [];
-      return models.some((m: any) => m.name === this.config.model);
+      const models = await this.listModels();
+      return models.some(m => m.name === this.config.model);
     } catch {
       return false;
     }
   }
 
+  /**
+   * List the models installed on the Ollama server (`/api/tags`)
+   */
+  async listModels(): Promise<OllamaModelTag[]> {
+    const response = await this.client.get('/api/tags');
+    return response.data?.models || [];
+  }
+
   /**
    * Send a message to the Ollama model and get a response
+   * A response format is passed as Ollama's `format` JSON schema
    */
-  async chat(messages: LLMMessage[]): Promise<string> {
+  async chat(messages: LLMMessage[], options: ChatOptions = {}): Promise<LLMResponse> {
     try {
       const response = await this.client.post<OllamaResponse>('/api/chat', {
         model: this.config.model,
         messages,
         stream: false,
-        temperature: this.config.temperature
+        temperature: this.config.temperature,
+        format: options.responseFormat?.schema
+      }, {
+        signal: options.signal
+      });
+
+      const { message, prompt_eval_count, eval_count } = response.data;
+      return {
+        content: message.content,
+        // Ollama omits prompt_eval_count when the prompt was served from its cache
+        usage: prompt_eval_count !== undefined || eval_count !== undefined
+          ? { promptTokens: prompt_eval_count || 0, completionTokens: eval_count || 0 }
+          : undefined,
+      };
+    } catch (error) {
+      throw toLLMRequestError('Ollama API request failed', error);
+    }
+  }
+
+  /**
+   * Stream a response from the Ollama model
+   * Ollama streams newline-delimited JSON chunks; the final chunk (done: true) carries the token counts
+   */
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void,
+    options: ChatOptions = {}
+  ): Promise<LLMResponse> {
+    try {
+      const response = await this.client.post('/api/chat', {
+        model: this.config.model,
+        messages,
+        stream: true,
+        temperature: this.config.temperature,
+        format: options.responseFormat?.schema
+      }, {
+        responseType: 'stream',
+        signal: options.signal
+      });
+
+      let content = '';
+      let final: Partial<OllamaResponse> & { error?: string } = {};
+      await readStreamLines(response.data, line => {
+        const chunk: Partial<OllamaResponse> & { error?: string } = JSON.parse(line);
+        if (chunk.error) {
+          throw new Error(chunk.error);
+        }
+        if (chunk.message?.content) {
+          content += chunk.message.content;
+          onToken(chunk.message.content);
+        }
+        if (chunk.done) {
+          final = chunk;
+        }
       });
 
-      return response.data.message.content;
+      const { prompt_eval_count, eval_count } = final;
+      return {
+        content,
+        usage: prompt_eval_count !== undefined || eval_count !== undefined
+          ? { promptTokens: prompt_eval_count || 0, completionTokens: eval_count || 0 }
+          : undefined,
+      };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Ollama API request failed: ${errorMessage}`);
+      throw toLLMRequestError('Ollama API streaming request failed', error);
     }
   }
 }
@@ -0,0 +1,176 @@
+import axios, { AxiosInstance } from 'axios';
+import { ChatOptions, LLMClient, LLMMessage, LLMResponse, toJsonSchemaResponseFormat, toLLMRequestError } from './llmClient';
+import { readChatCompletionStream } from './chatCompletionStream';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // API root including the version, e.g. http://localhost:8000/v1
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  temperature?: number;
+}
+
+export interface OpenAICompatibleResponse {
+  id: string;
+  choices: Array<{
+    message: LLMMessage;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface OpenAICompatibleModel {
+  id: string;
+  owned_by?: string;
+  max_model_len?: number; // vLLM reports the context length here
+}
+
+/**
+ * OpenAI-compatible LLM Client
+ * Talks to any server that implements the OpenAI `/v1/chat/completions` API
+ * (vLLM, LM Studio, llama.cpp server, ...)
+ */
+export class OpenAICompatibleClient implements LLMClient {
+  readonly provider = 'openai-compatible';
+  private client: AxiosInstance;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      temperature: 0.7,
+      ...config
+    };
+
+    this.client = axios.create({
+      baseURL: this.config.baseUrl.replace(/\/+$/, ''),
+      timeout: 60000, // 60 second timeout for LLM responses
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+        ...this.config.headers,
+      }
+    });
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  get temperature(): number | undefined {
+    return this.config.temperature;
+  }
+
+  /**
+   * Check if the server is reachable and serves the configured model
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      const models = await this.listModels();
+      return models.some(model => model.id === this.config.model);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List the models the server exposes through `/models`
+   */
+  async listModels(): Promise<OpenAICompatibleModel[]> {
+    const response = await this.client.get('/models');
+    return (response.data?.data || []).filter((model: any) => model?.id);
+  }
+
+  /**
+   * Send a message to the model and get a response
+   * A response format is sent as `response_format`; servers without structured output support ignore it
+   */
+  async chat(messages: LLMMessage[], options: ChatOptions = {}): Promise<LLMResponse> {
+    try {
+      const response = await this.client.post<OpenAICompatibleResponse>('/chat/completions', {
+        model: this.config.model,
+        messages,
+        temperature: this.config.temperature,
+        response_format: toJsonSchemaResponseFormat(options.responseFormat)
+      }, {
+        signal: options.signal
+      });
+
+      const { choices, usage } = response.data;
+      return {
+        content: choices[0].message.content,
+        usage: usage
+          ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens }
+          : undefined,
+      };
+    } catch (error) {
+      throw toLLMRequestError('OpenAI-compatible API request failed', error);
+    }
+  }
+
+  /**
+   * Stream a response from the model
+   * Usage is requested through stream_options and arrives on the last chunk when the server supports it
+   */
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void,
+    options: ChatOptions = {}
+  ): Promise<LLMResponse> {
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: this.config.model,
+        messages,
+        temperature: this.config.temperature,
+        response_format: toJsonSchemaResponseFormat(options.responseFormat),
+        stream: true,
+        stream_options: { include_usage: true }
+      }, {
+        responseType: 'stream',
+        signal: options.signal
+      });
+
+      return await readChatCompletionStream(response.data, onToken);
+    } catch (error) {
+      throw toLLMRequestError('OpenAI-compatible API streaming request failed', error);
+    }
+  }
+}
+
+/**
+ * Whether an OpenAI-compatible server is configured (OPENAI_COMPATIBLE_BASE_URL)
+ */
+export function isOpenAICompatibleConfigured(): boolean {
+  return !!process.env.OPENAI_COMPATIBLE_BASE_URL;
+}
+
+/**
+ * Create a client for the OpenAI-compatible server configured in the environment
+ * OPENAI_COMPATIBLE_BASE_URL (required), OPENAI_COMPATIBLE_API_KEY and
+ * OPENAI_COMPATIBLE_HEADERS (JSON object of extra request headers)
+ */
+export function createOpenAICompatibleClient(model: string): OpenAICompatibleClient {
+  const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseUrl) {
+    throw new Error('OPENAI_COMPATIBLE_BASE_URL is not configured');
+  }
+
+  let headers: Record<string, string> | undefined;
+  if (process.env.OPENAI_COMPATIBLE_HEADERS) {
+    try {
+      headers = JSON.parse(process.env.OPENAI_COMPATIBLE_HEADERS);
+    } catch {
+      console.warn('[OpenAICompatible] Ignoring OPENAI_COMPATIBLE_HEADERS: not valid JSON');
+    }
+  }
+
+  return new OpenAICompatibleClient({
+    baseUrl,
+    model,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+    headers,
+    temperature: 0.7
+  });
+}
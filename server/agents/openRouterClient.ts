@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
-import { LLMClient, LLMMessage } from './llmClient';
+import { ChatOptions, LLMClient, LLMMessage, LLMResponse, toJsonSchemaResponseFormat, toLLMRequestError } from './llmClient';
+import { readChatCompletionStream } from './chatCompletionStream';
 
 export interface OpenRouterConfig {
   apiKey: string;
@@ -17,6 +18,11 @@ export interface OpenRouterResponse {
   choices: Array<{
     message: OpenRouterMessage;
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 }
 
 /**
@@ -24,6 +30,7 @@ export interface OpenRouterResponse {
  * Connects to OpenRouter API and handles LLM requests
  */
 export class OpenRouterClient implements LLMClient {
+  readonly provider = 'openrouter';
   private client: AxiosInstance;
   private config: OpenRouterConfig;
 
@@ -45,6 +52,14 @@ export class OpenRouterClient implements LLMClient {
     });
   }
 
+  get model(): string {
+    return this.config.model;
+  }
+
+  get temperature(): number | undefined {
+    return this.config.temperature;
+  }
+
   /**
    * Check if the OpenRouter server is accessible and the API key is valid
    */
@@ -59,19 +74,55 @@ export class OpenRouterClient implements LLMClient {
 
   /**
    * Send a message to the OpenRouter model and get a response
+   * A response format is sent as `response_format`; models without structured output support ignore it
    */
-  async chat(messages: LLMMessage[]): Promise<string> {
+  async chat(messages: LLMMessage[], options: ChatOptions = {}): Promise<LLMResponse> {
     try {
       const response = await this.client.post<OpenRouterResponse>('/chat/completions', {
         model: this.config.model,
         messages,
-        temperature: this.config.temperature
+        temperature: this.config.temperature,
+        response_format: toJsonSchemaResponseFormat(options.responseFormat)
+      }, {
+        signal: options.signal
+      });
+
+      const { choices, usage } = response.data;
+      return {
+        content: choices[0].message.content,
+        usage: usage
+          ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens }
+          : undefined,
+      };
+    } catch (error) {
+      throw toLLMRequestError('OpenRouter API request failed', error);
+    }
+  }
+
+  /**
+   * Stream a response from the OpenRouter model
+   * OpenRouter sends server-sent events with content deltas; usage arrives on the last chunk
+   */
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void,
+    options: ChatOptions = {}
+  ): Promise<LLMResponse> {
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: this.config.model,
+        messages,
+        temperature: this.config.temperature,
+        response_format: toJsonSchemaResponseFormat(options.responseFormat),
+        stream: true
+      }, {
+        responseType: 'stream',
+        signal: options.signal
       });
 
-      return response.data.choices[0].message.content;
+      return await readChatCompletionStream(response.data, onToken);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`OpenRouter API request failed: ${errorMessage}`);
+      throw toLLMRequestError('OpenRouter API streaming request failed', error);
     }
   }
 }
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getPipelineDefinition, registerPipelineDefinition, validatePipelineDefinition } from './pipelineDefinition';
+
+// The server entry point starts listening on import; only its broadcast is used here
+vi.mock('../_core/index', () => ({ broadcastToClients: vi.fn() }));
+
+describe('validatePipelineDefinition', () => {
+  it('accepts the built-in definitions', () => {
+    ['default', 'trusted-editor', 'quick-draft'].forEach(id => {
+      expect(() => validatePipelineDefinition(getPipelineDefinition(id)!)).not.toThrow();
+    });
+  });
+
+  it('rejects a step that is not registered', () => {
+    const definition = {
+      id: 'misspelled',
+      name: 'Misspelled',
+      nodes: [
+        { kind: 'step' as const, step: 'metadata-extraction' },
+        { kind: 'step' as const, step: 'draft-generaton' },
+      ],
+    };
+
+    expect(() => registerPipelineDefinition(definition))
+      .toThrow('Pipeline definition misspelled has an unknown step: draft-generaton');
+    expect(getPipelineDefinition('misspelled')).toBeUndefined();
+  });
+
+  it('rejects a gate declared twice', () => {
+    expect(() => validatePipelineDefinition({
+      id: 'double-gate',
+      name: 'Double gate',
+      nodes: [{ kind: 'gate', gate: 'draft' }, { kind: 'gate', gate: 'draft' }],
+    })).toThrow('Pipeline definition double-gate declares the draft gate more than once');
+  });
+});
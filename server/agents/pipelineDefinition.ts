@@ -0,0 +1,192 @@
+import { getStep } from './pipelineSteps';
+
+/**
+ * Approval gates the orchestrator can suspend at
+ */
+export type GateId = 'concepts' | 'outline' | 'draft';
+
+/**
+ * A step node runs a handler from the step registry (see pipelineSteps.ts)
+ */
+export interface PipelineStepNode {
+  kind: 'step';
+  step: string;
+  model?: string; // Run this step on a different model than the execution default
+}
+
+/**
+ * A gate node suspends the execution for human review (see pipelineGates.ts)
+ * Disabled gates are skipped, so definitions can keep the gate in place and toggle it per execution
+ */
+export interface PipelineGateNode {
+  kind: 'gate';
+  gate: GateId;
+  enabled?: boolean;
+}
+
+export type PipelineNode = PipelineStepNode | PipelineGateNode;
+
+/**
+ * Declarative pipeline: the ordered steps and gates the orchestrator interprets
+ */
+export interface PipelineDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  nodes: PipelineNode[];
+}
+
+/**
+ * Per-execution adjustments applied on top of a registered definition
+ */
+export interface PipelineOverrides {
+  gates?: Partial<Record<GateId, boolean>>;
+}
+
+export const DEFAULT_PIPELINE_ID = 'default';
+
+const GATE_IDS: GateId[] = ['concepts', 'outline', 'draft'];
+
+const pipelineDefinitions = new Map<string, PipelineDefinition>();
+
+/**
+ * Validate the structure of a pipeline definition
+ * Step ids must already be registered (see registerStep), so a misspelled step fails here rather than mid-execution.
+ */
+export function validatePipelineDefinition(definition: PipelineDefinition): void {
+  if (!definition.id || typeof definition.id !== 'string') {
+    throw new Error('Pipeline definition must have an id');
+  }
+
+  if (!Array.isArray(definition.nodes) || definition.nodes.length === 0) {
+    throw new Error(`Pipeline definition ${definition.id} must have at least one node`);
+  }
+
+  const seenGates = new Set<GateId>();
+  for (const node of definition.nodes) {
+    if (node.kind === 'step') {
+      if (!node.step || typeof node.step !== 'string') {
+        throw new Error(`Pipeline definition ${definition.id} has a step without a step id`);
+      }
+      if (!getStep(node.step)) {
+        throw new Error(`Pipeline definition ${definition.id} has an unknown step: ${node.step}`);
+      }
+    } else if (node.kind === 'gate') {
+      if (GATE_IDS.indexOf(node.gate) === -1) {
+        throw new Error(`Pipeline definition ${definition.id} has an unknown gate: ${node.gate}`);
+      }
+      if (seenGates.has(node.gate)) {
+        throw new Error(`Pipeline definition ${definition.id} declares the ${node.gate} gate more than once`);
+      }
+      seenGates.add(node.gate);
+    } else {
+      throw new Error(`Pipeline definition ${definition.id} has a node of unknown kind`);
+    }
+  }
+}
+
+/**
+ * Register (or replace) a pipeline definition
+ */
+export function registerPipelineDefinition(definition: PipelineDefinition): void {
+  validatePipelineDefinition(definition);
+  pipelineDefinitions.set(definition.id, definition);
+}
+
+/**
+ * Get a registered pipeline definition by id
+ */
+export function getPipelineDefinition(id: string): PipelineDefinition | undefined {
+  return pipelineDefinitions.get(id);
+}
+
+/**
+ * List all registered pipeline definitions
+ */
+export function listPipelineDefinitions(): PipelineDefinition[] {
+  return Array.from(pipelineDefinitions.values());
+}
+
+/**
+ * Resolve the definition an execution will run, with per-execution gate overrides applied
+ * The result is a copy, so it can be stored on the execution and stays stable across resumes
+ */
+export function resolvePipelineDefinition(
+  id: string = DEFAULT_PIPELINE_ID,
+  overrides: PipelineOverrides = {}
+): PipelineDefinition {
+  const definition = pipelineDefinitions.get(id);
+  if (!definition) {
+    throw new Error(`Unknown pipeline definition: ${id}`);
+  }
+
+  const gateOverrides = overrides.gates || {};
+  return {
+    ...definition,
+    nodes: definition.nodes.map(node => {
+      if (node.kind === 'gate' && gateOverrides[node.gate] !== undefined) {
+        return { ...node, enabled: gateOverrides[node.gate] };
+      }
+      return { ...node };
+    }),
+  };
+}
+
+/**
+ * Check whether a gate is present and enabled in a definition
+ */
+export function isGateEnabled(definition: PipelineDefinition, gate: GateId): boolean {
+  return definition.nodes.some(node => node.kind === 'gate' && node.gate === gate && node.enabled !== false);
+}
+
+// Built-in definitions
+
+registerPipelineDefinition({
+  id: DEFAULT_PIPELINE_ID,
+  name: 'Standard',
+  description: 'Concept and draft approval, with reviewer-driven refinement. The outline gate is opt-in.',
+  nodes: [
+    { kind: 'step', step: 'metadata-extraction' },
+    { kind: 'step', step: 'concept-extraction' },
+    { kind: 'gate', gate: 'concepts' },
+    { kind: 'step', step: 'outline-generation' },
+    { kind: 'gate', gate: 'outline', enabled: false },
+    { kind: 'step', step: 'draft-generation' },
+    { kind: 'step', step: 'draft-refinement' },
+    { kind: 'gate', gate: 'draft' },
+    { kind: 'step', step: 'html-formatting' },
+  ],
+});
+
+registerPipelineDefinition({
+  id: 'trusted-editor',
+  name: 'Trusted editor',
+  description: 'Skips concept approval and goes straight to outlining. Only the draft is reviewed by a human.',
+  nodes: [
+    { kind: 'step', step: 'metadata-extraction' },
+    { kind: 'step', step: 'concept-extraction' },
+    { kind: 'gate', gate: 'concepts', enabled: false },
+    { kind: 'step', step: 'outline-generation' },
+    { kind: 'gate', gate: 'outline', enabled: false },
+    { kind: 'step', step: 'draft-generation' },
+    { kind: 'step', step: 'draft-refinement' },
+    { kind: 'gate', gate: 'draft' },
+    { kind: 'step', step: 'html-formatting' },
+  ],
+});
+
+registerPipelineDefinition({
+  id: 'quick-draft',
+  name: 'Quick draft',
+  description: 'No reviewer or similarity refinement. The draft goes to the editor as first generated.',
+  nodes: [
+    { kind: 'step', step: 'metadata-extraction' },
+    { kind: 'step', step: 'concept-extraction' },
+    { kind: 'gate', gate: 'concepts' },
+    { kind: 'step', step: 'outline-generation' },
+    { kind: 'gate', gate: 'outline', enabled: false },
+    { kind: 'step', step: 'draft-generation' },
+    { kind: 'gate', gate: 'draft' },
+    { kind: 'step', step: 'html-formatting' },
+  ],
+});
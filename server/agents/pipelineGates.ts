@@ -0,0 +1,366 @@
+import { OutlineOutput, normalizeOutline } from './outlineGenerator';
+import { DraftOutput } from './draftGenerator';
+import { GateId } from './pipelineDefinition';
+import { StepServices, drainPromptAudit, runReview, runSimilarityCheck, toConceptSources } from './pipelineSteps';
+import { describeClient } from './clientFactory';
+import { addAuditLogEntry, PipelineContext } from '../pipelineState';
+
+/**
+ * Editor decision at an approval gate
+ * 'revise' sends the work back with comments and re-suspends at the same gate
+ */
+export type ResumeDecision = 'approve' | 'reject' | 'revise';
+
+export interface ResumeData {
+  gate: GateId;
+  approved: boolean;
+  decision?: ResumeDecision;
+  comments?: string;
+  concepts?: string[]; // Editor-edited concept list, replaces the LLM concepts at the concept gate
+  outline?: OutlineOutput; // Editor-edited outline, replaces the LLM outline at the outline gate
+}
+
+/**
+ * Resolve the editor decision, falling back to the legacy approved flag
+ */
+export function getResumeDecision(resumeData: ResumeData): ResumeDecision {
+  return resumeData.decision || (resumeData.approved ? 'approve' : 'reject');
+}
+
+/**
+ * Everything a gate handler needs to suspend, apply edits or revise
+ */
+export interface GateRunContext {
+  executionId: string;
+  url: string;
+  context: PipelineContext;
+  services: StepServices;
+}
+
+/**
+ * A human approval gate
+ * The orchestrator handles suspension, the decision audit entry, rejection, persistence and continuation;
+ * the handler supplies the gate-specific data, edits and revision as context updates
+ */
+export interface PipelineGateHandler {
+  gate: GateId;
+  stepId: string;
+  label: string;
+  subject: string; // Lowercase noun used in log and error messages
+  decisionEvent: string;
+  suspensionReason: string;
+  reviseStep: string; // Step whose model regenerates the gate's work on 'revise'
+  buildSuspensionData(ctx: GateRunContext): Record<string, any>;
+  applyEdits?(ctx: GateRunContext, resumeData: ResumeData): Promise<Partial<PipelineContext>>;
+  revise(ctx: GateRunContext, comments?: string): Promise<Partial<PipelineContext>>;
+}
+
+/**
+ * Replace the LLM concepts with the editor's edited list and record the diff in the audit log
+ * An edited list that is empty after trimming is ignored so the outline always has concepts
+ */
+async function applyEditedConcepts(
+  executionId: string,
+  previousConcepts: string[],
+  editedConcepts: string[]
+): Promise<string[]> {
+  const concepts = editedConcepts
+    .map(concept => concept.trim())
+    .filter((concept, index, list) => concept.length > 0 && list.indexOf(concept) === index);
+
+  if (concepts.length === 0) {
+    console.warn(`[Workflow] Ignoring empty edited concept list for ${executionId}`);
+    return previousConcepts;
+  }
+
+  const added = concepts.filter(concept => previousConcepts.indexOf(concept) === -1);
+  const removed = previousConcepts.filter(concept => concepts.indexOf(concept) === -1);
+  const reordered = added.length === 0 && removed.length === 0 &&
+    concepts.some((concept, index) => previousConcepts[index] !== concept);
+
+  if (added.length === 0 && removed.length === 0 && !reordered) {
+    return previousConcepts;
+  }
+
+  console.log(`[Workflow] Applying edited concepts: ${added.length} added, ${removed.length} removed`);
+
+  await addAuditLogEntry(executionId, 'CONCEPTS_EDITED', 'gate-concept-approval', {
+    added,
+    removed,
+    reordered,
+    previousConcepts,
+    concepts,
+  });
+
+  return concepts;
+}
+
+/**
+ * Replace the LLM outline with the editor's edited outline and record the changes in the audit log
+ */
+async function applyEditedOutline(
+  executionId: string,
+  previousOutline: OutlineOutput,
+  editedOutline: OutlineOutput
+): Promise<OutlineOutput> {
+  const outline = normalizeOutline(editedOutline);
+
+  if (JSON.stringify(outline) === JSON.stringify(previousOutline)) {
+    return previousOutline;
+  }
+
+  const previousHeadings = previousOutline.sections.map(section => section.heading);
+  const headings = outline.sections.map(section => section.heading);
+  const sectionsAdded = headings.filter(heading => previousHeadings.indexOf(heading) === -1);
+  const sectionsRemoved = previousHeadings.filter(heading => headings.indexOf(heading) === -1);
+  const sectionsReordered = headings.filter(heading => previousHeadings.indexOf(heading) !== -1).join('\n') !==
+    previousHeadings.filter(heading => headings.indexOf(heading) !== -1).join('\n');
+  const keyPointsChanged = outline.sections
+    .filter(section => {
+      const previous = previousOutline.sections.find(candidate => candidate.heading === section.heading);
+      return previous && previous.keyPoints.join('\n') !== section.keyPoints.join('\n');
+    })
+    .map(section => section.heading);
+
+  console.log(`[Workflow] Applying edited outline: ${sectionsAdded.length} sections added, ${sectionsRemoved.length} removed`);
+
+  await addAuditLogEntry(executionId, 'OUTLINE_EDITED', 'gate-outline-approval', {
+    titleChanged: outline.title !== previousOutline.title,
+    sectionsAdded,
+    sectionsRemoved,
+    sectionsReordered,
+    keyPointsChanged,
+    introductionChanged: outline.introduction.join('\n') !== previousOutline.introduction.join('\n'),
+    conclusionChanged: outline.conclusion.join('\n') !== previousOutline.conclusion.join('\n'),
+  });
+
+  return outline;
+}
+
+/**
+ * Run a gate revision with audit logging, including the prompt template versions it used
+ * Keeps the previous work if regeneration fails so the editor can try again
+ */
+async function runRevision<T>(
+  executionId: string,
+  services: StepServices,
+  stepId: string,
+  startData: Record<string, any>,
+  regenerate: () => Promise<{ result: T; audit: Record<string, any> }>,
+  fallback: T
+): Promise<T> {
+  try {
+    await addAuditLogEntry(executionId, 'STEP_STARTED', stepId, startData);
+
+    const { result, audit } = await regenerate();
+
+    await addAuditLogEntry(executionId, 'STEP_COMPLETED', stepId, { ...audit, ...drainPromptAudit(services) });
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Workflow] ${stepId} failed:`, {
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      executionId,
+    });
+
+    await addAuditLogEntry(executionId, 'STEP_FAILED', stepId, {
+      ...(startData.requestedBy ? { requestedBy: startData.requestedBy } : {}),
+      error: errorMessage,
+    });
+
+    return fallback;
+  }
+}
+
+const conceptGate: PipelineGateHandler = {
+  gate: 'concepts',
+  stepId: 'gate-concept-approval',
+  label: 'Concepts',
+  subject: 'concept',
+  decisionEvent: 'CONCEPT_APPROVAL_DECISION',
+  suspensionReason: 'Waiting for concept approval',
+  reviseStep: 'concept-extraction',
+
+  buildSuspensionData({ context, url }) {
+    return {
+      gate: 'concepts',
+      concepts: context.concepts || [],
+      conceptSources: context.conceptSources,
+      metadata: {
+        title: context.metadata?.title || 'Untitled',
+        url,
+        ...(context.sources && context.sources.length > 1 ? {
+          sources: context.sources.map(source => ({ url: source.url, title: source.metadata.title })),
+        } : {}),
+        extractedAt: new Date().toISOString(),
+      },
+    };
+  },
+
+  async applyEdits({ executionId, context }, resumeData) {
+    if (!resumeData.concepts) {
+      return {};
+    }
+    const concepts = await applyEditedConcepts(executionId, context.concepts || [], resumeData.concepts);
+    // Edited or added concepts have no known sources
+    const conceptSources: Record<string, string[]> = {};
+    concepts.forEach(concept => {
+      if (context.conceptSources?.[concept]) {
+        conceptSources[concept] = context.conceptSources[concept];
+      }
+    });
+    return { concepts, conceptSources };
+  },
+
+  async revise({ executionId, context, services, url }, comments) {
+    const previousConcepts = context.concepts || [];
+    console.log(`[Workflow] Changes requested - regenerating concepts`);
+
+    const revised = await runRevision(
+      executionId,
+      services,
+      'concept-revision',
+      { previousConcepts, comments, model: describeClient(services.clients.summarizer) },
+      async () => {
+        const result = await services.summarizer.extractConcepts(toConceptSources(context, url), {
+          previousConcepts,
+          feedback: comments,
+        });
+        console.log(`[Workflow] Regenerated ${result.concepts.length} concepts`);
+
+        return { result, audit: { conceptCount: result.concepts.length } };
+      },
+      { concepts: previousConcepts, summary: context.conceptSummary || '', conceptSources: context.conceptSources }
+    );
+
+    return { concepts: revised.concepts, conceptSummary: revised.summary, conceptSources: revised.conceptSources };
+  },
+};
+
+const outlineGate: PipelineGateHandler = {
+  gate: 'outline',
+  stepId: 'gate-outline-approval',
+  label: 'Outline',
+  subject: 'outline',
+  decisionEvent: 'OUTLINE_APPROVAL_DECISION',
+  suspensionReason: 'Waiting for outline approval',
+  reviseStep: 'outline-generation',
+
+  buildSuspensionData({ context }) {
+    return {
+      gate: 'outline',
+      outline: context.outline,
+    };
+  },
+
+  async applyEdits({ executionId, context }, resumeData) {
+    if (!resumeData.outline || !context.outline) {
+      return {};
+    }
+    return { outline: await applyEditedOutline(executionId, context.outline, resumeData.outline) };
+  },
+
+  async revise({ executionId, context, services }, comments) {
+    if (!context.outline) {
+      throw new Error('No outline available for revision');
+    }
+    const previousOutline = context.outline;
+    console.log(`[Workflow] Changes requested - regenerating outline`);
+
+    const outline = await runRevision(
+      executionId,
+      services,
+      'outline-revision',
+      { comments, model: describeClient(services.clients.outline) },
+      async () => {
+        const result = await services.outlineGenerator.generateOutline({
+          concepts: context.concepts || [],
+          previousOutline,
+          feedback: comments,
+        });
+        console.log(`[Workflow] Regenerated outline with ${result.sections.length} sections`);
+
+        return { result, audit: { sectionCount: result.sections.length } };
+      },
+      previousOutline
+    );
+
+    return { outline };
+  },
+};
+
+const draftGate: PipelineGateHandler = {
+  gate: 'draft',
+  stepId: 'gate-draft-approval',
+  label: 'Draft',
+  subject: 'draft',
+  decisionEvent: 'DRAFT_APPROVAL_DECISION',
+  suspensionReason: 'Waiting for draft approval',
+  reviseStep: 'draft-generation',
+
+  buildSuspensionData({ context }) {
+    return {
+      gate: 'draft',
+      draft: context.draft,
+      qualityScore: context.review?.score,
+      review: context.review,
+      distinctivenessScore: context.similarity?.distinctivenessScore,
+      similarityDetails: context.similarity?.similarityDetails,
+      revisionCount: context.revisionCount || 0,
+      escalated: context.escalated || false,
+    };
+  },
+
+  async revise({ executionId, context, services }, comments) {
+    if (!context.outline || !context.draft) {
+      throw new Error('No outline or draft available for revision');
+    }
+    const outline = context.outline;
+    const previousDraft: DraftOutput = context.draft;
+    console.log(`[Workflow] Changes requested - regenerating draft`);
+
+    const draft = await runRevision(
+      executionId,
+      services,
+      'draft-revision',
+      { requestedBy: 'editor', comments, model: describeClient(services.clients.draft) },
+      async () => {
+        const result = await services.draftGenerator.generateDraft({
+          outline,
+          previousDraft,
+          feedback: comments ? `Editor notes:\n${comments}` : undefined,
+        });
+        console.log(`[Workflow] Regenerated draft with ${result.wordCount} words`);
+
+        return { result, audit: { requestedBy: 'editor', wordCount: result.wordCount } };
+      },
+      previousDraft
+    );
+
+    const review = await runReview(executionId, services, draft);
+    const similarity = await runSimilarityCheck(executionId, services, draft, context);
+
+    return { draft, review, similarity, escalated: false };
+  },
+};
+
+const gateRegistry: Record<GateId, PipelineGateHandler> = {
+  concepts: conceptGate,
+  outline: outlineGate,
+  draft: draftGate,
+};
+
+/**
+ * Get the handler for a gate
+ */
+export function getGate(gate: GateId): PipelineGateHandler {
+  return gateRegistry[gate];
+}
+
+/**
+ * Find the gate handler for a suspension step id (e.g. 'gate-draft-approval')
+ */
+export function getGateBySuspensionStep(stepId: string): PipelineGateHandler | undefined {
+  return Object.values(gateRegistry).find(handler => handler.stepId === stepId);
+}
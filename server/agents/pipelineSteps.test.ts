@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { revisionConfigFromEnv } from './pipelineSteps';
+
+// The server entry point starts listening on import; only its broadcast is used here
+vi.mock('../_core/index', () => ({ broadcastToClients: vi.fn() }));
+
+describe('revisionConfigFromEnv', () => {
+  it('uses the defaults when nothing is set', () => {
+    expect(revisionConfigFromEnv({})).toEqual({ minReviewScore: 80, minDistinctiveness: 0.7, maxRevisions: 3 });
+  });
+
+  it('accepts zero for every threshold', () => {
+    expect(revisionConfigFromEnv({
+      REVISION_MIN_REVIEW_SCORE: '0',
+      REVISION_MIN_DISTINCTIVENESS: '0',
+      REVISION_MAX_CYCLES: '0',
+    })).toEqual({ minReviewScore: 0, minDistinctiveness: 0, maxRevisions: 0 });
+  });
+
+  it('falls back to the default for empty or non-numeric values', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(revisionConfigFromEnv({
+      REVISION_MIN_REVIEW_SCORE: 'high',
+      REVISION_MIN_DISTINCTIVENESS: '',
+      REVISION_MAX_CYCLES: 'Infinity',
+    })).toEqual({ minReviewScore: 80, minDistinctiveness: 0.7, maxRevisions: 3 });
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
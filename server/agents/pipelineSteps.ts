@@ -0,0 +1,707 @@
+import { ExtractedMetadata, PageSource } from './metadataExtractor';
+import { extractInspiration, InspirationSource, InspirationSourceType, inspirationSourceRef } from './inspirationSources';
+import { LLMClient } from './llmClient';
+import { MetadataSummarizer, ConceptExtractionResult, ConceptSource, findConceptMentions } from './metadataSummarizer';
+import { OutlineGenerator, OutlineOutput } from './outlineGenerator';
+import { DraftGenerator, DraftOutput } from './draftGenerator';
+import { ReviewerAgent, ReviewerOutput } from './reviewerAgent';
+import { SimilarityMonitor, SimilarityOutput } from './similarityMonitor';
+import { HtmlFormatter } from './htmlFormatter';
+import { getFetchBlockedError } from './safeFetch';
+import { describeClient } from './clientFactory';
+import { PromptRecorder, PromptRef, PromptTemplateId } from './promptTemplates';
+import { addAuditLogEntry, updatePipelineExecution, PipelineContext, ModelSlot } from '../pipelineState';
+
+/**
+ * Thresholds for the iterative refinement loop
+ * Drafts below either threshold are re-generated with reviewer feedback
+ */
+export interface RevisionConfig {
+  minReviewScore: number;
+  minDistinctiveness: number;
+  maxRevisions: number;
+}
+
+/**
+ * Numeric setting from the environment; 0 is a valid value, unset or non-numeric values use the default
+ */
+function numberFromEnv(env: NodeJS.ProcessEnv, name: string, defaultValue: number): number {
+  const value = env[name];
+  if (value === undefined || value.trim() === '') {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    console.warn(`[Workflow] Ignoring ${name}=${value}, using ${defaultValue}`);
+    return defaultValue;
+  }
+  return parsed;
+}
+
+/**
+ * Revision thresholds (design §9) from REVISION_MIN_REVIEW_SCORE, REVISION_MIN_DISTINCTIVENESS
+ * and REVISION_MAX_CYCLES
+ */
+export function revisionConfigFromEnv(env: NodeJS.ProcessEnv = process.env): RevisionConfig {
+  return {
+    minReviewScore: numberFromEnv(env, 'REVISION_MIN_REVIEW_SCORE', 80),
+    minDistinctiveness: numberFromEnv(env, 'REVISION_MIN_DISTINCTIVENESS', 0.7),
+    maxRevisions: numberFromEnv(env, 'REVISION_MAX_CYCLES', 3),
+  };
+}
+
+/**
+ * Default revision thresholds, overridable via environment
+ */
+export const DEFAULT_REVISION_CONFIG: RevisionConfig = revisionConfigFromEnv();
+
+/**
+ * Agents available to step and gate handlers
+ * Each agent runs on its slot's client; slots without an override share llmClient
+ */
+export interface StepServices {
+  llmClient: LLMClient;
+  clients: Record<ModelSlot, LLMClient>;
+  summarizer: MetadataSummarizer;
+  outlineGenerator: OutlineGenerator;
+  draftGenerator: DraftGenerator;
+  reviewer: ReviewerAgent;
+  similarityMonitor: SimilarityMonitor;
+  htmlFormatter: HtmlFormatter;
+  prompts: PromptRecorder; // Prompt template versions the agents rendered, for the audit log
+}
+
+/**
+ * Build the agents for a step from an LLM client and optional per-slot clients
+ */
+export function createStepServices(
+  llmClient: LLMClient,
+  similarityMonitor: SimilarityMonitor,
+  slotClients: Partial<Record<ModelSlot, LLMClient>> = {}
+): StepServices {
+  const clients: Record<ModelSlot, LLMClient> = {
+    summarizer: slotClients.summarizer || llmClient,
+    outline: slotClients.outline || llmClient,
+    draft: slotClients.draft || llmClient,
+    reviewer: slotClients.reviewer || llmClient,
+  };
+  const prompts = new PromptRecorder();
+
+  return {
+    llmClient,
+    clients,
+    summarizer: new MetadataSummarizer(clients.summarizer, { prompts }),
+    outlineGenerator: new OutlineGenerator(clients.outline, { prompts }),
+    draftGenerator: new DraftGenerator(clients.draft, { prompts }),
+    reviewer: new ReviewerAgent(clients.reviewer, { prompts }),
+    similarityMonitor,
+    htmlFormatter: new HtmlFormatter(),
+    prompts,
+  };
+}
+
+/**
+ * Audit fields for the prompt templates rendered since the last call (optionally only one template)
+ */
+export function drainPromptAudit(services: StepServices, templateId?: PromptTemplateId): { prompts?: PromptRef[] } {
+  const prompts = services.prompts.drain(templateId);
+  return prompts.length > 0 ? { prompts } : {};
+}
+
+/**
+ * Everything a step handler needs to run
+ */
+export interface StepRunContext {
+  executionId: string;
+  url: string;
+  inspirations: InspirationSource[]; // Every inspiration source in order; url is the first one's reference
+  source?: PageSource; // Pasted HTML or local HTML file for the metadata step
+  context: PipelineContext;
+  services: StepServices;
+  revisionConfig: RevisionConfig;
+}
+
+/**
+ * What a step produced: context updates to persist, plus data for the STEP_COMPLETED audit entry
+ */
+export interface StepResult {
+  context: Partial<PipelineContext>;
+  audit?: Record<string, any>;
+}
+
+/**
+ * A registered pipeline step
+ * The orchestrator handles audit logging, persistence and error wrapping around run()
+ */
+export interface PipelineStepHandler {
+  label: string;
+  slots?: ModelSlot[]; // Agent slots the step calls, recorded with their models in the audit log
+  auditStart?(ctx: StepRunContext): Record<string, any>;
+  run(ctx: StepRunContext): Promise<StepResult>;
+}
+
+const stepRegistry = new Map<string, PipelineStepHandler>();
+
+/**
+ * Register (or replace) a pipeline step handler
+ */
+export function registerStep(id: string, handler: PipelineStepHandler): void {
+  stepRegistry.set(id, handler);
+}
+
+/**
+ * Get a registered step handler by id
+ */
+export function getStep(id: string): PipelineStepHandler | undefined {
+  return stepRegistry.get(id);
+}
+
+/**
+ * Models behind the given slots, keyed by slot, for audit entries
+ */
+export function describeSlotModels(services: StepServices, slots: ModelSlot[] = []): Record<string, string> {
+  const models: Record<string, string> = {};
+  slots.forEach(slot => {
+    const description = describeClient(services.clients[slot]);
+    if (description) {
+      models[slot] = description;
+    }
+  });
+  return models;
+}
+
+/**
+ * Convert stored context metadata back into the extractor's flat heading format
+ */
+export function toExtractedMetadata(metadata: PipelineContext['metadata']): ExtractedMetadata {
+  if (!metadata) {
+    return { title: '', metaDescription: '', headings: [] };
+  }
+
+  return {
+    title: metadata.title,
+    metaDescription: metadata.metaDescription,
+    headings: [...metadata.headings.h1, ...metadata.headings.h2, ...metadata.headings.h3],
+    headingsByLevel: metadata.headings,
+    content: metadata.content,
+  };
+}
+
+/**
+ * Convert extracted metadata into the stored context format
+ */
+function toContextMetadata(metadata: ExtractedMetadata): NonNullable<PipelineContext['metadata']> {
+  return {
+    title: metadata.title,
+    metaDescription: metadata.metaDescription,
+    headings: metadata.headingsByLevel || {
+      h1: [],
+      h2: metadata.headings,
+      h3: [],
+    },
+    content: metadata.content,
+    extractedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Stored inspiration sources in the summarizer's format
+ * Executions from before multi-source support only stored a single metadata entry for `url`
+ */
+export function toConceptSources(context: PipelineContext, url: string): ConceptSource[] {
+  if (context.sources && context.sources.length > 0) {
+    return context.sources.map(source => ({ url: source.url, metadata: toExtractedMetadata(source.metadata) }));
+  }
+  return [{ url, metadata: toExtractedMetadata(context.metadata) }];
+}
+
+/**
+ * Audit summary of one extracted page
+ */
+function describeExtraction(metadata: ExtractedMetadata): Record<string, any> {
+  return {
+    title: metadata.title,
+    headingCount: metadata.headings.length,
+    ...(metadata.fetch ? {
+      fetchStrategy: metadata.fetch.strategy,
+      fetchAttempts: metadata.fetch.attempts,
+    } : {}),
+    ...(metadata.content ? {
+      wordCount: metadata.content.wordCount,
+      imageCount: metadata.content.images.length,
+      links: metadata.content.links,
+      articleType: metadata.content.article?.type || metadata.content.openGraph.type,
+    } : {}),
+  };
+}
+
+/**
+ * Extract fallback concepts when LLM is not available
+ * Simple keyword extraction from the sources' metadata
+ */
+function extractFallbackConcepts(sources: ConceptSource[]): ConceptExtractionResult {
+  // Simple keyword extraction from titles and headings
+  const text = sources.map(({ metadata }) => `${metadata.title} ${metadata.headings.join(' ')}`).join(' ');
+  const words = text.toLowerCase().match(/\b(\w+)\b/g) || [];
+  const wordCount: Record<string, number> = {};
+
+  // Count word frequency
+  words.forEach(word => {
+    if (word.length > 3) { // Only consider words longer than 3 characters
+      wordCount[word] = (wordCount[word] || 0) + 1;
+    }
+  });
+
+  // Get top 5 words as concepts
+  const concepts = Object.entries(wordCount)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([word]) => word.charAt(0).toUpperCase() + word.slice(1)); // Capitalize first letter
+
+  const conceptSources: Record<string, string[]> = {};
+  concepts.forEach(concept => {
+    conceptSources[concept] = findConceptMentions(concept, sources);
+  });
+
+  return {
+    concepts,
+    summary: `Fallback concepts extracted from metadata: ${concepts.join(', ')}`,
+    conceptSources,
+  };
+}
+
+/**
+ * Run the reviewer agent on a draft and save the score to context
+ * Returns undefined if the review fails so the editor can still judge the draft
+ */
+export async function runReview(
+  executionId: string,
+  services: StepServices,
+  draft: DraftOutput
+): Promise<ReviewerOutput | undefined> {
+  console.log(`[Workflow] Starting draft review`);
+
+  try {
+    await addAuditLogEntry(executionId, 'STEP_STARTED', 'draft-review', {
+      model: describeClient(services.clients.reviewer),
+    });
+
+    const review = await services.reviewer.reviewDraft({ draft });
+    console.log(`[Workflow] Draft reviewed with score ${review.score}`);
+
+    // Save review to context
+    await updatePipelineExecution(executionId, {
+      context: {
+        reviewScore: review.score,
+        review,
+      },
+    });
+
+    await addAuditLogEntry(executionId, 'STEP_COMPLETED', 'draft-review', {
+      score: review.score,
+      improvementCount: review.improvements.length,
+      ...drainPromptAudit(services, 'draft-review'),
+    });
+
+    return review;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Workflow] Draft review failed:`, {
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      executionId,
+    });
+
+    await addAuditLogEntry(executionId, 'STEP_FAILED', 'draft-review', {
+      error: errorMessage,
+    });
+
+    return undefined;
+  }
+}
+
+/**
+ * Compare a draft against the inspiration metadata and save the score to context
+ * Returns undefined if the check cannot run
+ */
+export async function runSimilarityCheck(
+  executionId: string,
+  services: StepServices,
+  draft: DraftOutput,
+  context: PipelineContext
+): Promise<SimilarityOutput | undefined> {
+  console.log(`[Workflow] Starting similarity check`);
+
+  try {
+    await addAuditLogEntry(executionId, 'STEP_STARTED', 'similarity-check', {});
+
+    // Executions from before multi-source support only stored a single metadata entry
+    const sources = context.sources || (context.metadata ? [{ url: '', metadata: context.metadata }] : []);
+    if (sources.length === 0) {
+      throw new Error('No inspiration metadata available for comparison');
+    }
+
+    const similarity = await services.similarityMonitor.checkSimilarityToSources(draft, sources);
+    console.log(`[Workflow] Draft distinctiveness score: ${similarity.distinctivenessScore}`);
+
+    // Save similarity to context
+    await updatePipelineExecution(executionId, {
+      context: {
+        distinctivenessScore: similarity.distinctivenessScore,
+        similarity,
+      },
+    });
+
+    await addAuditLogEntry(executionId, 'STEP_COMPLETED', 'similarity-check', {
+      distinctivenessScore: similarity.distinctivenessScore,
+      ...similarity.similarityDetails,
+      provider: similarity.provider,
+      ...(similarity.sources ? {
+        sources: similarity.sources.map(source => ({
+          url: source.url,
+          distinctivenessScore: source.distinctivenessScore,
+        })),
+      } : {}),
+    });
+
+    return similarity;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Workflow] Similarity check failed:`, {
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+      executionId,
+    });
+
+    await addAuditLogEntry(executionId, 'STEP_FAILED', 'similarity-check', {
+      error: errorMessage,
+    });
+
+    return undefined;
+  }
+}
+
+/**
+ * List the thresholds a draft falls below (empty when no revision is needed)
+ * Missing scores (failed review or similarity check) never trigger a revision
+ */
+function getRevisionReasons(
+  revisionConfig: RevisionConfig,
+  review?: ReviewerOutput,
+  similarity?: SimilarityOutput
+): string[] {
+  const reasons: string[] = [];
+
+  if (review && review.score < revisionConfig.minReviewScore) {
+    reasons.push(`Review score ${review.score} is below ${revisionConfig.minReviewScore}`);
+  }
+
+  if (similarity && similarity.distinctivenessScore < revisionConfig.minDistinctiveness) {
+    reasons.push(
+      `Distinctiveness ${similarity.distinctivenessScore} is below ${revisionConfig.minDistinctiveness}`
+    );
+  }
+
+  return reasons;
+}
+
+/**
+ * Turn the reviewer critique and similarity result into feedback for the draft generator
+ */
+function buildRevisionFeedback(
+  revisionConfig: RevisionConfig,
+  review?: ReviewerOutput,
+  similarity?: SimilarityOutput
+): string {
+  const feedback: string[] = [];
+
+  if (review) {
+    feedback.push(`Reviewer score: ${review.score}/100. ${review.comments}`);
+    if (review.improvements.length > 0) {
+      feedback.push(`Improvements requested:\n${review.improvements.map(item => `- ${item}`).join('\n')}`);
+    }
+  }
+
+  if (similarity && similarity.distinctivenessScore < revisionConfig.minDistinctiveness) {
+    feedback.push(
+      'The draft is too similar to the inspiration source. Use an original title, original section ' +
+      'headings, and fresh phrasing rather than echoing the source wording.'
+    );
+  }
+
+  return feedback.join('\n\n');
+}
+
+/**
+ * Review and similarity-check a draft, re-generating it with feedback while it
+ * falls below the configured thresholds. After maxRevisions cycles the draft is
+ * escalated to the human gate as-is.
+ */
+async function refineDraft(ctx: StepRunContext, outline: OutlineOutput, initialDraft: DraftOutput): Promise<{
+  draft: DraftOutput;
+  review?: ReviewerOutput;
+  similarity?: SimilarityOutput;
+  revisionCount: number;
+  escalated: boolean;
+}> {
+  const { executionId, services, revisionConfig, context } = ctx;
+  let draft = initialDraft;
+  let revisionCount = context.revisionCount || 0;
+  let review = await runReview(executionId, services, draft);
+  let similarity = await runSimilarityCheck(executionId, services, draft, context);
+  let reasons = getRevisionReasons(revisionConfig, review, similarity);
+
+  while (reasons.length > 0 && revisionCount < revisionConfig.maxRevisions) {
+    revisionCount++;
+    console.log(`[Workflow] Revision ${revisionCount}/${revisionConfig.maxRevisions}: ${reasons.join('; ')}`);
+
+    await addAuditLogEntry(executionId, 'REVISION_TRIGGERED', 'draft-revision', {
+      revision: revisionCount,
+      reasons,
+      reviewScore: review?.score,
+      distinctivenessScore: similarity?.distinctivenessScore,
+    });
+
+    try {
+      draft = await services.draftGenerator.generateDraft({
+        outline,
+        previousDraft: draft,
+        feedback: buildRevisionFeedback(revisionConfig, review, similarity),
+      });
+
+      await updatePipelineExecution(executionId, {
+        context: {
+          draft,
+          revisionCount,
+        },
+      });
+
+      await addAuditLogEntry(executionId, 'REVISION_COMPLETED', 'draft-revision', {
+        revision: revisionCount,
+        wordCount: draft.wordCount,
+        ...drainPromptAudit(services, 'draft-generation'),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Workflow] Draft revision failed:`, {
+        error: errorMessage,
+        stack: error instanceof Error ? error.stack : undefined,
+        executionId,
+        revision: revisionCount,
+      });
+
+      await addAuditLogEntry(executionId, 'STEP_FAILED', 'draft-revision', {
+        revision: revisionCount,
+        error: errorMessage,
+      });
+
+      // Keep the previous draft and let the editor decide
+      break;
+    }
+
+    review = await runReview(executionId, services, draft);
+    similarity = await runSimilarityCheck(executionId, services, draft, context);
+    reasons = getRevisionReasons(revisionConfig, review, similarity);
+  }
+
+  const escalated = reasons.length > 0;
+  if (escalated) {
+    await addAuditLogEntry(executionId, 'REVISION_LIMIT_REACHED', 'draft-revision', {
+      revisionCount,
+      maxRevisions: revisionConfig.maxRevisions,
+      reasons,
+    });
+  }
+
+  return { draft, review, similarity, revisionCount, escalated };
+}
+
+// Built-in steps
+
+registerStep('metadata-extraction', {
+  label: 'Metadata extraction',
+  auditStart: ({ url, inspirations, source }) => ({
+    url,
+    ...(inspirations.length > 1 ? { urls: inspirations.map(inspirationSourceRef) } : {}),
+    ...(inspirations.some(inspiration => inspiration.type !== 'url')
+      ? { sourceTypes: inspirations.map(inspiration => inspiration.type) }
+      : {}),
+    ...(source?.html ? { pastedHtmlLength: source.html.length } : {}),
+    ...(source?.file ? { htmlFile: source.file } : {}),
+  }),
+  async run({ inspirations, source }) {
+    // Pasted HTML or a local file stands in for the first URL only
+    const results = await Promise.allSettled(
+      inspirations.map((inspiration, index) => extractInspiration(inspiration, index === 0 ? source : undefined))
+    );
+
+    // A fetch refused by policy fails the step so its error code reaches the caller
+    const blocked = results.find(result => result.status === 'rejected' && getFetchBlockedError(result.reason));
+    if (blocked) {
+      throw (blocked as PromiseRejectedResult).reason;
+    }
+
+    const extracted: Array<ConceptSource & { type: InspirationSourceType }> = [];
+    const failedSources: Array<{ url: string; error: string }> = [];
+    results.forEach((result, index) => {
+      const ref = inspirationSourceRef(inspirations[index]);
+      if (result.status === 'fulfilled') {
+        extracted.push({ url: ref, type: inspirations[index].type, metadata: result.value });
+      } else {
+        const errorMessage = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        console.warn(`[Workflow] Skipping inspiration source ${ref}: ${errorMessage}`);
+        failedSources.push({ url: ref, error: errorMessage });
+      }
+    });
+    if (extracted.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    extracted.forEach(({ url, metadata }) => {
+      console.log(`[Workflow] Extracted metadata from ${url}: ${metadata.title}, ${metadata.headings.length} headings`);
+    });
+    const sources = extracted.map(({ url, type, metadata }) => ({
+      url,
+      ...(type !== 'url' ? { type } : {}),
+      metadata: toContextMetadata(metadata),
+    }));
+
+    return {
+      context: {
+        metadata: sources[0].metadata,
+        sources,
+      },
+      audit: {
+        ...describeExtraction(extracted[0].metadata),
+        ...(inspirations.length > 1 ? {
+          sources: extracted.map(({ url, type, metadata }) => ({ url, type, ...describeExtraction(metadata) })),
+        } : {}),
+        ...(failedSources.length > 0 ? { failedSources } : {}),
+      },
+    };
+  },
+});
+
+registerStep('concept-extraction', {
+  label: 'Concept extraction',
+  slots: ['summarizer'],
+  async run({ url, context, services }) {
+    const sources = toConceptSources(context, url);
+    let concepts: ConceptExtractionResult;
+    let usedFallback = false;
+
+    // Try to extract concepts if LLM is available, otherwise use a fallback
+    try {
+      const isLlmAvailable = await services.clients.summarizer.checkHealth();
+      if (!isLlmAvailable) {
+        throw new Error('LLM not available, using fallback concepts');
+      }
+      concepts = await services.summarizer.extractConcepts(sources);
+      console.log(`[Workflow] Extracted ${concepts.concepts.length} concepts using LLM`);
+    } catch (error) {
+      // Fallback to simple keyword extraction if LLM is not available
+      console.log(`[Workflow] Using fallback concept extraction`);
+      concepts = extractFallbackConcepts(sources);
+      usedFallback = true;
+    }
+
+    return {
+      context: {
+        concepts: Array.isArray(concepts.concepts) ? concepts.concepts : [],
+        conceptSummary: concepts.summary,
+        conceptSources: concepts.conceptSources,
+      },
+      audit: {
+        conceptCount: concepts.concepts.length,
+        ...(sources.length > 1 ? { conceptSources: concepts.conceptSources } : {}),
+        usedFallback,
+      },
+    };
+  },
+});
+
+registerStep('outline-generation', {
+  label: 'Outline generation',
+  slots: ['outline'],
+  async run({ context, services }) {
+    const outline = await services.outlineGenerator.generateOutline({
+      concepts: context.concepts || [],
+    });
+    console.log(`[Workflow] Generated outline with ${outline.sections.length} sections`);
+
+    return {
+      context: { outline },
+      audit: { sectionCount: outline.sections.length },
+    };
+  },
+});
+
+registerStep('draft-generation', {
+  label: 'Draft generation',
+  slots: ['draft'],
+  async run({ context, services }) {
+    if (!context.outline) {
+      throw new Error('No outline available for draft generation');
+    }
+
+    const draft = await services.draftGenerator.generateDraft({
+      outline: context.outline,
+    });
+    console.log(`[Workflow] Generated draft with ${draft.wordCount} words`);
+
+    return {
+      context: { draft },
+      audit: { wordCount: draft.wordCount },
+    };
+  },
+});
+
+// Draft Review and Similarity Check, followed by the
+// Iterative Refinement Loop (re-draft with feedback until thresholds pass)
+registerStep('draft-refinement', {
+  label: 'Draft refinement',
+  slots: ['draft', 'reviewer'],
+  async run(ctx) {
+    const { outline, draft } = ctx.context;
+    if (!outline || !draft) {
+      throw new Error('No outline or draft available for refinement');
+    }
+
+    const refined = await refineDraft(ctx, outline, draft);
+
+    return {
+      context: {
+        draft: refined.draft,
+        review: refined.review,
+        reviewScore: refined.review?.score,
+        similarity: refined.similarity,
+        distinctivenessScore: refined.similarity?.distinctivenessScore,
+        revisionCount: refined.revisionCount,
+        escalated: refined.escalated,
+      },
+      audit: {
+        reviewScore: refined.review?.score,
+        distinctivenessScore: refined.similarity?.distinctivenessScore,
+        revisionCount: refined.revisionCount,
+        escalated: refined.escalated,
+      },
+    };
+  },
+});
+
+registerStep('html-formatting', {
+  label: 'HTML formatting',
+  async run({ context, services }) {
+    if (!context.draft) {
+      throw new Error('No draft available for formatting');
+    }
+
+    const html = services.htmlFormatter.formatToHtml({
+      draft: context.draft,
+    }).html;
+
+    return {
+      context: { html },
+    };
+  },
+});
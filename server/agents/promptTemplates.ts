@@ -0,0 +1,123 @@
+import { LLMMessage } from './llmClient';
+import { StructuredOutputOptions } from './structuredOutput';
+import { DEFAULT_PROMPT_TEMPLATES, PromptTemplateId } from './defaultPrompts';
+import { getActivePromptTemplate } from '../promptTemplateStore';
+
+export type { PromptTemplateId } from './defaultPrompts';
+
+/**
+ * Values for a template's variables; empty and undefined values skip their sections
+ */
+export type PromptVariables = Record<string, string | number | undefined>;
+
+/**
+ * Which template version produced a prompt, as recorded in the audit log
+ */
+export interface PromptRef {
+  templateId: PromptTemplateId;
+  version: number;
+}
+
+/**
+ * Turns a template and variables into chat messages
+ */
+export interface PromptRenderer {
+  render(templateId: PromptTemplateId, variables: PromptVariables): LLMMessage[];
+}
+
+/**
+ * Options shared by the LLM agents
+ */
+export interface AgentOptions extends StructuredOutputOptions {
+  prompts?: PromptRenderer; // Default: the active template versions, unrecorded
+}
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+function isEmpty(value: string | number | undefined): boolean {
+  return value === undefined || value === '';
+}
+
+/**
+ * Render `{{name}}` variables and `{{#name}}...{{/name}}` sections
+ * Values are inserted as-is, so placeholders inside values are never expanded
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template
+    .replace(SECTION_PATTERN, (_match, name: string, body: string) => (isEmpty(variables[name]) ? '' : body))
+    .replace(VARIABLE_PATTERN, (_match, name: string) => (isEmpty(variables[name]) ? '' : String(variables[name])));
+}
+
+/**
+ * Problems with an edited template: unknown variables or unbalanced sections
+ */
+export function validateTemplate(templateId: PromptTemplateId, template: string): string[] {
+  const known = Object.keys(DEFAULT_PROMPT_TEMPLATES[templateId].variables);
+  const errors: string[] = [];
+
+  const names = new Set<string>();
+  const withoutSections = template.replace(SECTION_PATTERN, (_match, name: string, body: string) => {
+    names.add(name);
+    return body;
+  });
+  if (/\{\{[#/]/.test(withoutSections)) {
+    errors.push('Unbalanced {{#section}} / {{/section}} markers');
+  }
+  withoutSections.replace(VARIABLE_PATTERN, (match, name: string) => {
+    names.add(name);
+    return match;
+  });
+
+  names.forEach(name => {
+    if (known.indexOf(name) === -1) {
+      errors.push(`Unknown variable "${name}" (available: ${known.join(', ')})`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Render the active version of a template into system and user messages
+ */
+export function renderPrompt(
+  templateId: PromptTemplateId,
+  variables: PromptVariables
+): { messages: LLMMessage[]; ref: PromptRef } {
+  const template = getActivePromptTemplate(templateId);
+  return {
+    messages: [
+      { role: 'system', content: renderTemplate(template.system, variables) },
+      { role: 'user', content: renderTemplate(template.user, variables) },
+    ],
+    ref: { templateId, version: template.version },
+  };
+}
+
+export const defaultPromptRenderer: PromptRenderer = {
+  render: (templateId, variables) => renderPrompt(templateId, variables).messages,
+};
+
+/**
+ * Renders prompts for a step and remembers which template versions it used
+ */
+export class PromptRecorder implements PromptRenderer {
+  private refs: PromptRef[] = [];
+
+  render(templateId: PromptTemplateId, variables: PromptVariables): LLMMessage[] {
+    const { messages, ref } = renderPrompt(templateId, variables);
+    if (!this.refs.some(existing => existing.templateId === ref.templateId && existing.version === ref.version)) {
+      this.refs.push(ref);
+    }
+    return messages;
+  }
+
+  /**
+   * Return and clear the templates used since the last drain, optionally only those of one template
+   */
+  drain(templateId?: PromptTemplateId): PromptRef[] {
+    const drained = this.refs.filter(ref => !templateId || ref.templateId === templateId);
+    this.refs = this.refs.filter(ref => drained.indexOf(ref) === -1);
+    return drained;
+  }
+}
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MockLLMClient } from './mockClient';
+import { DEFAULT_MOCK_FIXTURES } from './mockFixtures';
+import { ReviewerAgent } from './reviewerAgent';
+
+const draft = {
+  title: 'Keeping a Starter Alive',
+  metaDescription: 'A feeding routine for busy bakers.',
+  bodyParagraphs: ['Feed the starter every day with equal parts flour and water.'],
+  wordCount: 11,
+};
+
+describe('ReviewerAgent', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rounds the score to a whole number', async () => {
+    const client = new MockLLMClient({ fixtures: { draft_review: { ...DEFAULT_MOCK_FIXTURES.draft_review, score: 72.6 } } });
+
+    const review = await new ReviewerAgent(client).reviewDraft({ draft });
+
+    expect(review.score).toBe(73);
+    expect(review.strengths).toEqual(DEFAULT_MOCK_FIXTURES.draft_review.strengths);
+  });
+
+  it('asks for a repair when the score is out of range', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new MockLLMClient({
+      fixtures: {
+        draft_review: (_messages: unknown, call: number) =>
+          ({ ...DEFAULT_MOCK_FIXTURES.draft_review, score: call === 1 ? 140 : 64 }),
+      },
+    });
+
+    const review = await new ReviewerAgent(client).reviewDraft({ draft });
+
+    expect(review.score).toBe(64);
+    expect(client.callCount('draft_review')).toBe(2);
+  });
+
+  it('fails when the response never matches the schema', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new MockLLMClient({ fixtures: { draft_review: { score: 'good', comments: 'Fine.' } } });
+
+    await expect(new ReviewerAgent(client, { maxRepairAttempts: 1 }).reviewDraft({ draft }))
+      .rejects.toThrow(/^Failed to review draft: draft_review response failed validation after 2 attempt\(s\)/);
+  });
+});
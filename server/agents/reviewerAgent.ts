@@ -0,0 +1,87 @@
+import { z } from 'zod/v4';
+import { LLMClient, LLMMessage } from './llmClient';
+import { DraftOutput } from './draftGenerator';
+import { generateStructured } from './structuredOutput';
+import { AgentOptions, PromptVariables, defaultPromptRenderer } from './promptTemplates';
+
+/**
+ * Input interface for draft review
+ * Contains the generated draft to be critiqued
+ */
+export interface ReviewerInput {
+  draft: DraftOutput;
+}
+
+/**
+ * Output interface for draft review
+ * Contains a 0-100 quality score and a structured critique
+ */
+export interface ReviewerOutput {
+  score: number;
+  comments: string;
+  strengths: string[];
+  improvements: string[];
+}
+
+/**
+ * Schema the review response must match
+ */
+export const reviewerOutputSchema = z.object({
+  score: z.number().min(0).max(100),
+  comments: z.string(),
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+});
+
+/**
+ * Reviewer Agent
+ * Uses LLM to score drafts for clarity, coherence, tone, and SEO strength
+ * Provides a structured critique that is surfaced to editors at the draft gate
+ */
+export class ReviewerAgent {
+  private llmClient: LLMClient;
+  private options: AgentOptions;
+
+  constructor(llmClient: LLMClient, options: AgentOptions = {}) {
+    this.llmClient = llmClient;
+    this.options = options;
+  }
+
+  /**
+   * Review a draft and produce a quality score with critique
+   * @param input - Contains the draft to review
+   * @returns Score (0-100), comments, strengths, and suggested improvements
+   */
+  async reviewDraft(input: ReviewerInput): Promise<ReviewerOutput> {
+    const prompts = this.options.prompts || defaultPromptRenderer;
+    const messages: LLMMessage[] = prompts.render('draft-review', this.buildVariables(input));
+
+    try {
+      const parsed = await generateStructured(this.llmClient, messages, 'draft_review', reviewerOutputSchema, this.options);
+
+      return {
+        score: Math.round(parsed.score),
+        comments: parsed.comments,
+        strengths: parsed.strengths,
+        improvements: parsed.improvements
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to review draft: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Variables for the draft review template
+   */
+  private buildVariables(input: ReviewerInput): PromptVariables {
+    const { draft } = input;
+
+    return {
+      title: draft.title,
+      metaDescription: draft.metaDescription,
+      wordCount: draft.wordCount,
+      body: draft.bodyParagraphs.join('\n\n'),
+    };
+  }
+}
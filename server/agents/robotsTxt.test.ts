@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedByRobots, parseRobotsTxt } from './robotsTxt';
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user-agent lines and ignores comments and unknown lines', () => {
+    const groups = parseRobotsTxt([
+      '# Crawlers',
+      'User-agent: AIBlogComposer',
+      'User-agent: OtherBot # same rules',
+      'Disallow: /private',
+      'Crawl-delay: 10',
+      'Sitemap: https://example.com/sitemap.xml',
+      '',
+      'User-agent: *',
+      'Disallow:',
+      'Allow: /public',
+    ].join('\r\n'));
+
+    expect(groups).toEqual([
+      { userAgents: ['aiblogcomposer', 'otherbot'], rules: [{ allow: false, pattern: '/private' }] },
+      { userAgents: ['*'], rules: [{ allow: true, pattern: '/public' }] },
+    ]);
+  });
+
+  it('ignores rules before the first user-agent line', () => {
+    expect(parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow: /tmp')).toEqual([
+      { userAgents: ['*'], rules: [{ allow: false, pattern: '/tmp' }] },
+    ]);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const groups = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: aiblogcomposer',
+    'Disallow: /blog/',
+    'Allow: /blog/posts/',
+    'Disallow: /blog/posts/drafts',
+    'Disallow: /*.pdf$',
+    'Allow: /shop',
+    'Disallow: /shop',
+    '',
+    'User-agent: AIBlogComposer',
+    'Disallow: /admin',
+  ].join('\n'));
+
+  it('uses the groups naming the product token, case-insensitively, instead of *', () => {
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/about')).toBe(true);
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/admin/users')).toBe(false);
+    expect(isAllowedByRobots(groups, 'SomeOtherBot', '/about')).toBe(false);
+  });
+
+  it('lets the longest matching rule win', () => {
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/blog/')).toBe(false);
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/blog/posts/sourdough')).toBe(true);
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/blog/posts/drafts/next')).toBe(false);
+  });
+
+  it('lets allow win a tie between rules of equal length', () => {
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/shop/cart')).toBe(true);
+  });
+
+  it('supports * wildcards and $ end anchors', () => {
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/files/guide.pdf')).toBe(false);
+    expect(isAllowedByRobots(groups, 'AIBlogComposer', '/files/guide.pdf?download=1')).toBe(true);
+  });
+
+  it('always allows /robots.txt and allows everything without matching groups', () => {
+    expect(isAllowedByRobots(groups, 'SomeOtherBot', '/robots.txt')).toBe(true);
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: OtherBot\nDisallow: /'), 'AIBlogComposer', '/')).toBe(true);
+  });
+});
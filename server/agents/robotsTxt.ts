@@ -0,0 +1,96 @@
+/**
+ * robots.txt parsing and matching (RFC 9309)
+ * Groups are selected by product token, falling back to `*`; within the group the longest
+ * matching rule wins and `allow` wins ties. Patterns support `*` and a trailing `$`.
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[]; // Lowercased product tokens
+  rules: RobotsRule[];
+}
+
+export function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  text.split(/\r\n|\r|\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      return;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      return;
+    }
+
+    if ((key === 'allow' || key === 'disallow') && current) {
+      collectingAgents = false;
+      // An empty disallow allows everything, which is the default anyway
+      if (value) {
+        current.rules.push({ allow: key === 'allow', pattern: value });
+      }
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Rules that apply to a crawler: every group naming its product token, otherwise the `*` groups
+ */
+function rulesFor(groups: RobotsGroup[], productToken: string): RobotsRule[] {
+  const token = productToken.toLowerCase();
+  const named = groups.filter(group => group.userAgents.includes(token));
+  const selected = named.length > 0 ? named : groups.filter(group => group.userAgents.includes('*'));
+  return selected.flatMap(group => group.rules);
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether a crawler may fetch a path (pathname plus query string)
+ */
+export function isAllowedByRobots(groups: RobotsGroup[], productToken: string, path: string): boolean {
+  if (path === '/robots.txt') {
+    return true;
+  }
+
+  let decision: RobotsRule | undefined;
+  rulesFor(groups, productToken).forEach(rule => {
+    if (!patternMatches(rule.pattern, path)) {
+      return;
+    }
+    if (
+      !decision ||
+      rule.pattern.length > decision.pattern.length ||
+      (rule.pattern.length === decision.pattern.length && rule.allow)
+    ) {
+      decision = rule;
+    }
+  });
+
+  return decision ? decision.allow : true;
+}
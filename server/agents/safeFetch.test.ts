@@ -0,0 +1,105 @@
+import dns from 'dns';
+import axios from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_FETCH_POLICY,
+  FetchPolicy,
+  assertPublicUrl,
+  fetchPage,
+  getFetchBlockedError,
+  isBlockedAddress,
+} from './safeFetch';
+
+const POLICY: FetchPolicy = { ...DEFAULT_FETCH_POLICY, allowPrivateAddresses: false, respectRobotsTxt: false };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('isBlockedAddress', () => {
+  it.each([
+    ['127.0.0.1', 'loopback'],
+    ['::1', 'IPv6 loopback'],
+    ['10.1.2.3', 'private'],
+    ['172.16.0.1', 'private'],
+    ['192.168.1.10', 'private'],
+    ['169.254.169.254', 'link-local (cloud metadata)'],
+    ['fe80::1', 'IPv6 link-local'],
+    ['fd00::1', 'IPv6 unique local'],
+    ['100.64.0.1', 'CGNAT'],
+    ['0.0.0.0', 'unspecified'],
+    ['::ffff:127.0.0.1', 'IPv4-mapped loopback'],
+    ['::ffff:169.254.169.254', 'IPv4-mapped link-local'],
+    ['not-an-ip', 'not an address'],
+  ])('blocks %s (%s)', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946', '::ffff:93.184.216.34'])('allows %s', address => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it.each([
+    'http://127.0.0.1/admin',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://192.168.0.1/',
+  ])('rejects %s', async url => {
+    await expect(assertPublicUrl(url, POLICY)).rejects.toMatchObject({ code: 'BLOCKED_ADDRESS' });
+  });
+
+  it('rejects hosts that resolve to a private address', async () => {
+    vi.spyOn(dns.promises, 'lookup').mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ] as never);
+    await expect(assertPublicUrl('http://intranet.example/', POLICY)).rejects.toMatchObject({ code: 'BLOCKED_ADDRESS' });
+  });
+
+  it('rejects other protocols and malformed URLs', async () => {
+    await expect(assertPublicUrl('file:///etc/passwd', POLICY)).rejects.toMatchObject({ code: 'UNSUPPORTED_PROTOCOL' });
+    await expect(assertPublicUrl('not a url', POLICY)).rejects.toMatchObject({ code: 'INVALID_URL' });
+  });
+
+  it('accepts public addresses and skips the check when private addresses are allowed', async () => {
+    await expect(assertPublicUrl('https://93.184.216.34/post', POLICY)).resolves.toBeInstanceOf(URL);
+    await expect(assertPublicUrl('http://127.0.0.1/', { ...POLICY, allowPrivateAddresses: true })).resolves.toBeInstanceOf(URL);
+  });
+});
+
+describe('fetchPage', () => {
+  it('re-validates redirect targets and refuses redirects to private addresses', async () => {
+    const get = vi.spyOn(axios, 'get').mockResolvedValue({
+      status: 302,
+      headers: { location: 'http://169.254.169.254/latest/meta-data/' },
+      data: '',
+    });
+
+    await expect(fetchPage('http://93.184.216.34/start', POLICY)).rejects.toMatchObject({
+      code: 'BLOCKED_ADDRESS',
+      url: 'http://169.254.169.254/latest/meta-data/',
+    });
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a host that resolves to a private address at connect time (DNS rebinding)', async () => {
+    vi.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+    vi.spyOn(dns, 'lookup').mockImplementation(((
+      _hostname: string,
+      _options: dns.LookupOptions,
+      callback: (error: null, addresses: dns.LookupAddress[]) => void
+    ) => callback(null, [{ address: '127.0.0.1', family: 4 }])) as never);
+
+    const error = await fetchPage('http://rebind.example/', POLICY).catch(caught => caught);
+    expect(getFetchBlockedError(error)?.code).toBe('BLOCKED_ADDRESS');
+  });
+
+  it('stops after the redirect limit', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue({ status: 301, headers: { location: '/again' }, data: '' });
+    await expect(fetchPage('http://93.184.216.34/loop', { ...POLICY, maxRedirects: 2 }))
+      .rejects.toMatchObject({ code: 'TOO_MANY_REDIRECTS' });
+  });
+});
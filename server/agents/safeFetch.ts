@@ -0,0 +1,354 @@
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { isAllowedByRobots, parseRobotsTxt, RobotsGroup } from './robotsTxt';
+
+/**
+ * Guarded fetching of editor-supplied URLs
+ * Every hop is checked before it is requested: http(s) only, the host must resolve to public
+ * addresses only (re-checked at connect time, so DNS rebinding cannot slip through), robots.txt
+ * must allow the path. Responses are capped in size and must be HTML.
+ */
+
+export const FETCH_ERROR_CODES = [
+  'INVALID_URL',
+  'UNSUPPORTED_PROTOCOL',
+  'BLOCKED_ADDRESS',
+  'DNS_LOOKUP_FAILED',
+  'TOO_MANY_REDIRECTS',
+  'RESPONSE_TOO_LARGE',
+  'UNSUPPORTED_CONTENT_TYPE',
+  'ROBOTS_DISALLOWED',
+  'LOCAL_FILE_NOT_ALLOWED',
+] as const;
+
+export type FetchErrorCode = typeof FETCH_ERROR_CODES[number];
+
+/**
+ * A fetch refused by policy; retrying will not help
+ */
+export class FetchBlockedError extends Error {
+  constructor(
+    readonly code: FetchErrorCode,
+    message: string,
+    readonly url: string
+  ) {
+    super(message);
+    this.name = 'FetchBlockedError';
+  }
+}
+
+export interface FetchPolicy {
+  userAgent: string; // User-Agent header
+  robotsUserAgent: string; // Product token matched against robots.txt groups
+  respectRobotsTxt: boolean;
+  allowPrivateAddresses: boolean; // Only for development against pages on the local network
+  maxBytes: number;
+  maxRedirects: number;
+  timeoutMs: number;
+  contentTypes: string[]; // Accepted media types
+}
+
+export const DEFAULT_FETCH_POLICY: FetchPolicy = {
+  userAgent: process.env.FETCH_USER_AGENT || 'Mozilla/5.0 (compatible; AIBlogComposer/1.0)',
+  robotsUserAgent: process.env.ROBOTS_USER_AGENT || 'AIBlogComposer',
+  respectRobotsTxt: process.env.FETCH_RESPECT_ROBOTS_TXT !== 'false',
+  allowPrivateAddresses: process.env.FETCH_ALLOW_PRIVATE_ADDRESSES === 'true',
+  maxBytes: Number(process.env.FETCH_MAX_BYTES) || 5 * 1024 * 1024,
+  maxRedirects: 5,
+  timeoutMs: 10000,
+  contentTypes: ['text/html', 'application/xhtml+xml'],
+};
+
+export interface FetchedPage {
+  url: string; // Final URL after redirects
+  html: string;
+  contentType: string;
+}
+
+// RFC 9309: crawlers may cap robots.txt at 500 KiB and cache it for up to a day
+const ROBOTS_MAX_BYTES = 500 * 1024;
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Loopback, private, link-local (cloud metadata), CGNAT, documentation, multicast and reserved ranges
+const BLOCKED_RANGES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const).forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv4'));
+([
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const).forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ * IPv4-mapped IPv6 addresses are judged by their IPv4 address
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  const mapped = family === 6 ? address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i) : null;
+  if (mapped) {
+    return BLOCKED_RANGES.check(mapped[1], 'ipv4');
+  }
+  return BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup for outgoing sockets that refuses blocked addresses
+ * Runs when the connection is made, so a host cannot resolve differently between check and connect
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked) {
+      callback(new FetchBlockedError(
+        'BLOCKED_ADDRESS',
+        `${hostname} resolves to a non-public address (${blocked.address})`,
+        hostname
+      ) as NodeJS.ErrnoException, []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const guardedHttpAgent = new http.Agent({ lookup: guardedLookup });
+const guardedHttpsAgent = new https.Agent({ lookup: guardedLookup });
+
+function parseTarget(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FetchBlockedError('INVALID_URL', `Invalid URL format: ${url}`, url);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchBlockedError(
+      'UNSUPPORTED_PROTOCOL',
+      `Unsupported protocol: ${parsed.protocol}. Only HTTP and HTTPS are allowed`,
+      url
+    );
+  }
+  if (!parsed.hostname) {
+    throw new FetchBlockedError('INVALID_URL', 'URL must contain a valid hostname', url);
+  }
+  return parsed;
+}
+
+/**
+ * Check a URL's protocol and resolve its host, rejecting non-public addresses
+ * IP literals are checked directly since sockets skip the DNS lookup for them
+ */
+export async function assertPublicUrl(url: string, policy: FetchPolicy = DEFAULT_FETCH_POLICY): Promise<URL> {
+  const parsed = parseTarget(url);
+  if (policy.allowPrivateAddresses) {
+    return parsed;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new FetchBlockedError('DNS_LOOKUP_FAILED', `Could not resolve ${hostname}: ${errorMessage}`, url);
+    }
+  }
+
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    throw new FetchBlockedError(
+      'BLOCKED_ADDRESS',
+      `${hostname} resolves to a non-public address (${blocked}); private, loopback and link-local hosts cannot be fetched`,
+      url
+    );
+  }
+  return parsed;
+}
+
+/**
+ * The policy error behind a failed fetch, unwrapping axios and workflow errors
+ */
+export function getFetchBlockedError(error: unknown): FetchBlockedError | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof FetchBlockedError) {
+      return current;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+interface RawResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  data: string;
+}
+
+/**
+ * One guarded request without following redirects
+ * HTTP errors reject as AxiosError unless the caller wants to read their status
+ */
+async function requestOnce(url: string, policy: FetchPolicy, maxBytes: number, anyStatus: boolean): Promise<RawResponse> {
+  try {
+    const response = await axios.get<string>(url, {
+      timeout: policy.timeoutMs,
+      headers: { 'User-Agent': policy.userAgent },
+      maxRedirects: 0,
+      maxContentLength: maxBytes,
+      responseType: 'text',
+      transformResponse: [(data: string) => data],
+      validateStatus: (status: number) => anyStatus || status < 400,
+      ...(policy.allowPrivateAddresses ? {} : { httpAgent: guardedHttpAgent, httpsAgent: guardedHttpsAgent }),
+    });
+    return { status: response.status, headers: response.headers as Record<string, unknown>, data: response.data };
+  } catch (error) {
+    const blocked = getFetchBlockedError(error);
+    if (blocked) {
+      throw new FetchBlockedError(blocked.code, blocked.message, url);
+    }
+    if (axios.isAxiosError(error) && /maxContentLength/.test(error.message)) {
+      throw new FetchBlockedError('RESPONSE_TOO_LARGE', `Response from ${url} exceeds ${maxBytes} bytes`, url);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Follow redirects by hand so every hop gets the address (and optionally robots.txt) check
+ */
+async function requestFollowingRedirects(
+  url: string,
+  policy: FetchPolicy,
+  maxBytes: number,
+  checkRobots: boolean,
+  anyStatus = false
+): Promise<RawResponse & { url: string }> {
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    const target = await assertPublicUrl(current, policy);
+    if (checkRobots) {
+      await assertAllowedByRobots(target, policy);
+    }
+
+    const response = await requestOnce(current, policy, maxBytes, anyStatus);
+    const location = response.headers.location;
+    if (response.status < 300 || response.status >= 400 || typeof location !== 'string') {
+      return { ...response, url: current };
+    }
+
+    if (hop >= policy.maxRedirects) {
+      throw new FetchBlockedError('TOO_MANY_REDIRECTS', `More than ${policy.maxRedirects} redirects fetching ${url}`, url);
+    }
+    current = new URL(location, current).toString();
+  }
+}
+
+type RobotsEntry = { fetchedAt: number; groups: RobotsGroup[] | 'allow-all' | 'disallow-all' };
+const robotsCache = new Map<string, RobotsEntry>();
+
+/**
+ * robots.txt for an origin, cached; per RFC 9309 a missing file (4xx) allows everything and an
+ * unreachable one (5xx, network error) disallows everything
+ */
+async function loadRobots(origin: string, policy: FetchPolicy): Promise<RobotsEntry> {
+  const cached = robotsCache.get(origin);
+  if (cached && Date.now() - cached.fetchedAt < ROBOTS_CACHE_TTL_MS) {
+    return cached;
+  }
+
+  let entry: RobotsEntry;
+  try {
+    const response = await requestFollowingRedirects(`${origin}/robots.txt`, policy, ROBOTS_MAX_BYTES, false, true);
+    if (response.status >= 200 && response.status < 300) {
+      entry = { fetchedAt: Date.now(), groups: parseRobotsTxt(response.data || '') };
+    } else if (response.status >= 400 && response.status < 500) {
+      entry = { fetchedAt: Date.now(), groups: 'allow-all' };
+    } else {
+      entry = { fetchedAt: Date.now(), groups: 'disallow-all' };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[SafeFetch] robots.txt for ${origin} is unreachable, treating as disallowed: ${errorMessage}`);
+    entry = { fetchedAt: Date.now(), groups: 'disallow-all' };
+  }
+
+  robotsCache.set(origin, entry);
+  return entry;
+}
+
+async function assertAllowedByRobots(target: URL, policy: FetchPolicy): Promise<void> {
+  if (!policy.respectRobotsTxt) {
+    return;
+  }
+
+  const { groups } = await loadRobots(target.origin, policy);
+  const path = `${target.pathname}${target.search}`;
+  const allowed = groups === 'allow-all' ||
+    (groups !== 'disallow-all' && isAllowedByRobots(groups, policy.robotsUserAgent, path));
+  if (!allowed) {
+    throw new FetchBlockedError(
+      'ROBOTS_DISALLOWED',
+      `robots.txt of ${target.origin} disallows ${policy.robotsUserAgent} from fetching ${path}`,
+      target.toString()
+    );
+  }
+}
+
+/**
+ * Check a URL against the address and robots.txt rules without fetching it
+ * For fetches made on our behalf (e.g. by a render service) that cannot be guarded per hop
+ */
+export async function assertFetchAllowed(url: string, policy: FetchPolicy = DEFAULT_FETCH_POLICY): Promise<void> {
+  const target = await assertPublicUrl(url, policy);
+  await assertAllowedByRobots(target, policy);
+}
+
+/**
+ * Fetch an HTML page (or another of the policy's content types) under the fetch policy
+ * Policy violations throw FetchBlockedError; HTTP and network errors throw as usual
+ */
+export async function fetchPage(url: string, policy: FetchPolicy = DEFAULT_FETCH_POLICY): Promise<FetchedPage> {
+  const response = await requestFollowingRedirects(url, policy, policy.maxBytes, true);
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Request failed with status code ${response.status}`);
+  }
+
+  const contentType = String(response.headers['content-type'] || '');
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  if (policy.contentTypes.indexOf(mediaType) === -1) {
+    throw new FetchBlockedError(
+      'UNSUPPORTED_CONTENT_TYPE',
+      `${response.url} returned ${mediaType || 'no content type'}; expected ${policy.contentTypes.join(' or ')}`,
+      response.url
+    );
+  }
+
+  return { url: response.url, html: response.data, contentType };
+}
+
+/**
+ * Forget cached robots.txt files
+ */
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
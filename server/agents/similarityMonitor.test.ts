@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingProvider, InspirationMetadata, SimilarityMonitor } from './similarityMonitor';
+import { DraftOutput } from './draftGenerator';
+
+const STARTER_TEXT = 'Feed the starter every day with equal parts flour and water, then keep the jar somewhere warm.';
+
+const draft: DraftOutput = {
+  title: 'Keeping a Starter Alive',
+  metaDescription: 'A feeding routine for busy bakers.',
+  bodyParagraphs: [STARTER_TEXT],
+  wordCount: 17,
+};
+
+/**
+ * Inspiration metadata that repeats the draft word for word
+ */
+const copiedSource: InspirationMetadata = {
+  title: draft.title,
+  metaDescription: draft.metaDescription,
+  headings: { h1: [], h2: [], h3: [] },
+  content: { text: STARTER_TEXT },
+};
+
+const unrelatedSource: InspirationMetadata = {
+  title: 'Tuning Bicycle Gears',
+  metaDescription: 'Indexing derailleurs quickly.',
+  headings: { h1: ['Tuning Bicycle Gears'], h2: ['Cable tension'], h3: [] },
+  content: { text: 'Shift onto the smallest cog and turn the barrel adjuster until the chain runs quietly.' },
+};
+
+describe('SimilarityMonitor', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('scores a copied text as not distinct', async () => {
+    const result = await new SimilarityMonitor().checkSimilarity({ draft, inspirationMetadata: copiedSource });
+
+    expect(result.distinctivenessScore).toBe(0);
+    expect(result.similarityDetails).toEqual({ titleSimilarity: 1, contentSimilarity: 1, shingleOverlap: 1 });
+    expect(result.provider).toBe('local-tfidf');
+  });
+
+  it('scores a text sharing no words as fully distinct', async () => {
+    const result = await new SimilarityMonitor().checkSimilarity({ draft, inspirationMetadata: unrelatedSource });
+
+    expect(result.distinctivenessScore).toBe(1);
+    expect(result.similarityDetails).toEqual({ titleSimilarity: 0, contentSimilarity: 0, shingleOverlap: 0 });
+  });
+
+  it('weighs content similarity at 70% and title similarity at 30%', async () => {
+    // Title vectors match, content vectors are orthogonal and the texts share no shingles
+    const provider: EmbeddingProvider = { name: 'fixed', embed: async () => [[1, 0], [1, 0], [1, 0], [0, 1]] };
+
+    const result = await new SimilarityMonitor(provider).checkSimilarity({ draft, inspirationMetadata: unrelatedSource });
+
+    expect(result.similarityDetails).toMatchObject({ titleSimilarity: 1, contentSimilarity: 0 });
+    expect(result.distinctivenessScore).toBe(0.7);
+    expect(result.provider).toBe('fixed');
+  });
+
+  it('reports the least distinct of several sources', async () => {
+    const result = await new SimilarityMonitor().checkSimilarityToSources(draft, [
+      { url: 'https://example.org/gears', metadata: unrelatedSource },
+      { url: 'https://example.org/starter', metadata: copiedSource },
+    ]);
+
+    expect(result.distinctivenessScore).toBe(0);
+    expect(result.sources).toEqual([
+      expect.objectContaining({ url: 'https://example.org/gears', distinctivenessScore: 1 }),
+      expect.objectContaining({ url: 'https://example.org/starter', distinctivenessScore: 0 }),
+    ]);
+  });
+
+  it('falls back to TF-IDF when the embedding provider fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider: EmbeddingProvider = { name: 'ollama:test', embed: async () => { throw new Error('connection refused'); } };
+
+    const result = await new SimilarityMonitor(provider).checkSimilarity({ draft, inspirationMetadata: copiedSource });
+
+    expect(result.provider).toBe('local-tfidf');
+    expect(result.distinctivenessScore).toBe(0);
+  });
+});
@@ -0,0 +1,314 @@
+import axios, { AxiosInstance } from 'axios';
+import { DraftOutput } from './draftGenerator';
+
+/**
+ * Inspiration metadata as stored in the pipeline context
+ */
+export interface InspirationMetadata {
+  title: string;
+  metaDescription: string;
+  headings: {
+    h1: string[];
+    h2: string[];
+    h3: string[];
+  };
+  content?: { text: string }; // Main body text, when the page content was extracted
+}
+
+/**
+ * Input interface for the similarity check
+ * Compares a generated draft against the scraped inspiration metadata
+ */
+export interface SimilarityInput {
+  draft: DraftOutput;
+  inspirationMetadata: InspirationMetadata;
+}
+
+/**
+ * Output interface for the similarity check
+ * distinctivenessScore is on a 0-1 scale where 1 means fully distinct
+ */
+export interface SimilarityOutput {
+  distinctivenessScore: number;
+  similarityDetails: {
+    titleSimilarity: number;
+    contentSimilarity: number;
+    shingleOverlap: number;
+  };
+  provider: string;
+  sources?: SourceSimilarity[]; // Per-source results when comparing against several sources
+}
+
+/**
+ * Similarity of a draft to one of several inspiration sources
+ */
+export interface SourceSimilarity {
+  url: string;
+  distinctivenessScore: number;
+  similarityDetails: SimilarityOutput['similarityDetails'];
+}
+
+/**
+ * Pluggable embedding provider used to vectorize texts for comparison
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase word tokens
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean);
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Fraction of the source's word shingles that reappear verbatim in the target
+ * Catches copied headings and phrases that bag-of-words vectors can miss
+ */
+function shingleContainment(source: string, target: string, size: number = 3): number {
+  const shingles = (text: string): Set<string> => {
+    const tokens = tokenize(text);
+    const result = new Set<string>();
+    for (let i = 0; i + size <= tokens.length; i++) {
+      result.add(tokens.slice(i, i + size).join(' '));
+    }
+    return result;
+  };
+
+  const sourceShingles = shingles(source);
+  if (sourceShingles.size === 0) {
+    return 0;
+  }
+
+  const targetShingles = shingles(target);
+  let shared = 0;
+  sourceShingles.forEach(shingle => {
+    if (targetShingles.has(shingle)) {
+      shared++;
+    }
+  });
+  return shared / sourceShingles.size;
+}
+
+/**
+ * Local TF-IDF embedding provider
+ * Builds a shared vocabulary over the given texts, so it works fully offline
+ */
+export class TfIdfEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local-tfidf';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const documents = texts.map(text => tokenize(text).filter(token => !STOP_WORDS.has(token)));
+
+    const vocabulary = new Map<string, number>();
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(tokens => {
+      new Set(tokens).forEach(token => {
+        if (!vocabulary.has(token)) {
+          vocabulary.set(token, vocabulary.size);
+        }
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      });
+    });
+
+    // Smoothed IDF so terms shared by every document still carry weight
+    const totalDocuments = documents.length;
+    return documents.map(tokens => {
+      const vector = new Array<number>(vocabulary.size).fill(0);
+      tokens.forEach(token => {
+        vector[vocabulary.get(token)!] += 1;
+      });
+      vocabulary.forEach((index, token) => {
+        if (vector[index] > 0) {
+          const idf = Math.log((1 + totalDocuments) / (1 + documentFrequency.get(token)!)) + 1;
+          vector[index] = (vector[index] / tokens.length) * idf;
+        }
+      });
+      return vector;
+    });
+  }
+}
+
+/**
+ * Ollama embedding provider
+ * Uses the local Ollama /api/embed endpoint with an embedding model
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private client: AxiosInstance;
+  private model: string;
+
+  constructor(baseUrl: string, model: string) {
+    this.model = model;
+    this.name = `ollama:${model}`;
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await this.client.post<{ embeddings: number[][] }>('/api/embed', {
+        model: this.model,
+        input: texts,
+      });
+      return response.data.embeddings;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Ollama embedding request failed: ${errorMessage}`);
+    }
+  }
+}
+
+/**
+ * Create the embedding provider configured through the environment
+ * SIMILARITY_EMBEDDING_PROVIDER=ollama uses OLLAMA_EMBEDDING_MODEL (default: nomic-embed-text)
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  if (process.env.SIMILARITY_EMBEDDING_PROVIDER === 'ollama') {
+    const baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+    const model = process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text';
+    return new OllamaEmbeddingProvider(baseUrl, model);
+  }
+  return new TfIdfEmbeddingProvider();
+}
+
+/**
+ * Similarity Monitor
+ * Measures how distinct a generated draft is from the inspiration page
+ * Falls back to the local TF-IDF provider when the configured provider is unavailable
+ */
+export class SimilarityMonitor {
+  private provider: EmbeddingProvider;
+  private fallbackProvider: EmbeddingProvider;
+
+  constructor(provider: EmbeddingProvider = new TfIdfEmbeddingProvider()) {
+    this.provider = provider;
+    this.fallbackProvider = provider instanceof TfIdfEmbeddingProvider ? provider : new TfIdfEmbeddingProvider();
+  }
+
+  /**
+   * Compare a draft against inspiration metadata
+   * Distinctiveness weighs content similarity (70%) above title similarity (30%)
+   */
+  async checkSimilarity(input: SimilarityInput): Promise<SimilarityOutput> {
+    const { draft, inspirationMetadata } = input;
+
+    const inspirationContent = [
+      inspirationMetadata.title,
+      inspirationMetadata.metaDescription,
+      ...inspirationMetadata.headings.h1,
+      ...inspirationMetadata.headings.h2,
+      ...inspirationMetadata.headings.h3,
+      inspirationMetadata.content?.text,
+    ].filter(Boolean).join('\n');
+    const draftContent = [draft.title, draft.metaDescription, ...draft.bodyParagraphs].join('\n');
+
+    const texts = [inspirationMetadata.title, draft.title, inspirationContent, draftContent];
+    const { vectors, provider } = await this.embedWithFallback(texts);
+
+    const titleSimilarity = Math.max(0, cosineSimilarity(vectors[0], vectors[1]));
+    // With the full source body, a copied passage is a small share of the source but a large share of the draft
+    const shingleOverlap = Math.max(
+      shingleContainment(inspirationContent, draftContent),
+      inspirationMetadata.content?.text ? shingleContainment(draftContent, inspirationMetadata.content.text) : 0
+    );
+    const contentSimilarity = Math.max(0, cosineSimilarity(vectors[2], vectors[3]), shingleOverlap);
+
+    const distinctivenessScore = 1 - (0.3 * titleSimilarity + 0.7 * contentSimilarity);
+
+    return {
+      distinctivenessScore: this.round(Math.min(1, Math.max(0, distinctivenessScore))),
+      similarityDetails: {
+        titleSimilarity: this.round(titleSimilarity),
+        contentSimilarity: this.round(contentSimilarity),
+        shingleOverlap: this.round(shingleOverlap),
+      },
+      provider,
+    };
+  }
+
+  /**
+   * Compare a draft against every inspiration source
+   * The overall scores are those of the least distinct source, so copying from any one source counts
+   */
+  async checkSimilarityToSources(
+    draft: DraftOutput,
+    sources: Array<{ url: string; metadata: InspirationMetadata }>
+  ): Promise<SimilarityOutput> {
+    if (sources.length === 1) {
+      return this.checkSimilarity({ draft, inspirationMetadata: sources[0].metadata });
+    }
+
+    const results: SourceSimilarity[] = [];
+    let leastDistinct: SimilarityOutput | undefined;
+    for (const source of sources) {
+      const result = await this.checkSimilarity({ draft, inspirationMetadata: source.metadata });
+      results.push({
+        url: source.url,
+        distinctivenessScore: result.distinctivenessScore,
+        similarityDetails: result.similarityDetails,
+      });
+      if (!leastDistinct || result.distinctivenessScore < leastDistinct.distinctivenessScore) {
+        leastDistinct = result;
+      }
+    }
+
+    return { ...leastDistinct!, sources: results };
+  }
+
+  /**
+   * Embed texts with the configured provider, falling back to local TF-IDF
+   */
+  private async embedWithFallback(texts: string[]): Promise<{ vectors: number[][]; provider: string }> {
+    try {
+      const vectors = await this.provider.embed(texts);
+      if (vectors.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`);
+      }
+      return { vectors, provider: this.provider.name };
+    } catch (error) {
+      if (this.provider === this.fallbackProvider) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[SimilarityMonitor] ${this.provider.name} failed, using local fallback: ${errorMessage}`);
+      const vectors = await this.fallbackProvider.embed(texts);
+      return { vectors, provider: this.fallbackProvider.name };
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
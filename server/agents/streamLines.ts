@@ -0,0 +1,39 @@
+import type { Readable } from 'stream';
+
+/**
+ * Read a streamed HTTP response body line by line
+ * Resolves once the stream ends; a trailing line without a newline is delivered too
+ */
+export function readStreamLines(stream: Readable, onLine: (line: string) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+
+    stream.setEncoding('utf8');
+    stream.on('data', (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      try {
+        lines.forEach(line => {
+          if (line.trim()) {
+            onLine(line.trim());
+          }
+        });
+      } catch (error) {
+        stream.destroy();
+        reject(error);
+      }
+    });
+    stream.on('end', () => {
+      try {
+        if (buffer.trim()) {
+          onLine(buffer.trim());
+        }
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+    stream.on('error', reject);
+  });
+}
@@ -0,0 +1,52 @@
+import { ChatOptions, LLMClient, LLMMessage, LLMResponse } from './llmClient';
+
+/**
+ * Lifecycle of one streamed LLM call: 'start' resets the text (agents retry with a fresh call,
+ * fallback chains restart on the next provider),
+ * 'token' appends to it and 'end' marks it complete
+ */
+export type StreamEvent =
+  | { event: 'start' }
+  | { event: 'token'; text: string }
+  | { event: 'end' };
+
+/**
+ * Wrap a client so chat() streams through chatStream and reports each token
+ * Clients without chatStream are returned unchanged
+ */
+export function createStreamingClient(client: LLMClient, onEvent: (event: StreamEvent) => void): LLMClient {
+  if (!client.chatStream) {
+    return client;
+  }
+
+  const chatStream = client.chatStream.bind(client);
+  const streamChat = async (
+    messages: LLMMessage[],
+    onToken?: (token: string) => void,
+    options?: ChatOptions
+  ): Promise<LLMResponse> => {
+    onEvent({ event: 'start' });
+    try {
+      return await chatStream(messages, token => {
+        onEvent({ event: 'token', text: token });
+        onToken?.(token);
+      }, {
+        ...options,
+        onRestart: () => {
+          onEvent({ event: 'start' });
+          options?.onRestart?.();
+        },
+      });
+    } finally {
+      onEvent({ event: 'end' });
+    }
+  };
+
+  return {
+    provider: client.provider,
+    model: client.model,
+    checkHealth: () => client.checkHealth(),
+    chat: (messages, options) => streamChat(messages, undefined, options),
+    chatStream: streamChat,
+  };
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod/v4';
+import { LLMClient, LLMMessage, ResponseFormat } from './llmClient';
+
+/**
+ * Repair attempts after the first response fails validation, from STRUCTURED_OUTPUT_REPAIR_ATTEMPTS
+ */
+export const DEFAULT_REPAIR_ATTEMPTS = process.env.STRUCTURED_OUTPUT_REPAIR_ATTEMPTS !== undefined
+  ? Number(process.env.STRUCTURED_OUTPUT_REPAIR_ATTEMPTS)
+  : 2;
+
+export interface StructuredOutputOptions {
+  maxRepairAttempts?: number;
+}
+
+/**
+ * Raised when no response validated against the schema within the repair budget
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: number,
+    readonly rawResponse: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Build the response format sent to providers for a schema
+ */
+export function toResponseFormat(name: string, schema: z.ZodType): ResponseFormat {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return { name, schema: jsonSchema };
+}
+
+/**
+ * Ask the model for JSON matching a schema
+ * The schema is sent as the provider's response format; responses that fail to parse or validate
+ * are sent back with the validation errors for repair, up to maxRepairAttempts times.
+ * Errors from the client itself (network, provider) are not repaired and propagate as-is.
+ */
+export async function generateStructured<T>(
+  llmClient: LLMClient,
+  messages: LLMMessage[],
+  name: string,
+  schema: z.ZodType<T>,
+  options: StructuredOutputOptions = {}
+): Promise<T> {
+  const maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS);
+  const responseFormat = toResponseFormat(name, schema);
+  let conversation = messages;
+  let lastError = '';
+  let lastResponse = '';
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const { content } = await llmClient.chat(conversation, { responseFormat });
+    lastResponse = content;
+
+    const result = parseStructured(content, schema);
+    if (result.success) {
+      return result.data;
+    }
+
+    lastError = result.error;
+    if (attempt < maxRepairAttempts) {
+      console.warn(`[StructuredOutput] ${name} response failed validation (attempt ${attempt + 1}), requesting repair: ${lastError}`);
+    }
+
+    conversation = [
+      ...messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON structure:\n${lastError}\n\n` +
+          'Return the corrected JSON object only, with no additional text.',
+      },
+    ];
+  }
+
+  throw new StructuredOutputError(
+    `${name} response failed validation after ${maxRepairAttempts + 1} attempt(s): ${lastError}. ` +
+      `Raw response: ${lastResponse.substring(0, 1000)}...`,
+    maxRepairAttempts + 1,
+    lastResponse
+  );
+}
+
+/**
+ * Parse a model response and validate it against a schema
+ */
+export function parseStructured<T>(
+  response: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; error: string } {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(response);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return { success: false, error: z.prettifyError(result.error) };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Parse JSON from a model response, tolerating text around the JSON object
+ */
+export function extractJson(response: string): unknown {
+  try {
+    return JSON.parse(response);
+  } catch {
+    // Fall through to extracting the first balanced JSON object
+  }
+
+  const jsonStart = response.indexOf('{');
+  if (jsonStart === -1) {
+    throw new Error('No JSON object found in response');
+  }
+
+  // Find the matching closing brace, ignoring braces inside strings
+  let depth = 0;
+  let inString = false;
+  for (let i = jsonStart; i < response.length; i++) {
+    const char = response[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return JSON.parse(response.substring(jsonStart, i + 1));
+      }
+    }
+  }
+
+  throw new Error('No matching closing brace found for JSON object. Response appears to be truncated.');
+}
@@ -0,0 +1,120 @@
+import { ChatOptions, LLMClient, LLMMessage, LLMResponse, LLMUsage } from './llmClient';
+import { priceUsage } from './llmPricing';
+import type { ModelSlot, TokenUsageUpdate } from '../pipelineState';
+
+/**
+ * One LLM call, attributed to the agent slot that made it and the provider that served it
+ */
+export interface UsageRecord {
+  slot: ModelSlot;
+  provider?: string;
+  model?: string;
+  usage?: LLMUsage;
+  cached?: boolean;
+}
+
+/**
+ * Priced usage for a step, as accumulated into the execution's metrics
+ */
+export interface UsageSummary extends TokenUsageUpdate {
+  unpricedModels?: string[];
+}
+
+/**
+ * What a step's LLM calls used: priced usage (when providers reported any), the
+ * "provider:model" that served each slot's calls and how many were served from the response cache
+ */
+export interface MeterReading {
+  usage?: UsageSummary;
+  servedBy: Partial<Record<ModelSlot, string[]>>;
+  cacheHits?: Partial<Record<ModelSlot, number>>;
+}
+
+/**
+ * Collects token usage and serving providers from the clients a step runs on
+ */
+export class UsageMeter {
+  private records: UsageRecord[] = [];
+
+  /**
+   * Wrap a client so its calls are recorded against a slot
+   */
+  wrap(slot: ModelSlot, client: LLMClient): LLMClient {
+    // Composite clients report which of their clients served the call
+    const record = (response: LLMResponse): LLMResponse => {
+      this.records.push({
+        slot,
+        provider: response.provider || client.provider,
+        model: response.model || client.model,
+        usage: response.usage,
+        cached: response.cached,
+      });
+      return response;
+    };
+
+    return {
+      provider: client.provider,
+      model: client.model,
+      temperature: client.temperature,
+      checkHealth: () => client.checkHealth(),
+      chat: async (messages: LLMMessage[], options?: ChatOptions) => record(await client.chat(messages, options)),
+      chatStream: client.chatStream
+        ? async (messages: LLMMessage[], onToken: (token: string) => void, options?: ChatOptions) =>
+          record(await client.chatStream!(messages, onToken, options))
+        : undefined,
+    };
+  }
+
+  /**
+   * Price and clear the recorded calls; undefined when nothing was recorded
+   */
+  async drain(): Promise<MeterReading | undefined> {
+    const records = this.records;
+    this.records = [];
+    if (records.length === 0) {
+      return undefined;
+    }
+
+    const servedBy: MeterReading['servedBy'] = {};
+    records.forEach(record => {
+      const served = servedBy[record.slot] || (servedBy[record.slot] = []);
+      const description = record.provider ? `${record.provider}:${record.model}` : record.model || 'unknown';
+      if (served.indexOf(description) === -1) {
+        served.push(description);
+      }
+    });
+
+    const cached = records.filter(record => record.cached);
+    const cacheHits: MeterReading['cacheHits'] = cached.length > 0 ? {} : undefined;
+    cached.forEach(record => {
+      cacheHits![record.slot] = (cacheHits![record.slot] || 0) + 1;
+    });
+
+    const metered = records.filter(record => record.usage);
+    if (metered.length === 0) {
+      return { servedBy, cacheHits };
+    }
+
+    const summary: UsageSummary = { tokens: {}, promptTokens: 0, completionTokens: 0, cost: 0 };
+    const unpriced = new Set<string>();
+
+    for (const record of metered) {
+      const usage = record.usage!;
+      summary.tokens[record.slot] = (summary.tokens[record.slot] || 0) + usage.promptTokens + usage.completionTokens;
+      summary.promptTokens += usage.promptTokens;
+      summary.completionTokens += usage.completionTokens;
+
+      const cost = await priceUsage(record.provider, record.model, usage);
+      if (cost === undefined) {
+        unpriced.add(record.model || 'unknown');
+      } else {
+        summary.cost += cost;
+      }
+    }
+
+    if (unpriced.size > 0) {
+      summary.unpricedModels = Array.from(unpriced);
+    }
+    return { usage: summary, servedBy, cacheHits };
+  }
+}
@@ -1,39 +1,63 @@
 import express from 'express';
-import axios from 'axios';
+import { z } from 'zod';
+import { LLM_PROVIDERS } from '../agents/llmClient';
+import { MODEL_CAPABILITIES, queryModelCatalog } from '../agents/modelCatalog';
 
 export const router = express.Router();
 
-// Get available local Ollama models (for local Ollama deployments)
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const catalogQuerySchema = z.object({
+  search: z.string().optional(),
+  provider: z.enum(LLM_PROVIDERS).optional(),
+  installed: booleanParam.optional(),
+  capability: z.enum(MODEL_CAPABILITIES).optional(),
+  minContextLength: z.coerce.number().int().positive().optional(),
+  refresh: booleanParam.optional(),
+});
+
+/**
+ * GET /api/models
+ *
+ * Model catalog for every provider (Ollama, OpenRouter, OpenAI-compatible), with context length,
+ * pricing, capabilities and install state. Query: search, provider, installed, capability,
+ * minContextLength, refresh. Providers that fail to load are reported in `providers`.
+ */
 router.get('/models', async (req, res) => {
+  const validationResult = catalogQuerySchema.safeParse(req.query);
+
+  if (!validationResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid model catalog query',
+        details: validationResult.error.format(),
+      },
+    });
+  }
+
   try {
-    const baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
-    const response = await axios.get(`${baseUrl}/api/tags`);
-    const models = response.data.models || [];
-    
-    // Add the phi4-mini-reasoning model if not already in the list
-    const defaultModels = [
-      { name: 'phi4-mini-reasoning', model: 'phi4-mini-reasoning' },
-      { name: 'llama2', model: 'llama2' },
-      { name: 'mistral', model: 'mistral' },
-    ];
-
-    // Merge and deduplicate models
-    const allModels = [
-      ...defaultModels,
-      ...models.map((m: any) => ({
-        name: m.name,
-        model: m.model || m.name
-      }))
-    ].filter((m, i, self) => 
-      i === self.findIndex(t => t.name === m.name)
-    );
-
-    res.json({ models: allModels });
+    const catalog = await queryModelCatalog(validationResult.data);
+
+    return res.status(200).json({
+      success: true,
+      data: catalog,
+    });
   } catch (error) {
-    console.error('Failed to fetch models:', error);
-    res.status(500).json({ 
-      error: 'Failed to fetch models',
-      details: error instanceof Error ? error.message : 'Unknown error'
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error('[API] Failed to query model catalog:', {
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'MODELS_FETCH_FAILED',
+        message: `Failed to fetch models: ${errorMessage}`,
+      },
     });
   }
 });
@@ -1,9 +1,42 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { createOllamaClient } from '../agents/ollamaClient';
-import { createOpenRouterClient } from '../agents/openRouterClient';
-import { createWorkflow } from '../agents/observerWorkflow';
+import { LLM_PROVIDERS } from '../agents/llmClient';
+import { createWorkflow, ResumeDecision } from '../agents/observerWorkflow';
+import {
+  createWorkflowClients,
+  findMissingCredentials,
+  findUnconfiguredProviders,
+} from '../agents/clientFactory';
+import {
+  storeCredential,
+  storeAnonymousCredential,
+  deleteAnonymousCredential,
+  findCredentialRef,
+  listCredentials,
+  deleteCredential,
+} from '../credentialVault';
+import { redactSecrets } from '../_core/redact';
+import { sdk } from '../_core/sdk';
+import { NOT_ADMIN_ERR_MSG } from '@shared/const';
+import type { User } from '../../drizzle/schema';
+import { normalizeOutline, OutlineOutput } from '../agents/outlineGenerator';
+import { DEFAULT_PIPELINE_ID, getPipelineDefinition, listPipelineDefinitions } from '../agents/pipelineDefinition';
 import { getPipelineExecution, clearSuspensionState } from '../pipelineState';
+import {
+  isPromptTemplateId,
+  listPromptTemplates,
+  getPromptTemplateVersions,
+  createPromptTemplateVersion,
+  activatePromptTemplateVersion,
+  deletePromptTemplateVersion,
+} from '../promptTemplateStore';
+import { DEFAULT_PROMPT_TEMPLATES } from '../agents/defaultPrompts';
+import { validateTemplate } from '../agents/promptTemplates';
+import { InspirationSource, inspirationSourceRef } from '../agents/inspirationSources';
+import { DocumentParseError, UPLOAD_FILE_TYPES, detectFileType, parseDocument } from '../agents/documentParsers';
+import { fetchFeed } from '../agents/feedParser';
+import { getFetchBlockedError } from '../agents/safeFetch';
+import { getInspirationUpload, saveInspirationUpload, InspirationUpload } from '../inspirationUploads';
 
 // Add CORS middleware
 const allowedOrigins = [
@@ -16,7 +49,7 @@ const allowCors = (req: Request, res: Response, next: NextFunction) => {
   if (allowedOrigins.includes(origin)) {
     res.header('Access-Control-Allow-Origin', origin);
     res.header('Access-Control-Allow-Credentials', 'true');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
     res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
     
     // Handle preflight
@@ -31,127 +64,155 @@ const router = Router();
 router.use(allowCors);
 
 /**
- * GET /api/workflow/models
- * 
- * Get available local Ollama models (for local Ollama deployments)
+ * Signed-in user (session cookie), or undefined for anonymous callers
  */
-router.get('/models', async (req: Request, res: Response) => {
+async function getSessionUser(req: Request): Promise<User | undefined> {
   try {
-    // Create Ollama client with default configuration
-    const ollamaClient = createOllamaClient('gemma3:270m'); // Use any model to create client
-    
-    // Check if Ollama is healthy
-    const isHealthy = await ollamaClient.checkHealth();
-    
-    if (!isHealthy) {
-      return res.status(503).json({
-        success: false,
-        error: {
-          code: 'OLLAMA_UNAVAILABLE',
-          message: 'Local Ollama service is not available',
-        },
-      });
-    }
-    
-    // Get available models using axios directly since client is private
-    const axios = (ollamaClient as any).client; // Access private client for this specific case
-    const response = await axios.get('/api/tags');
-    const models = response.data.models || [];
-    
-    return res.status(200).json({
-      success: true,
-      data: {
-        models: models.map((m: any) => m.name),
-      },
-    });
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    console.error('[API] Failed to get local Ollama models:', {
-      error: errorMessage,
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-    
-    return res.status(500).json({
-      success: false,
-      error: {
-        code: 'MODELS_FETCH_FAILED',
-        message: `Failed to fetch models: ${errorMessage}`,
-      },
-    });
+    return await sdk.authenticateRequest(req);
+  } catch {
+    return undefined;
   }
+}
+
+/**
+ * OpenID of the signed-in user, or undefined for anonymous callers
+ * Stored provider keys belong to this id, never to the client-supplied editorId.
+ */
+async function getSessionUserId(req: Request): Promise<string | undefined> {
+  return (await getSessionUser(req))?.openId;
+}
+
+/**
+ * 401 body for routes called without a session
+ */
+const unauthenticatedError = (message: string) => ({
+  success: false,
+  error: {
+    code: 'UNAUTHENTICATED',
+    message,
+  },
 });
 
 /**
- * POST /api/workflow/openrouter-models
- * 
- * Get available OpenRouter models
+ * Rejects callers that are not admins, mirroring adminProcedure on the tRPC side
+ * Returns true when the response has already been sent.
  */
-router.post('/openrouter-models', async (req: Request, res: Response) => {
-  try {
-    const { apiKey } = req.body;
-    
-    if (!apiKey) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: 'API key is required',
-        },
-      });
-    }
-    
-    // Fetch models from OpenRouter
-    const response = await fetch('https://openrouter.ai/api/v1/models', {
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    
-    // Extract model names from the response
-    const models = data.data?.map((model: any) => model.id) || [];
-    
-    return res.status(200).json({
-      success: true,
-      data: {
-        models,
-      },
-    });
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    console.error('[API] Failed to get OpenRouter models:', {
-      error: errorMessage,
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-    
-    return res.status(500).json({
+async function rejectNonAdmin(req: Request, res: Response): Promise<boolean> {
+  const user = await getSessionUser(req);
+  if (!user) {
+    res.status(401).json(unauthenticatedError('Sign in to manage prompt templates'));
+    return true;
+  }
+  if (user.role !== 'admin') {
+    res.status(403).json({
       success: false,
       error: {
-        code: 'OPENROUTER_MODELS_FETCH_FAILED',
-        message: `Failed to fetch OpenRouter models: ${errorMessage}`,
+        code: 'FORBIDDEN',
+        message: NOT_ADMIN_ERR_MSG,
       },
     });
+    return true;
   }
+  return false;
+}
+
+/**
+ * GET /api/workflow/pipelines
+ * 
+ * List the registered pipeline definitions that /start accepts as pipelineId
+ */
+router.get('/pipelines', (req: Request, res: Response) => {
+  return res.status(200).json({
+    success: true,
+    data: {
+      defaultPipelineId: DEFAULT_PIPELINE_ID,
+      pipelines: listPipelineDefinitions(),
+    },
+  });
+});
+
+/**
+ * Model/provider for one agent slot; provider defaults to the workflow provider
+ */
+const stepModelSchema = z.object({
+  model: z.string().min(1, 'Model is required'),
+  provider: z.enum(LLM_PROVIDERS).optional(),
 });
 
 /**
  * Input validation schema for starting a workflow
  */
+const MAX_INSPIRATION_URLS = 5;
+
+/**
+ * Inspiration that is not (only) a URL: pasted text, an uploaded file or a feed entry
+ */
+const inspirationSourceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('url'), url: z.string().url('Invalid URL format') }),
+  z.object({ type: z.literal('text'), text: z.string().trim().min(1).max(200000), title: z.string().max(300).optional() }),
+  z.object({ type: z.literal('file'), uploadId: z.string().min(1) }),
+  z.object({ type: z.literal('feed'), feedUrl: z.string().url('Invalid URL format'), entryUrl: z.string().url('Invalid URL format') }),
+]);
+
+/**
+ * Inspiration sources of a start request in order, without duplicates:
+ * inspirationUrl, then inspirationUrls, then inspirationSources
+ */
+function collectInspirationSources(data: {
+  inspirationUrl?: string;
+  inspirationUrls?: string[];
+  inspirationSources?: InspirationSource[];
+}): InspirationSource[] {
+  const sources: InspirationSource[] = [
+    ...[data.inspirationUrl, ...(data.inspirationUrls || [])]
+      .filter((url): url is string => Boolean(url))
+      .map((url): InspirationSource => ({ type: 'url', url })),
+    ...(data.inspirationSources || []),
+  ];
+  const refs = sources.map(inspirationSourceRef);
+  return sources.filter((_, index) => refs.indexOf(refs[index]) === index);
+}
+
 const startWorkflowSchema = z.object({
-  inspirationUrl: z.string().url('Invalid URL format'),
+  inspirationUrl: z.string().url('Invalid URL format').optional(),
+  // Several articles on the same topic, extracted in parallel into one concept pool
+  inspirationUrls: z.array(z.string().url('Invalid URL format')).min(1).max(MAX_INSPIRATION_URLS).optional(),
+  // Pasted text, uploaded files (POST /uploads) and feed entries (GET /feeds), pooled with the URLs
+  inspirationSources: z.array(inspirationSourceSchema).min(1).max(MAX_INSPIRATION_URLS).optional(),
   editorId: z.string().optional().default('web-interface'),
   model: z.string().optional().default('phi4-mini-reasoning'),
-  provider: z.enum(['ollama', 'openrouter']).optional().default('ollama'),
+  provider: z.enum(LLM_PROVIDERS).optional().default('ollama'),
   apiKey: z.string().optional(),
+  outlineApproval: z.boolean().optional().default(false),
+  pipelineId: z.string().optional().default(DEFAULT_PIPELINE_ID),
+  gates: z.object({
+    concepts: z.boolean().optional(),
+    outline: z.boolean().optional(),
+    draft: z.boolean().optional(),
+  }).optional(),
+  stepModels: z.object({
+    summarizer: stepModelSchema.optional(),
+    outline: stepModelSchema.optional(),
+    draft: stepModelSchema.optional(),
+    reviewer: stepModelSchema.optional(),
+  }).optional(),
+  fallbacks: z.array(stepModelSchema).max(5).optional(),
+  cacheResponses: z.boolean().optional(),
+  // Extract from pasted HTML or a file in INSPIRATION_HTML_DIR before fetching the first inspiration URL
+  inspirationHtml: z.string().min(1).max(5 * 1024 * 1024).optional(),
+  inspirationFile: z.string().min(1).optional(),
+}).refine(data => !(data.inspirationHtml && data.inspirationFile), {
+  message: 'Provide either inspirationHtml or inspirationFile, not both',
+  path: ['inspirationFile'],
+}).refine(data => collectInspirationSources(data).length > 0, {
+  message: 'inspirationUrl, inspirationUrls or inspirationSources is required',
+  path: ['inspirationUrl'],
+}).refine(data => collectInspirationSources(data).length <= MAX_INSPIRATION_URLS, {
+  message: `At most ${MAX_INSPIRATION_URLS} inspiration sources are allowed`,
+  path: ['inspirationSources'],
+}).refine(data => !(data.inspirationHtml || data.inspirationFile) || collectInspirationSources(data)[0]?.type === 'url', {
+  message: 'inspirationHtml and inspirationFile require the first inspiration source to be a URL',
+  path: ['inspirationHtml'],
 });
 
 /**
@@ -176,7 +237,8 @@ const safeJsonParse = (value: any) => {
  * Requirements: 10.1, 1.1, 1.4
  */
 router.post('/start', async (req: Request, res: Response) => {
-  console.log('Received request to /api/workflow/start', { body: req.body });
+  console.log('Received request to /api/workflow/start', { body: redactSecrets(req.body) });
+  let anonymousCredentialRef: string | undefined;
   try {
     // Validate input
     const validationResult = startWorkflowSchema.safeParse(req.body);
@@ -192,33 +254,122 @@ router.post('/start', async (req: Request, res: Response) => {
       });
     }
 
-    const { inspirationUrl, editorId, model, provider, apiKey } = validationResult.data;
+    const {
+      editorId, model, provider, apiKey, outlineApproval, pipelineId, gates, stepModels, fallbacks,
+      cacheResponses, inspirationHtml, inspirationFile,
+    } = validationResult.data;
+    const inspirationSources = collectInspirationSources(validationResult.data);
+    const inspirationRefs = inspirationSources.map(inspirationSourceRef);
+    const urlsOnly = inspirationSources.every(source => source.type === 'url');
+
+    // Uploads can only be used by the user who uploaded them
+    const sessionUserId = await getSessionUserId(req);
+    const missingUpload = inspirationSources.find(source =>
+      source.type === 'file' && (!sessionUserId || !getInspirationUpload(source.uploadId, sessionUserId))
+    );
+    if (missingUpload) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'UPLOAD_NOT_FOUND',
+          message: `Upload not found: ${inspirationSourceRef(missingUpload)}`,
+        },
+      });
+    }
+
+    if (!getPipelineDefinition(pipelineId)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'UNKNOWN_PIPELINE',
+          message: `Unknown pipeline definition: ${pipelineId}`,
+        },
+      });
+    }
 
-    console.log(`[API] Starting workflow for URL: ${inspirationUrl} with model: ${model} and provider: ${provider}`);
+    console.log(`[API] Starting workflow for URL: ${inspirationRefs.join(', ')} with model: ${model} and provider: ${provider}`);
 
-    // Create appropriate client based on provider
-    let ollamaClient;
-    if (provider === 'openrouter' && apiKey) {
-      // For OpenRouter, we'll create a custom client
-      ollamaClient = createOpenRouterClient(apiKey, model);
-    } else {
-      // Default to Ollama client
-      ollamaClient = createOllamaClient(model);
+    const unconfiguredProviders = findUnconfiguredProviders({ provider, model, fallbacks }, stepModels);
+    if (unconfiguredProviders.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'PROVIDER_NOT_CONFIGURED',
+          message: `Provider not configured on this server (OPENAI_COMPATIBLE_BASE_URL for openai-compatible, MOCK_LLM_ENABLED for mock) for: ${unconfiguredProviders.join(', ')}`,
+        },
+      });
+    }
+
+    // A key sent with the request is only checked here; it is stored once the request is valid
+    const storedCredentialRef = sessionUserId ? findCredentialRef(sessionUserId, 'openrouter') : undefined;
+    const missingCredentials = findMissingCredentials(
+      { provider, model, fallbacks },
+      stepModels,
+      { apiKey, credentialRef: storedCredentialRef }
+    );
+    if (missingCredentials.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `An OpenRouter API key is required for: ${missingCredentials.join(', ')}`,
+        },
+      });
     }
-    
-    const workflow = createWorkflow(ollamaClient);
+
+    // Keys sent with the request go into the signed-in user's vault entry; otherwise their stored key is used.
+    // An anonymous caller's key is stored under a one-off owner and deleted when the execution ends.
+    let credentialRef = storedCredentialRef;
+    if (apiKey && sessionUserId) {
+      credentialRef = storeCredential(sessionUserId, 'openrouter', apiKey);
+    } else if (apiKey) {
+      credentialRef = anonymousCredentialRef = storeAnonymousCredential('openrouter', apiKey);
+    }
+
+    // Create clients for the execution provider; steps and agent slots with their own model reuse the factory
+    const { llmClient, clientFactory } = createWorkflowClients(
+      { provider, model, fallbacks, cacheResponses },
+      { credentialRef }
+    );
+    const workflow = createWorkflow(llmClient, undefined, clientFactory);
 
     // Start workflow asynchronously
     // The workflow will create a new execution in the database and return immediately
     // with the execution ID when it reaches the first suspension point
     const result = await workflow.execute({
-      url: inspirationUrl,
+      url: inspirationRefs[0],
+      urls: urlsOnly ? inspirationRefs : undefined,
+      sources: urlsOnly ? undefined : inspirationSources,
       editorId,
       model,
       provider,
-      apiKey,
+      credentialRef,
+      outlineApproval,
+      pipelineId,
+      gates,
+      stepModels,
+      fallbacks,
+      cacheResponses,
+      source: inspirationHtml || inspirationFile ? { html: inspirationHtml, file: inspirationFile } : undefined,
     });
 
+    // The workflow deletes an anonymous key when its execution ends; this also covers starts that never created one
+    if (result.status === 'error' && anonymousCredentialRef) {
+      deleteAnonymousCredential(anonymousCredentialRef);
+    }
+
+    // The inspiration URL was refused by the fetch policy (private address, robots.txt, size, ...)
+    if (result.status === 'error' && result.errorCode) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: result.errorCode,
+          message: result.error,
+          details: { executionId: result.executionId },
+        },
+      });
+    }
+
     // Return execution ID and status
     return res.status(200).json({
       success: true,
@@ -239,9 +390,13 @@ router.post('/start', async (req: Request, res: Response) => {
     console.error('[API] Failed to start workflow:', {
       error: errorMessage,
       stack: errorStack,
-      body: req.body,
+      body: redactSecrets(req.body),
     });
 
+    if (anonymousCredentialRef) {
+      deleteAnonymousCredential(anonymousCredentialRef);
+    }
+
     return res.status(500).json({
       success: false,
       error: {
@@ -294,6 +449,8 @@ router.get('/executions/:executionId', async (req: Request, res: Response) => {
       status: execution.status,
       input: {
         inspirationUrl: execution.inspirationUrl,
+        ...(execution.inspirationUrls ? { inspirationUrls: execution.inspirationUrls } : {}),
+        ...(execution.inspirationSources ? { inspirationSources: execution.inspirationSources } : {}),
         editorId: execution.editorId,
       },
       context: safeJsonParse(execution.context),
@@ -303,7 +460,7 @@ router.get('/executions/:executionId', async (req: Request, res: Response) => {
 
     return res.status(200).json({
       success: true,
-      data: parsedExecution,
+      data: redactSecrets(parsedExecution),
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -335,7 +492,7 @@ router.get('/executions/:executionId', async (req: Request, res: Response) => {
 router.post('/executions/:executionId/resume', async (req: Request, res: Response) => {
   try {
     const { executionId } = req.params;
-    const { action, gate, comments } = req.body;
+    const { action, gate, comments, concepts, outline } = req.body;
 
     if (!executionId) {
       return res.status(400).json({
@@ -360,6 +517,93 @@ router.post('/executions/:executionId/resume', async (req: Request, res: Respons
       });
     }
 
+    if (!['concepts', 'outline', 'draft'].includes(gate)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Gate must be one of: concepts, outline, draft',
+        },
+      });
+    }
+
+    if (!['approve', 'reject', 'revise'].includes(action)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Action must be one of: approve, reject, revise',
+        },
+      });
+    }
+
+    // Requesting changes only makes sense with something to change
+    if (action === 'revise' && (typeof comments !== 'string' || comments.trim().length === 0)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Comments are required when requesting changes',
+        },
+      });
+    }
+
+    if (concepts !== undefined) {
+      if (gate !== 'concepts') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Edited concepts can only be submitted at the concept gate',
+          },
+        });
+      }
+
+      if (!Array.isArray(concepts) || !concepts.every((concept: unknown) => typeof concept === 'string')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Concepts must be an array of strings',
+          },
+        });
+      }
+
+      if (!concepts.some((concept: string) => concept.trim().length > 0)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'At least one concept is required',
+          },
+        });
+      }
+    }
+
+    if (outline !== undefined) {
+      if (gate !== 'outline') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'An edited outline can only be submitted at the outline gate',
+          },
+        });
+      }
+
+      try {
+        normalizeOutline(outline);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Invalid outline: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        });
+      }
+    }
+
     // Get the execution to retrieve the model information
     const execution = await getPipelineExecution(executionId);
     if (!execution) {
@@ -372,26 +616,31 @@ router.post('/executions/:executionId/resume', async (req: Request, res: Respons
       });
     }
 
-    // Create appropriate client based on the provider used for the initial execution
-    const model = execution.model || 'phi4-mini-reasoning'; // Use stored model or default
-    const provider = (execution as any).provider || 'ollama'; // Use stored provider or default
-    let ollamaClient;
-    
-    if (provider === 'openrouter' && (execution as any).apiKey) {
-      // For OpenRouter, we'll create a custom client
-      ollamaClient = createOpenRouterClient((execution as any).apiKey, model);
-    } else {
-      // Default to Ollama client
-      ollamaClient = createOllamaClient(model);
+    // Rebuild the clients from the provider and model the execution was started with
+    const credentials = { credentialRef: execution.credentialRef };
+    const missingCredentials = findMissingCredentials(execution, execution.stepModels, credentials);
+    if (missingCredentials.length > 0) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'CREDENTIALS_UNAVAILABLE',
+          message: `No OpenRouter API key is available to resume this execution (${missingCredentials.join(', ')}). ` +
+            'Store a key for the editor via /api/workflow/credentials or set OPENROUTER_API_KEY on the server.',
+        },
+      });
     }
-    
-    const workflow = createWorkflow(ollamaClient);
+
+    const { llmClient, clientFactory } = createWorkflowClients(execution, credentials);
+    const workflow = createWorkflow(llmClient, undefined, clientFactory);
 
     // Prepare resume data in the format expected by the workflow
     const resumeData = {
-      gate: gate as 'concepts' | 'draft',
+      gate: gate as 'concepts' | 'outline' | 'draft',
       approved: action === 'approve',
+      decision: action as ResumeDecision,
       comments,
+      concepts: concepts as string[] | undefined,
+      outline: outline as OutlineOutput | undefined,
     };
 
     // Resume the workflow execution
@@ -419,7 +668,7 @@ router.post('/executions/:executionId/resume', async (req: Request, res: Respons
       error: errorMessage,
       stack: errorStack,
       executionId: req.params.executionId,
-      body: req.body,
+      body: redactSecrets(req.body),
     });
 
     return res.status(500).json({
@@ -432,4 +681,549 @@ router.post('/executions/:executionId/resume', async (req: Request, res: Respons
   }
 });
 
+const uploadSchema = z.object({
+  fileName: z.string().min(1, 'File name is required').max(255),
+  contentType: z.string().optional(),
+  data: z.string().min(1, 'File data is required').regex(/^[A-Za-z0-9+/\s]*={0,2}\s*$/, 'File data must be base64'),
+});
+
+/**
+ * What clients need to show an upload; the full metadata stays on the server
+ */
+function describeUpload(upload: InspirationUpload) {
+  return {
+    uploadId: upload.uploadId,
+    fileName: upload.fileName,
+    fileType: upload.fileType,
+    size: upload.size,
+    title: upload.metadata.title,
+    metaDescription: upload.metadata.metaDescription,
+    headings: upload.metadata.headings,
+    wordCount: upload.metadata.content?.wordCount ?? 0,
+    createdAt: upload.createdAt.toISOString(),
+  };
+}
+
+/**
+ * POST /api/workflow/uploads
+ *
+ * Upload a PDF, DOCX or Markdown file (base64) to use as inspiration
+ * The file is parsed immediately; start a workflow with { type: 'file', uploadId } in inspirationSources
+ * Requires a session: the upload belongs to the signed-in user.
+ */
+router.post('/uploads', async (req: Request, res: Response) => {
+  const userId = await getSessionUserId(req);
+  if (!userId) {
+    return res.status(401).json(unauthenticatedError('Sign in to upload inspiration files'));
+  }
+
+  try {
+    const validationResult = uploadSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: validationResult.error.format(),
+        },
+      });
+    }
+
+    const { fileName, contentType, data } = validationResult.data;
+    const fileType = detectFileType(fileName, contentType);
+    if (!fileType) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'UNSUPPORTED_FILE_TYPE',
+          message: `Unsupported file type: ${fileName}. Supported types: ${UPLOAD_FILE_TYPES.join(', ')}`,
+        },
+      });
+    }
+
+    const buffer = Buffer.from(data, 'base64');
+    console.log(`[API] Parsing uploaded ${fileType} file: ${fileName} (${buffer.length} bytes)`);
+
+    const metadata = await parseDocument(fileType, buffer, fileName);
+    const upload = saveInspirationUpload({ editorId: userId, fileName, fileType, size: buffer.length, metadata });
+
+    return res.status(201).json({
+      success: true,
+      data: describeUpload(upload),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (error instanceof DocumentParseError) {
+      return res.status(error.code === 'FILE_TOO_LARGE' ? 413 : 400).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: errorMessage,
+        },
+      });
+    }
+
+    console.error('[API] Failed to store upload:', {
+      error: errorMessage,
+      fileName: req.body?.fileName,
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'UPLOAD_FAILED',
+        message: `Failed to store upload: ${errorMessage}`,
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workflow/uploads/:uploadId
+ *
+ * Title, headings and size of one of the signed-in user's uploads
+ */
+router.get('/uploads/:uploadId', async (req: Request, res: Response) => {
+  const userId = await getSessionUserId(req);
+  if (!userId) {
+    return res.status(401).json(unauthenticatedError('Sign in to read inspiration files'));
+  }
+
+  try {
+    const upload = getInspirationUpload(req.params.uploadId, userId);
+
+    if (!upload) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'UPLOAD_NOT_FOUND',
+          message: `Upload not found: ${req.params.uploadId}`,
+        },
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: describeUpload(upload),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error('[API] Failed to get upload:', {
+      error: errorMessage,
+      uploadId: req.params.uploadId,
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'GET_UPLOAD_FAILED',
+        message: `Failed to get upload: ${errorMessage}`,
+      },
+    });
+  }
+});
+
+const feedQuerySchema = z.object({
+  url: z.string().url('Invalid URL format'),
+});
+
+/**
+ * GET /api/workflow/feeds?url=
+ *
+ * List the entries of an RSS/Atom/JSON feed or sitemap, to pick one as inspiration
+ * Start a workflow with { type: 'feed', feedUrl, entryUrl } in inspirationSources
+ */
+router.get('/feeds', async (req: Request, res: Response) => {
+  const validationResult = feedQuerySchema.safeParse(req.query);
+
+  if (!validationResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid input data',
+        details: validationResult.error.format(),
+      },
+    });
+  }
+
+  try {
+    const feed = await fetchFeed(validationResult.data.url);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...feed,
+        entries: feed.entries.map(({ contentHtml, ...entry }) => ({ ...entry, hasContent: Boolean(contentHtml) })),
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const blocked = getFetchBlockedError(error);
+
+    console.error('[API] Failed to read feed:', {
+      error: errorMessage,
+      url: validationResult.data.url,
+    });
+
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: blocked ? blocked.code : 'INVALID_FEED',
+        message: `Failed to read feed: ${errorMessage}`,
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workflow/credentials
+ *
+ * List the signed-in user's stored provider keys (masked)
+ */
+router.get('/credentials', async (req: Request, res: Response) => {
+  const userId = await getSessionUserId(req);
+  if (!userId) {
+    return res.status(401).json(unauthenticatedError('Sign in to manage stored API keys'));
+  }
+
+  try {
+    return res.status(200).json({
+      success: true,
+      data: {
+        credentials: listCredentials(userId),
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error('[API] Failed to list credentials:', {
+      error: errorMessage,
+      userId,
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'CREDENTIALS_LIST_FAILED',
+        message: `Failed to list credentials: ${errorMessage}`,
+      },
+    });
+  }
+});
+
+const storeCredentialSchema = z.object({
+  provider: z.enum(['openrouter']).default('openrouter'),
+  apiKey: z.string().min(1, 'API key is required'),
+});
+
+/**
+ * PUT /api/workflow/credentials
+ *
+ * Store or replace the signed-in user's key for a provider in the encrypted vault
+ */
+router.put('/credentials', async (req: Request, res: Response) => {
+  const userId = await getSessionUserId(req);
+  if (!userId) {
+    return res.status(401).json(unauthenticatedError('Sign in to manage stored API keys'));
+  }
+
+  try {
+    const validationResult = storeCredentialSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+      });
+    }
+
+    const { provider, apiKey } = validationResult.data;
+    const credentialRef = storeCredential(userId, provider, apiKey);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        credentialRef,
+        provider,
+        maskedKey: `…${apiKey.slice(-4)}`,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error('[API] Failed to store credential:', {
+      error: errorMessage,
+      userId,
+      body: redactSecrets(req.body),
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'CREDENTIAL_STORE_FAILED',
+        message: `Failed to store credential: ${errorMessage}`,
+      },
+    });
+  }
+});
+
+/**
+ * DELETE /api/workflow/credentials/:provider
+ *
+ * Remove the signed-in user's key for a provider
+ */
+router.delete('/credentials/:provider', async (req: Request, res: Response) => {
+  const userId = await getSessionUserId(req);
+  if (!userId) {
+    return res.status(401).json(unauthenticatedError('Sign in to manage stored API keys'));
+  }
+
+  const { provider } = req.params;
+  if (!deleteCredential(userId, provider)) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'CREDENTIAL_NOT_FOUND',
+        message: `No ${provider} credential stored`,
+      },
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: { provider },
+  });
+});
+
+/**
+ * 404 body for a template id the agents do not use
+ */
+const unknownTemplateError = (templateId: string) => ({
+  success: false,
+  error: {
+    code: 'PROMPT_TEMPLATE_NOT_FOUND',
+    message: `Unknown prompt template: ${templateId}`,
+  },
+});
+
+/**
+ * GET /api/workflow/prompts
+ *
+ * List the prompt templates with their active and latest versions
+ */
+router.get('/prompts', (req: Request, res: Response) => {
+  try {
+    return res.status(200).json({
+      success: true,
+      data: {
+        templates: listPromptTemplates(),
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[API] Failed to list prompt templates:', { error: errorMessage });
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'PROMPT_TEMPLATES_LIST_FAILED',
+        message: `Failed to list prompt templates: ${errorMessage}`,
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workflow/prompts/:templateId
+ *
+ * All versions of a template and the variables it can use
+ */
+router.get('/prompts/:templateId', (req: Request, res: Response) => {
+  const { templateId } = req.params;
+  if (!isPromptTemplateId(templateId)) {
+    return res.status(404).json(unknownTemplateError(templateId));
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      templateId,
+      variables: DEFAULT_PROMPT_TEMPLATES[templateId].variables,
+      versions: getPromptTemplateVersions(templateId),
+    },
+  });
+});
+
+const createPromptVersionSchema = z.object({
+  system: z.string().min(1, 'System prompt is required'),
+  user: z.string().min(1, 'User prompt is required'),
+  description: z.string().max(500).optional(),
+  activate: z.boolean().optional().default(true),
+});
+
+/**
+ * POST /api/workflow/prompts/:templateId/versions
+ *
+ * Add a new version of a template (active by default)
+ */
+router.post('/prompts/:templateId/versions', async (req: Request, res: Response) => {
+  if (await rejectNonAdmin(req, res)) {
+    return;
+  }
+
+  const { templateId } = req.params;
+  if (!isPromptTemplateId(templateId)) {
+    return res.status(404).json(unknownTemplateError(templateId));
+  }
+
+  const validationResult = createPromptVersionSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request body',
+        details: validationResult.error.format(),
+      },
+    });
+  }
+
+  const { system, user, description, activate } = validationResult.data;
+  const problems = [
+    ...validateTemplate(templateId, system).map(problem => `system: ${problem}`),
+    ...validateTemplate(templateId, user).map(problem => `user: ${problem}`),
+  ];
+  if (problems.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_PROMPT_TEMPLATE',
+        message: 'Template uses unknown variables or malformed sections',
+        details: problems,
+      },
+    });
+  }
+
+  try {
+    const version = createPromptTemplateVersion(templateId, { system, user, description }, activate);
+    return res.status(201).json({
+      success: true,
+      data: version,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[API] Failed to create prompt template version:', {
+      error: errorMessage,
+      templateId,
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'PROMPT_TEMPLATE_CREATE_FAILED',
+        message: `Failed to create prompt template version: ${errorMessage}`,
+      },
+    });
+  }
+});
+
+const activatePromptVersionSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+/**
+ * PUT /api/workflow/prompts/:templateId/active
+ *
+ * Switch the version the agents render, e.g. to roll back an edit
+ */
+router.put('/prompts/:templateId/active', async (req: Request, res: Response) => {
+  if (await rejectNonAdmin(req, res)) {
+    return;
+  }
+
+  const { templateId } = req.params;
+  if (!isPromptTemplateId(templateId)) {
+    return res.status(404).json(unknownTemplateError(templateId));
+  }
+
+  const validationResult = activatePromptVersionSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request body',
+        details: validationResult.error.format(),
+      },
+    });
+  }
+
+  const version = activatePromptTemplateVersion(templateId, validationResult.data.version);
+  if (!version) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'PROMPT_VERSION_NOT_FOUND',
+        message: `${templateId} has no version ${validationResult.data.version}`,
+      },
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: version,
+  });
+});
+
+/**
+ * DELETE /api/workflow/prompts/:templateId/versions/:version
+ *
+ * Remove an old version; the active and latest versions cannot be deleted
+ */
+router.delete('/prompts/:templateId/versions/:version', async (req: Request, res: Response) => {
+  if (await rejectNonAdmin(req, res)) {
+    return;
+  }
+
+  const { templateId } = req.params;
+  if (!isPromptTemplateId(templateId)) {
+    return res.status(404).json(unknownTemplateError(templateId));
+  }
+
+  const version = Number(req.params.version);
+  const result = Number.isInteger(version) ? deletePromptTemplateVersion(templateId, version) : 'not-found';
+
+  if (result === 'not-found') {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'PROMPT_VERSION_NOT_FOUND',
+        message: `${templateId} has no version ${req.params.version}`,
+      },
+    });
+  }
+  if (result === 'protected') {
+    return res.status(409).json({
+      success: false,
+      error: {
+        code: 'PROMPT_VERSION_PROTECTED',
+        message: `${templateId} v${version} is the active or latest version and cannot be deleted`,
+      },
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: { templateId, version },
+  });
+});
+
 export default router;
@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import { eq } from "drizzle-orm";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { db } from "./_core/sqlite";
+import { sqliteCredentials } from "../drizzle/schema";
+import {
+  deleteAnonymousCredential,
+  deleteCredential,
+  findCredentialRef,
+  listCredentials,
+  resolveCredential,
+  storeAnonymousCredential,
+  storeCredential,
+} from "./credentialVault";
+
+const API_KEY = "sk-or-v1-0123456789abcdef0123456789abcdef";
+
+function storedPayload(credentialRef: string): string {
+  return db.select().from(sqliteCredentials).where(eq(sqliteCredentials.credentialId, credentialRef)).get()!.encryptedKey;
+}
+
+function setStoredPayload(credentialRef: string, encryptedKey: string): void {
+  db.update(sqliteCredentials).set({ encryptedKey }).where(eq(sqliteCredentials.credentialId, credentialRef)).run();
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("credentialVault", () => {
+  it("round-trips a key through AES-256-GCM without storing it in plain text", () => {
+    const credentialRef = storeCredential("user-round-trip", "openrouter", API_KEY);
+
+    expect(storedPayload(credentialRef)).toMatch(/^v1:/);
+    expect(storedPayload(credentialRef)).not.toContain(API_KEY);
+    expect(resolveCredential(credentialRef)).toBe(API_KEY);
+    expect(listCredentials("user-round-trip")).toEqual([
+      expect.objectContaining({ credentialRef, provider: "openrouter", maskedKey: "…cdef" }),
+    ]);
+  });
+
+  it("keeps the reference when a key is replaced and scopes keys to their owner", () => {
+    const credentialRef = storeCredential("user-replace", "openrouter", API_KEY);
+    expect(storeCredential("user-replace", "openrouter", "sk-or-v1-replacement-key")).toBe(credentialRef);
+    expect(resolveCredential(credentialRef)).toBe("sk-or-v1-replacement-key");
+
+    expect(findCredentialRef("someone-else", "openrouter")).toBeUndefined();
+    expect(deleteCredential("someone-else", "openrouter")).toBe(false);
+    expect(deleteCredential("user-replace", "openrouter")).toBe(true);
+    expect(resolveCredential(credentialRef)).toBeUndefined();
+  });
+
+  it("deletes anonymous keys by reference but never a signed-in user's key", () => {
+    const anonymousRef = storeAnonymousCredential("openrouter", API_KEY);
+    const userRef = storeCredential("user-anonymous-cleanup", "openrouter", API_KEY);
+
+    expect(resolveCredential(anonymousRef)).toBe(API_KEY);
+    expect(deleteAnonymousCredential(userRef)).toBe(false);
+    expect(deleteAnonymousCredential(anonymousRef)).toBe(true);
+    expect(resolveCredential(anonymousRef)).toBeUndefined();
+    expect(resolveCredential(userRef)).toBe(API_KEY);
+  });
+
+  it("fails the GCM tag check for a payload encrypted under another key", () => {
+    const credentialRef = storeCredential("user-wrong-key", "openrouter", API_KEY);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const otherKey = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", otherKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(API_KEY, "utf8"), cipher.final()]);
+    setStoredPayload(credentialRef, ["v1", iv, cipher.getAuthTag(), ciphertext]
+      .map(part => (typeof part === "string" ? part : part.toString("base64")))
+      .join(":"));
+
+    expect(resolveCredential(credentialRef)).toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining(credentialRef),
+      { error: expect.stringMatching(/unable to authenticate data/) }
+    );
+  });
+
+  it("rejects a tampered ciphertext", () => {
+    const credentialRef = storeCredential("user-tampered", "openrouter", API_KEY);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const [version, iv, authTag, ciphertext] = storedPayload(credentialRef).split(":");
+    const bytes = Buffer.from(ciphertext, "base64");
+    bytes[0] ^= 0xff;
+    setStoredPayload(credentialRef, [version, iv, authTag, bytes.toString("base64")].join(":"));
+
+    expect(resolveCredential(credentialRef)).toBeUndefined();
+  });
+
+  it("never logs the key", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    storeCredential("user-logging", "openrouter", API_KEY);
+
+    expect(JSON.stringify(log.mock.calls)).not.toContain(API_KEY);
+  });
+});
@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import { nanoid } from "nanoid";
+import { and, eq, like } from "drizzle-orm";
+import { db } from "./_core/sqlite";
+import { ENV } from "./_core/env";
+import { sqliteCredentials } from "../drizzle/schema";
+
+/**
+ * Server-side credential store for provider API keys.
+ * Keys are encrypted at rest with AES-256-GCM under CREDENTIAL_VAULT_SECRET and stored per user;
+ * executions only carry the credential reference.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const PAYLOAD_VERSION = "v1";
+const ANONYMOUS_OWNER_PREFIX = "anonymous:";
+
+export interface CredentialSummary {
+  credentialRef: string;
+  provider: string;
+  maskedKey: string;
+  updatedAt: string;
+}
+
+let vaultKey: Buffer | undefined;
+
+/**
+ * Derive the encryption key from the server secret.
+ * Outside production a random per-process key is used when no secret is configured,
+ * so stored credentials do not survive a restart.
+ */
+function getVaultKey(): Buffer {
+  if (vaultKey) {
+    return vaultKey;
+  }
+
+  const secret = ENV.credentialVaultSecret || ENV.cookieSecret;
+  if (secret) {
+    vaultKey = crypto.scryptSync(secret, "ai-blog-composer:credential-vault", 32);
+  } else if (ENV.isProduction) {
+    throw new Error("CREDENTIAL_VAULT_SECRET must be set to store API keys");
+  } else {
+    console.warn("[CredentialVault] CREDENTIAL_VAULT_SECRET is not set; using an ephemeral key");
+    vaultKey = crypto.randomBytes(32);
+  }
+  return vaultKey;
+}
+
+function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getVaultKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [PAYLOAD_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+function decrypt(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(":");
+  if (version !== PAYLOAD_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error("Unsupported credential payload");
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getVaultKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * Store (or replace) an editor's key for a provider and return its credential reference.
+ * Replacing a key keeps the reference, so running executions pick up the new key.
+ */
+export function storeCredential(editorId: string, provider: string, apiKey: string): string {
+  const now = new Date().toISOString();
+  const existingRef = findCredentialRef(editorId, provider);
+  const credentialId = existingRef || nanoid();
+  const encryptedKey = encrypt(apiKey);
+  const keyHint = apiKey.slice(-4);
+
+  db.insert(sqliteCredentials)
+    .values({
+      credentialId,
+      editorId,
+      provider,
+      encryptedKey,
+      keyHint,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: sqliteCredentials.credentialId,
+      set: {
+        encryptedKey,
+        keyHint,
+        updatedAt: now,
+      },
+    })
+    .run();
+
+  console.log(`[CredentialVault] Stored ${provider} credential for editor ${editorId}`);
+  return credentialId;
+}
+
+/**
+ * Store a key sent by an anonymous caller under a one-off owner, so only the returned reference reaches it.
+ * The key lives as long as the execution it was sent for; delete it with deleteAnonymousCredential.
+ */
+export function storeAnonymousCredential(provider: string, apiKey: string): string {
+  return storeCredential(`${ANONYMOUS_OWNER_PREFIX}${nanoid()}`, provider, apiKey);
+}
+
+/**
+ * Delete a key stored by storeAnonymousCredential. Signed-in users' keys are never touched.
+ * Returns false if the reference is unknown or belongs to a signed-in user.
+ */
+export function deleteAnonymousCredential(credentialRef: string): boolean {
+  const result = db
+    .delete(sqliteCredentials)
+    .where(and(
+      eq(sqliteCredentials.credentialId, credentialRef),
+      like(sqliteCredentials.editorId, `${ANONYMOUS_OWNER_PREFIX}%`)
+    ))
+    .run();
+  if (result.changes > 0) {
+    console.log(`[CredentialVault] Deleted anonymous credential ${credentialRef}`);
+  }
+  return result.changes > 0;
+}
+
+/**
+ * Find the credential reference for an editor's provider key
+ */
+export function findCredentialRef(editorId: string, provider: string): string | undefined {
+  const row = db
+    .select({ credentialId: sqliteCredentials.credentialId })
+    .from(sqliteCredentials)
+    .where(and(eq(sqliteCredentials.editorId, editorId), eq(sqliteCredentials.provider, provider)))
+    .get();
+  return row?.credentialId;
+}
+
+/**
+ * Decrypt the key behind a credential reference.
+ * Returns undefined if the reference is unknown or can no longer be decrypted (e.g. the secret changed).
+ */
+export function resolveCredential(credentialRef: string): string | undefined {
+  const row = db
+    .select()
+    .from(sqliteCredentials)
+    .where(eq(sqliteCredentials.credentialId, credentialRef))
+    .get();
+  if (!row) {
+    return undefined;
+  }
+
+  try {
+    return decrypt(row.encryptedKey);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[CredentialVault] Failed to decrypt credential ${credentialRef}:`, {
+      error: errorMessage,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * List an editor's stored credentials with masked keys
+ */
+export function listCredentials(editorId: string): CredentialSummary[] {
+  return db
+    .select()
+    .from(sqliteCredentials)
+    .where(eq(sqliteCredentials.editorId, editorId))
+    .all()
+    .map(row => ({
+      credentialRef: row.credentialId,
+      provider: row.provider,
+      maskedKey: `…${row.keyHint}`,
+      updatedAt: row.updatedAt,
+    }));
+}
+
+/**
+ * Delete an editor's key for a provider. Returns false if none was stored.
+ */
+export function deleteCredential(editorId: string, provider: string): boolean {
+  const result = db
+    .delete(sqliteCredentials)
+    .where(and(eq(sqliteCredentials.editorId, editorId), eq(sqliteCredentials.provider, provider)))
+    .run();
+  return result.changes > 0;
+}
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseMarkdown } from './agents/documentParsers';
+import { getInspirationUpload, saveInspirationUpload } from './inspirationUploads';
+
+describe('inspirationUploads', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stores the parsed metadata and reads it back by id', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const metadata = parseMarkdown('# Starter notes\n\nEqual parts flour and water.', 'starter.md');
+
+    const saved = saveInspirationUpload({ editorId: 'editor-1', fileName: 'starter.md', fileType: 'markdown', size: 44, metadata });
+
+    expect(getInspirationUpload(saved.uploadId)).toEqual(saved);
+    expect(getInspirationUpload(saved.uploadId)?.metadata.title).toBe('Starter notes');
+  });
+
+  it("treats another user's upload as missing", () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const metadata = parseMarkdown('# Starter notes', 'starter.md');
+    const saved = saveInspirationUpload({ editorId: 'editor-1', fileName: 'starter.md', fileType: 'markdown', size: 15, metadata });
+
+    expect(getInspirationUpload(saved.uploadId, 'editor-1')).toEqual(saved);
+    expect(getInspirationUpload(saved.uploadId, 'editor-2')).toBeUndefined();
+  });
+
+  it('returns undefined for an unknown upload', () => {
+    expect(getInspirationUpload('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { nanoid } from "nanoid";
+import { eq } from "drizzle-orm";
+import { db } from "./_core/sqlite";
+import { sqliteInspirationUploads } from "../drizzle/schema";
+import type { ExtractedMetadata } from "./agents/metadataExtractor";
+import type { UploadFileType } from "./agents/documentParsers";
+
+/**
+ * SQLite store for files uploaded as inspiration
+ * Files are parsed when uploaded; executions refer to the upload by id and read the parsed metadata.
+ */
+
+export interface InspirationUpload {
+  uploadId: string;
+  editorId: string; // OpenID of the signed-in user who uploaded the file
+  fileName: string;
+  fileType: UploadFileType;
+  size: number; // Bytes
+  metadata: ExtractedMetadata;
+  createdAt: Date;
+}
+
+export function saveInspirationUpload(
+  upload: Omit<InspirationUpload, "uploadId" | "createdAt">
+): InspirationUpload {
+  const saved: InspirationUpload = { ...upload, uploadId: nanoid(), createdAt: new Date() };
+
+  db.insert(sqliteInspirationUploads)
+    .values({
+      uploadId: saved.uploadId,
+      editorId: saved.editorId,
+      fileName: saved.fileName,
+      fileType: saved.fileType,
+      size: saved.size,
+      metadata: JSON.stringify(saved.metadata),
+      createdAt: saved.createdAt.toISOString(),
+    })
+    .run();
+
+  console.log(`[InspirationUploads] Stored ${saved.fileType} upload ${saved.uploadId} (${saved.fileName})`);
+  return saved;
+}
+
+/**
+ * Read an upload by id
+ * When ownerId is given, another user's upload is treated as missing.
+ */
+export function getInspirationUpload(uploadId: string, ownerId?: string): InspirationUpload | undefined {
+  const row = db
+    .select()
+    .from(sqliteInspirationUploads)
+    .where(eq(sqliteInspirationUploads.uploadId, uploadId))
+    .get();
+  if (!row || (ownerId !== undefined && row.editorId !== ownerId)) {
+    return undefined;
+  }
+
+  return {
+    uploadId: row.uploadId,
+    editorId: row.editorId,
+    fileName: row.fileName,
+    fileType: row.fileType as UploadFileType,
+    size: row.size,
+    metadata: JSON.parse(row.metadata),
+    createdAt: new Date(row.createdAt),
+  };
+}
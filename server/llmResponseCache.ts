@@ -0,0 +1,159 @@
+import crypto from "crypto";
+import { and, asc, count, eq, inArray, lt } from "drizzle-orm";
+import { db } from "./_core/sqlite";
+import { sqliteLlmResponseCache } from "../drizzle/schema";
+import type { LLMMessage, LLMUsage, ResponseFormat } from "./agents/llmClient";
+
+/**
+ * SQLite store for LLM responses, so replays and resumed executions do not pay for identical calls again.
+ * Caching is opt-in per execution (default: LLM_CACHE_ENABLED).
+ */
+
+export interface ResponseCacheOptions {
+  ttlMs: number; // Entries older than this are treated as missing
+  maxEntries: number; // Least recently used entries are evicted past this count
+}
+
+export const DEFAULT_RESPONSE_CACHE_OPTIONS: ResponseCacheOptions = {
+  ttlMs: Number(process.env.LLM_CACHE_TTL_MS) || 7 * 24 * 60 * 60 * 1000,
+  maxEntries: Number(process.env.LLM_CACHE_MAX_ENTRIES) || 1000,
+};
+
+/**
+ * Whether executions cache responses when the request does not say (LLM_CACHE_ENABLED)
+ */
+export function isResponseCacheEnabledByDefault(): boolean {
+  return process.env.LLM_CACHE_ENABLED === "true";
+}
+
+/**
+ * Everything that determines a response
+ */
+export interface CacheKeyInput {
+  provider: string;
+  model: string;
+  temperature?: number;
+  messages: LLMMessage[];
+  responseFormat?: ResponseFormat;
+}
+
+export interface CachedResponse {
+  content: string;
+  usage?: LLMUsage;
+}
+
+export interface PurgeFilter {
+  provider?: string;
+  model?: string;
+  olderThan?: Date; // Only entries created before this time
+}
+
+export function computeCacheKey(input: CacheKeyInput): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([
+      input.provider,
+      input.model,
+      input.temperature ?? null,
+      input.responseFormat ?? null,
+      input.messages.map(message => [message.role, message.content]),
+    ]))
+    .digest("hex");
+}
+
+/**
+ * Look up a cached response; expired entries are deleted and reported as missing
+ */
+export function getCachedResponse(
+  cacheKey: string,
+  options: ResponseCacheOptions = DEFAULT_RESPONSE_CACHE_OPTIONS
+): CachedResponse | undefined {
+  const row = db
+    .select()
+    .from(sqliteLlmResponseCache)
+    .where(eq(sqliteLlmResponseCache.cacheKey, cacheKey))
+    .get();
+  if (!row) {
+    return undefined;
+  }
+
+  if (Date.now() - new Date(row.createdAt).getTime() > options.ttlMs) {
+    db.delete(sqliteLlmResponseCache).where(eq(sqliteLlmResponseCache.cacheKey, cacheKey)).run();
+    return undefined;
+  }
+
+  db.update(sqliteLlmResponseCache)
+    .set({ hits: row.hits + 1, lastUsedAt: new Date().toISOString() })
+    .where(eq(sqliteLlmResponseCache.cacheKey, cacheKey))
+    .run();
+
+  let usage: LLMUsage | undefined;
+  try {
+    usage = row.usage ? JSON.parse(row.usage) : undefined;
+  } catch {
+    usage = undefined;
+  }
+  return { content: row.content, usage };
+}
+
+/**
+ * Store a response and evict the least recently used entries beyond maxEntries
+ */
+export function storeCachedResponse(
+  cacheKey: string,
+  key: Pick<CacheKeyInput, "provider" | "model">,
+  response: CachedResponse,
+  options: ResponseCacheOptions = DEFAULT_RESPONSE_CACHE_OPTIONS
+): void {
+  const now = new Date().toISOString();
+  const usage = response.usage ? JSON.stringify(response.usage) : null;
+
+  db.insert(sqliteLlmResponseCache)
+    .values({
+      cacheKey,
+      provider: key.provider,
+      model: key.model,
+      content: response.content,
+      usage,
+      hits: 0,
+      createdAt: now,
+      lastUsedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: sqliteLlmResponseCache.cacheKey,
+      set: { content: response.content, usage, createdAt: now, lastUsedAt: now },
+    })
+    .run();
+
+  const { entries } = db.select({ entries: count() }).from(sqliteLlmResponseCache).get() || { entries: 0 };
+  if (entries > options.maxEntries) {
+    const evicted = db
+      .select({ cacheKey: sqliteLlmResponseCache.cacheKey })
+      .from(sqliteLlmResponseCache)
+      .orderBy(asc(sqliteLlmResponseCache.lastUsedAt))
+      .limit(entries - options.maxEntries)
+      .all()
+      .map(row => row.cacheKey);
+    db.delete(sqliteLlmResponseCache).where(inArray(sqliteLlmResponseCache.cacheKey, evicted)).run();
+  }
+}
+
+/**
+ * Delete cached responses matching every given filter (all entries when no filter is given)
+ * Returns the number of entries removed
+ */
+export function purgeCachedResponses(filter: PurgeFilter = {}): number {
+  const conditions = [
+    filter.provider ? eq(sqliteLlmResponseCache.provider, filter.provider) : undefined,
+    filter.model ? eq(sqliteLlmResponseCache.model, filter.model) : undefined,
+    filter.olderThan ? lt(sqliteLlmResponseCache.createdAt, filter.olderThan.toISOString()) : undefined,
+  ].filter(Boolean);
+
+  const result = db
+    .delete(sqliteLlmResponseCache)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .run();
+
+  console.log(`[ResponseCache] Purged ${result.changes} cached response(s)`, filter);
+  return result.changes;
+}
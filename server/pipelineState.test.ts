@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearSuspensionState,
+  createPipelineExecution,
+  getPipelineExecution,
+  saveSuspensionState,
+  updatePipelineExecution,
+} from './pipelineState';
+
+// The server entry point starts listening on import; only its broadcast is used here
+vi.mock('./_core/index', () => ({ broadcastToClients: vi.fn() }));
+
+describe('pipelineState', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('logs only the names of the updated fields', async () => {
+    const { executionId } = await createPipelineExecution({ inspirationUrl: 'https://example.com', editorId: 'editor-1' });
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await updatePipelineExecution(executionId, { status: 'running', context: { html: '<p>Secret draft</p>' } });
+
+    const output = log.mock.calls.map(call => call.join(' ')).join('\n');
+    expect(output).toContain(`Updated execution ${executionId}: status, context`);
+    expect(output).not.toContain('Secret draft');
+  });
+
+  it('keeps the resume data of each gate in the context', async () => {
+    const { executionId } = await createPipelineExecution({ inspirationUrl: 'https://example.com', editorId: 'editor-1' });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await saveSuspensionState(executionId, 'Concept approval', 'gate-concept-approval', {});
+    await clearSuspensionState(executionId, { approved: true });
+    await saveSuspensionState(executionId, 'Draft approval', 'gate-draft-approval', {});
+    const resumed = await clearSuspensionState(executionId, { approved: false, comments: 'Too close to the source' });
+
+    expect(resumed.status).toBe('running');
+    expect(resumed.suspension).toBeNull();
+    const { context } = (await getPipelineExecution(executionId))!;
+    expect(context.resumeData).toMatchObject({
+      'gate-concept-approval': { approved: true },
+      'gate-draft-approval': { approved: false, comments: 'Too close to the source' },
+    });
+    expect(context.resumeData?.['gate-draft-approval'].resumedAt).toEqual(expect.any(String));
+  });
+});
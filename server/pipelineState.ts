@@ -1,5 +1,18 @@
 import { nanoid } from "nanoid";
+import { eq } from "drizzle-orm";
 import { broadcastToClients } from "./_core/index";
+import { db } from "./_core/sqlite";
+import { redactSecrets } from "./_core/redact";
+import {
+  sqlitePipelineExecutions,
+  type SqlitePipelineExecution,
+  type InsertSqlitePipelineExecution,
+} from "../drizzle/schema";
+import type { PipelineDefinition } from "./agents/pipelineDefinition";
+import type { LLMProvider } from "./agents/llmClient";
+import type { PageContent } from "./agents/contentExtractor";
+import type { PageSource } from "./agents/metadataExtractor";
+import type { InspirationSource, InspirationSourceType } from "./agents/inspirationSources";
 
 /**
  * Helper function to safely parse JSON or return the value if it's already an object
@@ -15,7 +28,7 @@ const safeJsonParse = (value: any) => {
   }
 };
 
-// In-memory store for pipeline executions
+// Read cache for pipeline executions; SQLite is the source of truth
 const pipelineStore = new Map<string, any>();
 
 // Event emitter for state changes
@@ -34,13 +47,15 @@ export interface SuspensionData {
 export interface PipelineMetrics {
   startedAt: string;
   completedAt?: string;
-  totalCost?: number;
+  totalCost?: number; // USD, accumulated across all LLM calls
   tokenUsage?: {
     summarizer?: number;
     outline?: number;
     draft?: number;
     reviewer?: number;
   };
+  promptTokens?: number;
+  completionTokens?: number;
   auditLog?: Array<{
     timestamp: string;
     event: string;
@@ -59,9 +74,17 @@ export interface PipelineContext {
       h2: string[];
       h3: string[];
     };
+    content?: PageContent; // Main content and publishing metadata
     extractedAt: string;
   };
+  sources?: Array<{
+    url: string; // Page URL, or the source reference for text and uploads (see inspirationSourceRef)
+    type?: InspirationSourceType; // Omitted for URLs
+    metadata: NonNullable<PipelineContext['metadata']>;
+  }>; // Every extracted inspiration source in input order; metadata above is the first one
   concepts?: string[];
+  conceptSummary?: string;
+  conceptSources?: Record<string, string[]>; // Concept → URLs of the inspiration sources that mention it
   outline?: {
     title: string;
     introduction: string[];
@@ -78,8 +101,33 @@ export interface PipelineContext {
     wordCount: number;
   };
   reviewScore?: number;
+  review?: {
+    score: number;
+    comments: string;
+    strengths: string[];
+    improvements: string[];
+  };
   distinctivenessScore?: number;
+  similarity?: {
+    distinctivenessScore: number;
+    similarityDetails: {
+      titleSimilarity: number;
+      contentSimilarity: number;
+      shingleOverlap: number;
+    };
+    provider: string;
+    sources?: Array<{
+      url: string;
+      distinctivenessScore: number;
+      similarityDetails: {
+        titleSimilarity: number;
+        contentSimilarity: number;
+        shingleOverlap: number;
+      };
+    }>; // Per-source results when the brief cites several pages; the scores above are the least distinct source's
+  };
   revisionCount?: number;
+  escalated?: boolean; // Draft reached the gate still below the revision thresholds
   html?: string;
   resumeData?: Record<string, any>; // Add resumeData field
 }
@@ -95,8 +143,15 @@ export interface PipelineExecution {
   inspirationUrl: string;
   editorId: string;
   model?: string; // Add model information
-  provider?: 'ollama' | 'openrouter'; // Add provider information
-  apiKey?: string; // Add API key information (for OpenRouter)
+  provider?: LLMProvider; // Add provider information
+  credentialRef?: string; // Credential vault reference for the provider API key (never the key itself)
+  pipeline?: PipelineDefinition; // Resolved pipeline definition, fixed for the lifetime of the execution
+  stepModels?: StepModels; // Per-slot model/provider overrides, reused on resume
+  fallbacks?: StepModelConfig[]; // Providers/models tried in order when a client fails, reused on resume
+  cacheResponses?: boolean; // Whether LLM responses are served from the response cache, reused on resume
+  inspirationSource?: PageSource; // Pasted HTML or local HTML file extracted instead of fetching the URL
+  inspirationUrls?: string[]; // Every inspiration URL in order when the brief cites several; inspirationUrl is the first
+  inspirationSources?: InspirationSource[]; // Text, uploaded file and feed sources; inspirationUrl is the first one's reference
   status: PipelineStatus;
   context: PipelineContext;
   suspension?: SuspensionData;
@@ -110,30 +165,10 @@ export const pipelineState = {
   store: pipelineStore,
   
   /**
-   * Create a new pipeline execution in memory.
+   * Create a new pipeline execution.
    */
-  async createPipelineExecution(input: { inspirationUrl: string; editorId: string; model?: string; provider?: 'ollama' | 'openrouter'; apiKey?: string }): Promise<PipelineExecution> {
-    const now = new Date().toISOString();
-    const execution: PipelineExecution = {
-      executionId: nanoid(), // Generate unique ID for execution
-      inspirationUrl: input.inspirationUrl,
-      editorId: input.editorId,
-      model: input.model, // Store model information
-      provider: input.provider, // Store provider information
-      apiKey: input.apiKey, // Store API key information (for OpenRouter)
-      status: 'pending',
-      context: {},
-      metrics: {
-        startedAt: now,
-        auditLog: []
-      },
-      createdAt: now,
-      updatedAt: now
-    };
-    
-    pipelineStore.set(execution.executionId, execution);
-    this.notifyStateChange(execution.executionId, execution);
-    return execution;
+  async createPipelineExecution(input: PipelineInput): Promise<PipelineExecution> {
+    return createPipelineExecution(input);
   },
   
   /**
@@ -143,27 +178,14 @@ export const pipelineState = {
     executionId: string,
     updates: Partial<Omit<PipelineExecution, 'executionId' | 'createdAt'>>
   ): Promise<PipelineExecution> {
-    const execution = pipelineStore.get(executionId);
-    if (!execution) {
-      throw new Error(`Execution ${executionId} not found`);
-    }
-    
-    const updatedExecution = {
-      ...execution,
-      ...updates,
-      updatedAt: new Date().toISOString()
-    };
-    
-    pipelineStore.set(executionId, updatedExecution);
-    this.notifyStateChange(executionId, updatedExecution);
-    return updatedExecution;
+    return updatePipelineExecution(executionId, updates);
   },
   
   /**
    * Get a pipeline execution by ID.
    */
   async getPipelineExecution(executionId: string): Promise<PipelineExecution | undefined> {
-    return pipelineStore.get(executionId);
+    return getPipelineExecution(executionId);
   },
   
   /**
@@ -175,17 +197,7 @@ export const pipelineState = {
     stepId: string,
     data: Record<string, any>
   ): Promise<PipelineExecution> {
-    const suspension: SuspensionData = {
-      suspendedAt: new Date().toISOString(),
-      reason,
-      stepId,
-      data
-    };
-    
-    return this.updatePipelineExecution(executionId, {
-      status: 'suspended',
-      suspension
-    });
+    return saveSuspensionState(executionId, reason, stepId, data);
   },
   
   /**
@@ -195,32 +207,7 @@ export const pipelineState = {
     executionId: string,
     resumeData: Record<string, any> = {}
   ): Promise<PipelineExecution> {
-    const execution = await this.getPipelineExecution(executionId);
-    if (!execution) {
-      throw new Error(`Execution ${executionId} not found`);
-    }
-    
-    if (execution.status !== 'suspended') {
-      throw new Error(`Execution ${executionId} is not suspended`);
-    }
-    
-    // Add resume data to context
-    const context = {
-      ...execution.context,
-      resumeData: {
-        ...execution.context.resumeData,
-        [execution.suspension?.stepId || 'unknown']: {
-          resumedAt: new Date().toISOString(),
-          ...resumeData
-        }
-      }
-    };
-    
-    return this.updatePipelineExecution(executionId, {
-      status: 'running',
-      context,
-      suspension: undefined
-    });
+    return clearSuspensionState(executionId, resumeData);
   },
   
   /**
@@ -232,22 +219,14 @@ export const pipelineState = {
     stepId: string,
     data: Record<string, any> = {}
   ): Promise<void> {
-    const execution = await this.getPipelineExecution(executionId);
-    if (!execution) return;
-    
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      event,
-      stepId,
-      data
-    };
-    
-    const metrics = {
-      ...execution.metrics,
-      auditLog: [...(execution.metrics?.auditLog || []), logEntry]
-    };
-    
-    await this.updatePipelineExecution(executionId, { metrics });
+    return addAuditLogEntry(executionId, event, stepId, data);
+  },
+
+  /**
+   * Add LLM token usage and cost to a pipeline execution's metrics.
+   */
+  async recordTokenUsage(executionId: string, usage: TokenUsageUpdate): Promise<void> {
+    return recordTokenUsage(executionId, usage);
   },
   
   // Event handling
@@ -266,6 +245,8 @@ export const pipelineState = {
    * Notify subscribers of a state change
    */
   notifyStateChange(executionId: string, state: any) {
+    // Handlers and clients only ever see redacted state
+    state = redactSecrets(state);
     stateChangeHandlers.forEach(handler => handler(executionId, state));
     
     // Broadcast state change to WebSocket clients
@@ -287,16 +268,49 @@ export const pipelineState = {
       executionId,
       state: structuredState
     });
+  },
+
+  /**
+   * Relay a piece of streamed LLM output to WebSocket clients
+   * Sent as 'llmStream' messages alongside 'stateUpdate'; the text is not persisted
+   */
+  broadcastLLMStream(executionId: string, slot: ModelSlot, event: 'start' | 'token' | 'end', text?: string) {
+    broadcastToClients({
+      type: 'llmStream',
+      executionId,
+      slot,
+      event,
+      text,
+    });
   }
 };
 
+/**
+ * Agent slots that can run on their own model within one execution
+ */
+export type ModelSlot = 'summarizer' | 'outline' | 'draft' | 'reviewer';
+
+export interface StepModelConfig {
+  model: string;
+  provider?: LLMProvider; // Defaults to the execution provider
+}
+
+export type StepModels = Partial<Record<ModelSlot, StepModelConfig>>;
+
 // Input data for creating a new pipeline execution
 export interface PipelineInput {
   inspirationUrl: string;
   editorId: string;
   model?: string; // Add model information
-  provider?: 'ollama' | 'openrouter'; // Add provider information
-  apiKey?: string; // Add API key information (for OpenRouter)
+  provider?: LLMProvider; // Add provider information
+  credentialRef?: string; // Credential vault reference for the provider API key
+  pipeline?: PipelineDefinition; // Resolved pipeline definition the orchestrator interprets
+  stepModels?: StepModels; // Per-slot model/provider overrides
+  fallbacks?: StepModelConfig[]; // Fallback chain behind every client
+  cacheResponses?: boolean; // Serve repeated LLM requests from the response cache
+  inspirationSource?: PageSource; // Pasted HTML or local HTML file to extract before fetching the URL
+  inspirationUrls?: string[]; // Every inspiration URL in order; inspirationUrl is the first
+  inspirationSources?: InspirationSource[]; // Sources of any kind in order, when not all of them are plain URLs
 }
 
 // Workflow execution context containing intermediate results
@@ -309,8 +323,14 @@ export interface PipelineContext {
       h2: string[];
       h3: string[];
     };
+    content?: PageContent; // Main content and publishing metadata
     extractedAt: string;
   };
+  sources?: Array<{
+    url: string; // Page URL, or the source reference for text and uploads (see inspirationSourceRef)
+    type?: InspirationSourceType; // Omitted for URLs
+    metadata: NonNullable<PipelineContext['metadata']>;
+  }>; // Every extracted inspiration source in input order; metadata above is the first one
   concepts?: string[];
   outline?: {
     title: string;
@@ -350,13 +370,15 @@ export interface SuspensionData {
 export interface PipelineMetrics {
   startedAt: string;
   completedAt?: string;
-  totalCost?: number;
+  totalCost?: number; // USD, accumulated across all LLM calls
   tokenUsage?: {
     summarizer?: number;
     outline?: number;
     draft?: number;
     reviewer?: number;
   };
+  promptTokens?: number;
+  completionTokens?: number;
   auditLog?: Array<{
     timestamp: string;
     event: string;
@@ -366,11 +388,111 @@ export interface PipelineMetrics {
 }
 
 /**
- * Pipeline execution status type.
+ * Convert an execution into a row for the SQLite pipelineExecutions table.
+ */
+function toRow(execution: PipelineExecution): InsertSqlitePipelineExecution {
+  return {
+    executionId: execution.executionId,
+    status: execution.status,
+    input: JSON.stringify({
+      inspirationUrl: execution.inspirationUrl,
+      editorId: execution.editorId,
+      model: execution.model,
+      provider: execution.provider,
+      credentialRef: execution.credentialRef,
+      pipeline: execution.pipeline,
+      stepModels: execution.stepModels,
+      fallbacks: execution.fallbacks,
+      cacheResponses: execution.cacheResponses,
+      inspirationSource: execution.inspirationSource,
+      inspirationUrls: execution.inspirationUrls,
+      inspirationSources: execution.inspirationSources,
+    }),
+    context: JSON.stringify(safeJsonParse(execution.context) || {}),
+    suspension: execution.suspension ? JSON.stringify(safeJsonParse(execution.suspension)) : null,
+    metrics: JSON.stringify(safeJsonParse(execution.metrics) || {}),
+    createdAt: execution.createdAt,
+    updatedAt: execution.updatedAt,
+  };
+}
+
+/**
+ * Convert a SQLite row back into a pipeline execution.
  */
+function fromRow(row: SqlitePipelineExecution): PipelineExecution {
+  const input = safeJsonParse(row.input) || {};
+  return {
+    executionId: row.executionId,
+    inspirationUrl: input.inspirationUrl,
+    editorId: input.editorId,
+    model: input.model,
+    provider: input.provider,
+    credentialRef: input.credentialRef,
+    pipeline: input.pipeline,
+    stepModels: input.stepModels,
+    fallbacks: input.fallbacks,
+    cacheResponses: input.cacheResponses,
+    inspirationSource: input.inspirationSource,
+    inspirationUrls: input.inspirationUrls,
+    inspirationSources: input.inspirationSources,
+    status: row.status,
+    context: safeJsonParse(row.context) || {},
+    suspension: safeJsonParse(row.suspension) || undefined,
+    metrics: safeJsonParse(row.metrics) || { startedAt: row.createdAt },
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
 
 /**
- * Create a new pipeline execution in memory.
+ * Write an execution through to SQLite and refresh the read cache.
+ */
+function persistExecution(execution: PipelineExecution): void {
+  const row = toRow(execution);
+  db.insert(sqlitePipelineExecutions)
+    .values(row)
+    .onConflictDoUpdate({
+      target: sqlitePipelineExecutions.executionId,
+      set: {
+        status: row.status,
+        input: row.input,
+        context: row.context,
+        suspension: row.suspension,
+        metrics: row.metrics,
+        updatedAt: row.updatedAt,
+      },
+    })
+    .run();
+
+  pipelineStore.set(execution.executionId, execution);
+}
+
+/**
+ * Load an execution from the read cache, falling back to SQLite
+ * (e.g. for executions suspended before a server restart).
+ */
+function loadExecution(executionId: string): PipelineExecution | undefined {
+  const cached = pipelineStore.get(executionId);
+  if (cached) {
+    return cached;
+  }
+
+  const row = db
+    .select()
+    .from(sqlitePipelineExecutions)
+    .where(eq(sqlitePipelineExecutions.executionId, executionId))
+    .get();
+  if (!row) {
+    return undefined;
+  }
+
+  const execution = fromRow(row);
+  pipelineStore.set(executionId, execution);
+  return execution;
+}
+
+/**
+ * Create a new pipeline execution and persist it to SQLite.
  */
 export async function createPipelineExecution(input: PipelineInput): Promise<PipelineExecution> {
   const executionId = nanoid();
@@ -382,7 +504,14 @@ export async function createPipelineExecution(input: PipelineInput): Promise<Pip
     editorId: input.editorId,
     model: input.model, // Store model information
     provider: input.provider, // Store provider information
-    apiKey: input.apiKey, // Store API key information (for OpenRouter)
+    credentialRef: input.credentialRef, // Vault reference only; the API key is never stored on the execution
+    pipeline: input.pipeline,
+    stepModels: input.stepModels,
+    fallbacks: input.fallbacks,
+    cacheResponses: input.cacheResponses,
+    inspirationSource: input.inspirationSource,
+    inspirationUrls: input.inspirationUrls,
+    inspirationSources: input.inspirationSources,
     status: 'pending',
     context: {},
     metrics: {
@@ -392,7 +521,11 @@ export async function createPipelineExecution(input: PipelineInput): Promise<Pip
           timestamp: now,
           event: 'pipeline_created',
           stepId: 'start',
-          data: { url: input.inspirationUrl }
+          data: {
+            url: input.inspirationUrl,
+            ...(input.inspirationUrls ? { urls: input.inspirationUrls } : {}),
+            ...(input.inspirationSources ? { sourceTypes: input.inspirationSources.map(source => source.type) } : {}),
+          }
         }
       ]
     },
@@ -400,24 +533,24 @@ export async function createPipelineExecution(input: PipelineInput): Promise<Pip
     updatedAt: now
   };
 
-  pipelineStore.set(executionId, { ...newExecution });
-  console.log(`[In-Memory DB] Created execution ${executionId} for URL: ${input.inspirationUrl}`);
+  persistExecution({ ...newExecution });
+  console.log(`[PipelineState] Created execution ${executionId} for URL: ${input.inspirationUrl}`);
   return newExecution;
 }
 
 /**
- * Update an existing pipeline execution state in memory.
+ * Update an existing pipeline execution state and persist it to SQLite.
  */
 export async function updatePipelineExecution(
   executionId: string,
   updates: {
-    status?: string;
+    status?: PipelineStatus;
     context?: any;
     suspension?: any;
     metrics?: any;
   }
 ): Promise<PipelineExecution> {
-  const execution = pipelineStore.get(executionId);
+  const execution = loadExecution(executionId);
   if (!execution) {
     throw new Error(`Pipeline execution ${executionId} not found`);
   }
@@ -444,8 +577,9 @@ export async function updatePipelineExecution(
     }
   };
 
-  pipelineStore.set(executionId, updatedExecution);
-  console.log(`[In-Memory DB] Updated execution ${executionId} with`, updates);
+  persistExecution(updatedExecution);
+  // Only the changed fields are logged; values can carry drafts and source content
+  console.log(`[PipelineState] Updated execution ${executionId}: ${Object.keys(updates).join(', ')}`);
   
   // Notify subscribers of state change
   pipelineState.notifyStateChange(executionId, updatedExecution);
@@ -454,12 +588,12 @@ export async function updatePipelineExecution(
 }
 
 /**
- * Retrieve a pipeline execution by its execution ID from memory.
+ * Retrieve a pipeline execution by its execution ID (read cache first, then SQLite).
  */
 export async function getPipelineExecution(executionId: string): Promise<PipelineExecution | undefined> {
-  const execution = pipelineStore.get(executionId);
+  const execution = loadExecution(executionId);
   if (!execution) {
-    console.log(`[In-Memory DB] Execution ${executionId} not found`);
+    console.log(`[PipelineState] Execution ${executionId} not found`);
     return undefined;
   }
   return { ...execution };
@@ -508,6 +642,49 @@ export async function addAuditLogEntry(
   });
 }
 
+/**
+ * Token usage to add to an execution's metrics.
+ */
+export interface TokenUsageUpdate {
+  tokens: Partial<Record<ModelSlot, number>>;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+/**
+ * Add LLM token usage and cost to a pipeline execution's metrics.
+ * Per-slot token counts, prompt/completion totals and totalCost are accumulated.
+ *
+ * @param executionId - The unique execution identifier
+ * @param usage - Usage of the calls made since the last update
+ * @throws Error if database is not available or execution not found
+ */
+export async function recordTokenUsage(executionId: string, usage: TokenUsageUpdate): Promise<void> {
+  const execution = await getPipelineExecution(executionId);
+  if (!execution) {
+    throw new Error(`Execution not found: ${executionId}`);
+  }
+
+  const existingMetrics: PipelineMetrics = execution.metrics && typeof execution.metrics === 'string'
+    ? JSON.parse(execution.metrics)
+    : execution.metrics || {};
+  const tokenUsage = { ...existingMetrics.tokenUsage };
+  (Object.keys(usage.tokens) as ModelSlot[]).forEach(slot => {
+    tokenUsage[slot] = (tokenUsage[slot] || 0) + (usage.tokens[slot] || 0);
+  });
+
+  await updatePipelineExecution(executionId, {
+    metrics: {
+      ...existingMetrics,
+      tokenUsage,
+      promptTokens: (existingMetrics.promptTokens || 0) + usage.promptTokens,
+      completionTokens: (existingMetrics.completionTokens || 0) + usage.completionTokens,
+      totalCost: (existingMetrics.totalCost || 0) + usage.cost,
+    },
+  });
+}
+
 /**
  * Save suspension state for a pipeline execution.
  * Updates the execution status to 'suspended' and stores suspension metadata.
@@ -582,7 +759,8 @@ export async function loadSuspensionState(executionId: string): Promise<Suspensi
 
 /**
  * Clear suspension state and resume a pipeline execution.
- * Updates the execution status back to 'running' and removes suspension metadata.
+ * Updates the execution status back to 'running', removes suspension metadata and records
+ * the resume data under `context.resumeData[stepId]`.
  * 
  * @param executionId - The unique execution identifier
  * @param resumeData - Data provided when resuming (e.g., approval decision, comments)
@@ -622,9 +800,21 @@ export async function clearSuspensionState(
       : 0,
   });
 
+  // Keep the resume data in the context, keyed by the gate it resumed
+  const resumeHistory = execution.context?.resumeData || {};
+
   // Update execution to clear suspension and resume
   return await updatePipelineExecution(executionId, {
     status: "running",
     suspension: null,
+    context: {
+      resumeData: {
+        ...resumeHistory,
+        [suspensionData?.stepId || "unknown"]: {
+          resumedAt: new Date().toISOString(),
+          ...resumeData,
+        },
+      },
+    },
   });
 }
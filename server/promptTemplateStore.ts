@@ -0,0 +1,221 @@
+import { and, asc, desc, eq } from "drizzle-orm";
+import { db } from "./_core/sqlite";
+import { sqlitePromptTemplates, SqlitePromptTemplate } from "../drizzle/schema";
+import { DEFAULT_PROMPT_TEMPLATES, PromptTemplateId, PROMPT_TEMPLATE_IDS } from "./agents/defaultPrompts";
+
+/**
+ * Versioned store for the agents' prompt templates.
+ * Each template starts as version 1, seeded from the built-in prompts the first time it is read;
+ * edits add versions, and the active version is the one the agents render.
+ */
+
+export interface PromptTemplateVersion {
+  templateId: string;
+  version: number;
+  description: string;
+  system: string;
+  user: string;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface PromptTemplateSummary {
+  templateId: string;
+  activeVersion: number;
+  latestVersion: number;
+  description: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateContent {
+  system: string;
+  user: string;
+  description?: string; // Defaults to the previous version's description
+}
+
+export function isPromptTemplateId(templateId: string): templateId is PromptTemplateId {
+  return PROMPT_TEMPLATE_IDS.includes(templateId as PromptTemplateId);
+}
+
+function toVersion(row: SqlitePromptTemplate): PromptTemplateVersion {
+  return {
+    templateId: row.templateId,
+    version: row.version,
+    description: row.description,
+    system: row.system,
+    user: row.user,
+    active: row.active,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Insert the built-in prompt as the active version 1 when a template has no versions yet
+ */
+function ensureSeeded(templateId: PromptTemplateId): void {
+  const existing = db
+    .select({ version: sqlitePromptTemplates.version })
+    .from(sqlitePromptTemplates)
+    .where(eq(sqlitePromptTemplates.templateId, templateId))
+    .get();
+  if (existing) {
+    return;
+  }
+
+  const defaults = DEFAULT_PROMPT_TEMPLATES[templateId];
+  db.insert(sqlitePromptTemplates)
+    .values({
+      templateId,
+      version: 1,
+      description: defaults.description,
+      system: defaults.system,
+      user: defaults.user,
+      active: true,
+      createdAt: new Date().toISOString(),
+    })
+    .onConflictDoNothing()
+    .run();
+}
+
+/**
+ * The version of a template the agents should render
+ */
+export function getActivePromptTemplate(templateId: PromptTemplateId): PromptTemplateVersion {
+  ensureSeeded(templateId);
+  const row = db
+    .select()
+    .from(sqlitePromptTemplates)
+    .where(and(eq(sqlitePromptTemplates.templateId, templateId), eq(sqlitePromptTemplates.active, true)))
+    .get();
+  if (!row) {
+    throw new Error(`Prompt template ${templateId} has no active version`);
+  }
+  return toVersion(row);
+}
+
+/**
+ * All versions of a template, oldest first
+ */
+export function getPromptTemplateVersions(templateId: PromptTemplateId): PromptTemplateVersion[] {
+  ensureSeeded(templateId);
+  return db
+    .select()
+    .from(sqlitePromptTemplates)
+    .where(eq(sqlitePromptTemplates.templateId, templateId))
+    .orderBy(asc(sqlitePromptTemplates.version))
+    .all()
+    .map(toVersion);
+}
+
+export function listPromptTemplates(): PromptTemplateSummary[] {
+  return PROMPT_TEMPLATE_IDS.map(templateId => {
+    const versions = getPromptTemplateVersions(templateId);
+    const active = versions.find(version => version.active) || versions[versions.length - 1];
+    return {
+      templateId,
+      activeVersion: active.version,
+      latestVersion: versions[versions.length - 1].version,
+      description: active.description,
+      updatedAt: versions[versions.length - 1].createdAt,
+    };
+  });
+}
+
+/**
+ * Add a version to a template, optionally making it the active one
+ */
+export function createPromptTemplateVersion(
+  templateId: PromptTemplateId,
+  content: PromptTemplateContent,
+  activate = true
+): PromptTemplateVersion {
+  ensureSeeded(templateId);
+
+  return db.transaction(tx => {
+    const latest = tx
+      .select()
+      .from(sqlitePromptTemplates)
+      .where(eq(sqlitePromptTemplates.templateId, templateId))
+      .orderBy(desc(sqlitePromptTemplates.version))
+      .get();
+
+    if (activate) {
+      tx.update(sqlitePromptTemplates)
+        .set({ active: false })
+        .where(eq(sqlitePromptTemplates.templateId, templateId))
+        .run();
+    }
+
+    const row = {
+      templateId,
+      version: (latest?.version || 0) + 1,
+      description: content.description || latest?.description || DEFAULT_PROMPT_TEMPLATES[templateId].description,
+      system: content.system,
+      user: content.user,
+      active: activate,
+      createdAt: new Date().toISOString(),
+    };
+    tx.insert(sqlitePromptTemplates).values(row).run();
+
+    console.log(`[PromptTemplates] Created ${templateId} v${row.version}${activate ? ' (active)' : ''}`);
+    return row;
+  });
+}
+
+/**
+ * Make a version the active one (e.g. to roll back); undefined if the version does not exist
+ */
+export function activatePromptTemplateVersion(
+  templateId: PromptTemplateId,
+  version: number
+): PromptTemplateVersion | undefined {
+  ensureSeeded(templateId);
+
+  return db.transaction(tx => {
+    const target = tx
+      .select()
+      .from(sqlitePromptTemplates)
+      .where(and(eq(sqlitePromptTemplates.templateId, templateId), eq(sqlitePromptTemplates.version, version)))
+      .get();
+    if (!target) {
+      return undefined;
+    }
+
+    tx.update(sqlitePromptTemplates)
+      .set({ active: false })
+      .where(eq(sqlitePromptTemplates.templateId, templateId))
+      .run();
+    tx.update(sqlitePromptTemplates)
+      .set({ active: true })
+      .where(and(eq(sqlitePromptTemplates.templateId, templateId), eq(sqlitePromptTemplates.version, version)))
+      .run();
+
+    console.log(`[PromptTemplates] Activated ${templateId} v${version}`);
+    return toVersion({ ...target, active: true });
+  });
+}
+
+/**
+ * Delete a version that is neither active nor the latest
+ * The latest version is kept so version numbers recorded in audit logs are never reused.
+ * Returns 'deleted', 'not-found', or 'protected' for the active or latest version
+ */
+export function deletePromptTemplateVersion(
+  templateId: PromptTemplateId,
+  version: number
+): 'deleted' | 'not-found' | 'protected' {
+  const versions = getPromptTemplateVersions(templateId);
+  const target = versions.find(candidate => candidate.version === version);
+  if (!target) {
+    return 'not-found';
+  }
+  if (target.active || target.version === versions[versions.length - 1].version) {
+    return 'protected';
+  }
+
+  db.delete(sqlitePromptTemplates)
+    .where(and(eq(sqlitePromptTemplates.templateId, templateId), eq(sqlitePromptTemplates.version, version)))
+    .run();
+  console.log(`[PromptTemplates] Deleted ${templateId} v${version}`);
+  return 'deleted';
+}
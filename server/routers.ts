@@ -1,10 +1,16 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
+import { adminProcedure, publicProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import { createOllamaClient } from "./agents/ollamaClient";
 import { createWorkflow } from "./agents/observerWorkflow";
+import { createWorkflowClients, findMissingCredentials } from "./agents/clientFactory";
+import { getPipelineExecution } from "./pipelineState";
+import { redactSecrets } from "./_core/redact";
+import { LLM_PROVIDERS } from "./agents/llmClient";
+import { MODEL_CAPABILITIES, queryModelCatalog } from "./agents/modelCatalog";
+import { purgeCachedResponses } from "./llmResponseCache";
 
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -24,17 +30,24 @@ export const appRouter = router({
     execute: publicProcedure
       .input(z.object({
         url: z.string().url('Invalid URL provided'),
-        editorId: z.string().optional().default('default-editor')
+        editorId: z.string().optional().default('default-editor'),
+        outlineApproval: z.boolean().optional(),
+        pipelineId: z.string().optional()
       }))
       .mutation(async ({ input }) => {
         try {
           // Use local Ollama client by default here. The application also supports OpenRouter
           // via the API routes that accept a `provider` parameter and `apiKey`.
+          // The provider and model are stored on the execution so resume rebuilds the same client.
           const ollamaClient = createOllamaClient('llama2');
           const workflow = createWorkflow(ollamaClient);
           const result = await workflow.execute({ 
             url: input.url,
-            editorId: input.editorId 
+            editorId: input.editorId,
+            model: 'llama2',
+            provider: 'ollama',
+            outlineApproval: input.outlineApproval,
+            pipelineId: input.pipelineId
           });
           return result;
         } catch (error) {
@@ -65,7 +78,7 @@ export const appRouter = router({
             metrics: execution.metrics ? JSON.parse(execution.metrics) : null,
           };
 
-          return parsedExecution;
+          return redactSecrets(parsedExecution);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           throw new Error(`Failed to get execution state: ${errorMessage}`);
@@ -75,17 +88,47 @@ export const appRouter = router({
       .input(z.object({
         executionId: z.string(),
         resumeData: z.object({
-          gate: z.enum(['concepts', 'draft']),
+          gate: z.enum(['concepts', 'outline', 'draft']),
           approved: z.boolean(),
-          comments: z.string().optional()
-        })
+          decision: z.enum(['approve', 'reject', 'revise']).optional(),
+          comments: z.string().optional(),
+          concepts: z.array(z.string()).optional(),
+          outline: z.object({
+            title: z.string(),
+            introduction: z.array(z.string()),
+            sections: z.array(z.object({
+              heading: z.string(),
+              keyPoints: z.array(z.string())
+            })),
+            conclusion: z.array(z.string())
+          }).optional()
+        }).refine(
+          data => data.decision !== 'revise' || !!data.comments?.trim(),
+          { message: 'Comments are required when requesting changes', path: ['comments'] }
+        ).refine(
+          data => !data.concepts || (data.gate === 'concepts' && data.concepts.some(concept => concept.trim().length > 0)),
+          { message: 'Edited concepts must contain at least one concept and are only accepted at the concept gate', path: ['concepts'] }
+        ).refine(
+          data => !data.outline || data.gate === 'outline',
+          { message: 'An edited outline is only accepted at the outline gate', path: ['outline'] }
+        )
       }))
       .mutation(async ({ input }) => {
         try {
-          // Use local Ollama client by default here. For OpenRouter, see the workflow API
-          // which can create an OpenRouter client when `provider: 'openrouter'` is provided.
-          const ollamaClient = createOllamaClient('llama2');
-          const workflow = createWorkflow(ollamaClient);
+          // Rebuild the clients from the provider and model the execution was started with
+          const execution = await getPipelineExecution(input.executionId);
+          if (!execution) {
+            throw new Error(`Execution not found: ${input.executionId}`);
+          }
+
+          const credentials = { credentialRef: execution.credentialRef };
+          const missingCredentials = findMissingCredentials(execution, execution.stepModels, credentials);
+          if (missingCredentials.length > 0) {
+            throw new Error(`No OpenRouter API key is available for: ${missingCredentials.join(', ')}`);
+          }
+
+          const { llmClient, clientFactory } = createWorkflowClients(execution, credentials);
+          const workflow = createWorkflow(llmClient, undefined, clientFactory);
           const result = await workflow.resume(input.executionId, input.resumeData);
           return result;
         } catch (error) {
@@ -93,6 +136,36 @@ export const appRouter = router({
           throw new Error(`Workflow resume failed: ${errorMessage}`);
         }
       }),
+    models: publicProcedure
+      .input(z.object({
+        search: z.string().optional(),
+        provider: z.enum(LLM_PROVIDERS).optional(),
+        installed: z.boolean().optional(),
+        capability: z.enum(MODEL_CAPABILITIES).optional(),
+        minContextLength: z.number().int().positive().optional(),
+        refresh: z.boolean().optional()
+      }).optional())
+      .query(async ({ input }) => {
+        // Same catalog as GET /api/models; unavailable providers are reported, not thrown
+        return queryModelCatalog(input);
+      }),
+    purgeResponseCache: adminProcedure
+      .input(z.object({
+        provider: z.enum(LLM_PROVIDERS).optional(),
+        model: z.string().min(1).optional(),
+        olderThanHours: z.number().positive().optional()
+      }))
+      .mutation(({ input }) => {
+        // Without filters every cached response is removed
+        const purged = purgeCachedResponses({
+          provider: input.provider,
+          model: input.model,
+          olderThan: input.olderThanHours
+            ? new Date(Date.now() - input.olderThanHours * 60 * 60 * 1000)
+            : undefined,
+        });
+        return { purged };
+      }),
     health: publicProcedure
       .query(async () => {
         try {
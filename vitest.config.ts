@@ -3,8 +3,17 @@ import path from "path";
 
 export default defineConfig({
   root: path.resolve(import.meta.dirname),
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
   test: {
     environment: "node",
     include: ["server/**/*.test.ts", "server/**/*.spec.ts"],
+    env: {
+      SQLITE_DB_PATH: ":memory:",
+      MOCK_LLM_ENABLED: "true",
+    },
   },
 });